@@ -1,108 +1,835 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { 
-  detectOpenPalm, 
-  detectPointing, 
-  detectVictory, 
-  isFingerExtended,
-  lerp,
-  getHandSize,
-  getPinchRatio,
-  getPinchMidpoint,
-  distance,
-  isInSafeZone
-} from './utils/geometry';
-import { DrawingPath, Point, ToolType, Particle, HandLandmark } from './types';
+import {
+  createGestureState,
+  stepGesture,
+  setMenuOpen,
+  GestureAction,
+  GestureState,
+  DEFAULT_GESTURE_CONFIG,
+  NO_ROLES
+} from './utils/gestureEngine';
+import { HANDEDNESS, otherHand, assignHands } from './utils/handTracking';
+import {
+  HandFrameResult,
+  HandTracker,
+  InferenceOptions,
+  createWorkerTracker,
+  createMainTracker,
+  startFrameCapture,
+  createInferenceMetrics,
+  recordInferenceResult,
+  summarizeInference,
+  ratePerSecond,
+  epochNow
+} from './utils/inference';
+import {
+  buildRegistry,
+  poseGestureId,
+  loadPoseTemplates,
+  savePoseTemplates,
+  loadGestureBindings,
+  saveGestureBindings,
+  GestureBinding
+} from './utils/gestureRegistry';
+import { normalizePose } from './utils/poseClassifier';
+import { createTwoHandState, stepTwoHand, PinchSample } from './utils/twoHandGesture';
+import { PointerSample, toPointerSamples, stepPointer } from './utils/pointerInput';
+import { IDENTITY_VIEW, screenToWorld, worldToScreen, applyViewTransform, pinWorldPoint, getVisibleRect } from './utils/viewport';
+import {
+  createRecording,
+  recordFrame,
+  getFramesBetween,
+  getRecordingDuration,
+  serializeRecording,
+  parseRecording
+} from './utils/recording';
+import { downloadText, downloadBlob, pickFile, fileTimestamp } from './utils/files';
+import { benchmarkFilters } from './utils/filterBenchmark';
+import { createDocument, serializeDocument, parseDocument } from './utils/document';
+import { exportSvg, exportPng, recordCanvas, CanvasRecorder, ExportKind } from './utils/export';
+import {
+  TimelapsePlayback,
+  createTimelapsePlayback,
+  advanceTimelapse,
+  getTimelapseFrame,
+  getTimelapseTexts,
+  spreadTimes
+} from './utils/timelapse';
+import { createHistory, executeCommand, undo, redo, canUndo, canRedo, Drawing, HistoryCommand, TextsChange } from './utils/history';
+import {
+  PreparedTemplate,
+  WrittenGlyph,
+  MAX_USER_GLYPHS,
+  prepareTemplates,
+  createGlyphTemplate,
+  loadGlyphTemplates,
+  saveGlyphTemplates,
+  recognizeText,
+  createTextObject
+} from './utils/handwriting';
+import {
+  MAX_LAYERS,
+  DEFAULT_LAYER_ID,
+  createDefaultLayer,
+  createLayer,
+  updateLayer,
+  moveLayer,
+  nextOpacity,
+  isLayerEditable,
+  getLayerPaths
+} from './utils/layers';
+import { polylineHitTest, getHandSize, getPinchRatio, getPinchMidpoint } from './utils/geometry';
+import {
+  CALIBRATION_STEPS,
+  CalibrationSamples,
+  createCalibrationSamples,
+  createProfile,
+  DEFAULT_PROFILE_ID,
+  createDefaultProfile,
+  loadProfiles,
+  saveProfiles,
+  loadActiveProfileId,
+  saveActiveProfileId
+} from './utils/calibration';
+import { Settings, DEFAULT_SETTINGS, validateSettings, loadSettings, saveSettings } from './utils/settings';
+import { CURSOR_FILTERS, LANDMARK_FILTERS } from './utils/filters';
+import { applySensitivity } from './utils/pressure';
+import { recognizeShape, SHAPE_LABELS } from './utils/shapeRecognition';
+import {
+  SelectionTransform,
+  identityTransform,
+  isIdentityTransform,
+  transformPoint,
+  transformPath,
+  applySelectionTransform,
+  getBounds,
+  getBoundsCorners,
+  isInBounds,
+  hitTestPath,
+  selectInLasso
+} from './utils/selection';
+import { drawInk, drawInkPath, drawTexts, getTextBounds, drawMinimap, drawFrameOverlay, compositeLayer, ERASER_WIDTH_FACTOR } from './utils/render';
+import { createInkCache, beginInkFrame, getLayerInk } from './utils/inkCache';
+import {
+  DEBUG_HAND_COLORS,
+  createDebugTrace,
+  recordHandStep,
+  recordPointerStep,
+  describeHand,
+  describeTransitions,
+  drawHandSkeleton,
+  drawSafeZone,
+  drawCursorTrace,
+  drawDebugHud
+} from './utils/debugHud';
+import { MenuAction, MenuContext, PaletteEdit, buildMenu, getMenuItems, findMenuItem, COLOR_WHEEL_ID, COLOR_VALUE_ID } from './utils/menu';
+import {
+  BUILTIN_PALETTE,
+  MAX_PALETTES,
+  createPalette,
+  addPaletteColor,
+  removePaletteColor,
+  loadPalettes,
+  savePalettes,
+  loadActivePaletteId,
+  saveActivePaletteId
+} from './utils/palettes';
+import { hexToHsv, hsvToHex, wheelHsv } from './utils/color';
+import { DEFAULT_FIT_CONFIG, EMPTY_FIT_STATS, FitStats, addFitStats, simplifyStroke } from './utils/strokeFit';
+import {
+  RadialState,
+  RADIAL_BACK_ID,
+  buildRadialMenu,
+  getRadialRing,
+  getRadialTitle,
+  createRadialState,
+  clampRadialCenter,
+  stepRadial,
+  openRadialPath
+} from './utils/radialMenu';
+import {
+  CollabSession,
+  CollabLink,
+  CollabStatus,
+  LiveMessage,
+  ServerMessage,
+  DEFAULT_RELAY_PORT,
+  createPeer,
+  createCollabSession,
+  connectRelay,
+  nextPathId,
+  setPathId,
+  sortPaths,
+  diffDrawing,
+  drawingToOps,
+  adoptBoard,
+  addPeer,
+  receiveOp,
+  receiveLive
+} from './utils/collab';
+import {
+  DrawingPath,
+  Layer,
+  Point,
+  StrokePoint,
+  TextObject,
+  GlyphTemplate,
+  ToolType,
+  EraserMode,
+  Particle,
+  Handedness,
+  TrackedHand,
+  LandmarkRecording,
+  PoseTemplate,
+  CalibrationProfile,
+  Palette,
+  ShapeKind,
+  ViewTransform,
+  Viewport
+} from './types';
 import Toolbar from './components/Toolbar';
+import RadialMenu from './components/RadialMenu';
+import PoseTrainer, { GestureRow, PoseCaptureStatus } from './components/PoseTrainer';
+import CalibrationWizard, { CalibrationStatus } from './components/CalibrationWizard';
+import SettingsPanel from './components/SettingsPanel';
+import TimelapsePlayer, { TimelapseStatus } from './components/TimelapsePlayer';
+import TextEditor, { TextEditorStatus } from './components/TextEditor';
+import FilterBenchmarkPanel, { FilterBenchmarkStatus } from './components/FilterBenchmarkPanel';
 
 // --- CONFIGURATION ---
-const TARGET_FPS = 30;
-const FRAME_INTERVAL = 1000 / TARGET_FPS;
+// User-tunable values (FPS, pinch, dwell, filters, MediaPipe options) live in utils/settings.ts
+const TWO_HAND_MAX_STROKE_POINTS = 10; // A stroke longer than this is not cancelled by a two-hand pinch
+const POSE_CAPTURE_COUNTDOWN_MS = 3000; // Time to get into position before a pose is captured
+const POSE_CAPTURE_SAMPLES = 30;        // Frames recorded per taught pose
+const SHAPE_PREVIEW_MS = 2000;          // A snapped shape can be rejected (undo / Esc) for this long
+const GRAB_RADIUS_PX = 20;              // How close a fist must close to a stroke (or the selection box) to pick it up
+const DUPLICATE_OFFSET_PX = 20;         // Copies are offset so they don't hide the originals
+const WHEEL_ZOOM_RATE = 0.0015;         // Zoom factor per wheel delta unit (exponential, so zooming in and out cancel)
+const MINIMAP_SIZE = { width: 200, height: 140 };
+const LIVE_SEND_INTERVAL_MS = 50;       // Cursor and in-progress stroke updates to peers
+const FRAME_SAMPLES = 120;              // Frames shown by the frame-time overlay
+const FRAME_OVERLAY_SIZE = { width: 280, height: 175 };
+const DEBUG_HUD_SIZE = { width: 470, height: 400 };
+const MAX_PENDING_HAND_RESULTS = 8;     // Results kept for the next frame (older ones are stale anyway)
+const MAX_DWELL_STEP_MS = 100;          // A gap in tracking does not count as dwelling
+const TIMELAPSE_STATUS_INTERVAL_MS = 100; // Player position updates while playing
+const TIMELAPSE_END_HOLD_MS = 1500;     // An exported time-lapse lingers on the finished drawing
+const TEXT_TAP_PX = 12;                 // A text-mode stroke within this (screen px) is a tap, which edits the text under it
+const WRITING_NOTICE_MS = 2000;         // "Not recognized" stays up this long
 
-// Stability Parameters
-const PINCH_START_THRESHOLD = 0.09; // Ratio relative to hand size
-const PINCH_END_THRESHOLD = 0.14;   // Hysteresis: Harder to exit pinch
-const PINCH_DEBOUNCE_FRAMES = 3;    // Frames required to confirm state change
-const MIN_DRAW_DIST_PX = 2;         // Minimum movement to record point
-const DWELL_TIME_MS = 600;          // Time to trigger click in menu (reduced from 800)
+// Options come from the settings (full model and strict confidence by default, to reduce ghosting)
+const inferenceOptions = (settings: Settings): InferenceOptions => ({
+  maxNumHands: settings.maxNumHands,
+  modelComplexity: settings.modelComplexity,
+  minDetectionConfidence: settings.minDetectionConfidence,
+  minTrackingConfidence: settings.minTrackingConfidence
+});
+const CALIBRATION_COUNTDOWN_MS = 2000;  // Time to get into position before each calibration step
+const CALIBRATION_STEP_MS = { open: 1500, pinch: 1500, reach: 5000 }; // Sampling time per step
 
-// Application States
-type AppMode = 'IDLE' | 'HOVER' | 'DRAWING' | 'MENU';
+type InputStatus = 'LIVE' | 'RECORDING' | 'REPLAYING';
+type InputSource = Handedness | 'Pointer'; // A tracked hand, or the mouse / touch / pen
+
+// Why the camera could not be used (the pointer works either way)
+const describeCameraError = (err: unknown): string => {
+  const name = err instanceof Error ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'Camera access was denied';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'No camera found';
+  if (name === 'NotReadableError') return 'The camera is in use by another application';
+  if (!navigator.mediaDevices) return 'Camera access needs HTTPS (or localhost)';
+  return 'The camera could not be started';
+};
+
+// Render-loop actions the panels call into
+interface LoopActions {
+  runCommand: (cmd: HistoryCommand) => void;
+  clickMenuItem: (id: string, point: Point) => void;
+  toggleMenu: () => void;
+}
+
+interface CollabIndicator {
+  status: CollabStatus;
+  peers: number; // Other people on the board
+}
+
+interface PoseCapture {
+  name: string;
+  action: GestureBinding;
+  startAt: number;
+  samples: number[][];
+}
+
+// A stroke that was just replaced by a recognized shape
+interface ShapeSuggestion {
+  kind: ShapeKind;
+  original: DrawingPath; // As drawn, fitted only if it is restored
+  shape: DrawingPath;
+  until: number;
+}
+
+// A live move (fist) or scale / rotate (two-hand spread) of the selection, committed as one undo step on release
+interface SelectionDrag {
+  source: 'grab' | 'spread';
+  start: Point; // World point under the hand(s) when it began
+  transform: SelectionTransform;
+}
+
+// Strokes written in text mode, recognized once the hand pauses
+interface Writing {
+  strokes: DrawingPath[];
+  lastAt: number; // Input clock time the last stroke ended
+}
+
+// The glyphs behind the last recognized text, so corrections to it can be taught
+interface LastWriting {
+  textId: string;
+  glyphs: WrittenGlyph[];
+  chars: string; // What each glyph was read as
+}
+
+interface CalibrationRun {
+  name: string;
+  stepIndex: number;
+  startAt: number; // Sampling of the current step begins (after its countdown)
+  samples: CalibrationSamples;
+}
 
 export default function App() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const trackerRef = useRef<HandTracker | null>(null);
+  const loopRef = useRef<LoopActions | null>(null);
 
   // --- MUTABLE STATE (Performance Critical) ---
   const state = useRef({
     paths: [] as DrawingPath[],
-    currentPath: [] as Point[],
+    layers: [createDefaultLayer()] as Layer[],
+    texts: [] as TextObject[],       // Typed text objects (recognized air-writing)
+    activeLayerId: DEFAULT_LAYER_ID, // Drawing, erasing and selecting apply to this layer only
+    currentPath: [] as StrokePoint[],
     particles: [] as Particle[],
+    history: createHistory(),
     
     // Tools
     tool: ToolType.PEN,
+    eraserMode: EraserMode.PIXEL,
     color: '#00FF00',
     size: 5,
+    erasing: new Set<DrawingPath>(), // Paths hit by the current stroke-eraser sweep
+    palettes: [] as Palette[],       // User palettes (the built-in one is not stored)
+    paletteId: BUILTIN_PALETTE.id,
+    pickerOpen: false,               // Color wheel shown in the menu
+    radial: null as RadialState | null, // Radial menu around the hand (menu style 'radial')
+    fitStats: EMPTY_FIT_STATS,       // Points dropped by stroke simplification this session
+    inkCache: createInkCache(),      // Committed ink rasterized per layer (see utils/inkCache.ts)
+    frameTimes: [] as { at: number; update: number; draw: number }[], // Recent frames (ms), for the frame-time overlay
+    debug: createDebugTrace(),       // Gesture steps recorded while the debug HUD is shown (see utils/debugHud.ts)
+    shapeSuggestion: null as ShapeSuggestion | null,
+
+    // Air-writing (text tool, see utils/handwriting.ts)
+    writing: null as Writing | null,
+    lastWriting: null as LastWriting | null,
+    writingNotice: null as { at: Point; until: number } | null, // Writing that could not be read (world point)
+    userGlyphs: [] as GlyphTemplate[],
+    glyphTemplates: [] as PreparedTemplate[], // User glyphs first, then the built-in ones
+
+    // Selection (committed paths picked up by a fist or enclosed by the lasso)
+    selection: [] as DrawingPath[],
+    selectionDrag: null as SelectionDrag | null,
     
-    // State Machine
-    mode: 'IDLE' as AppMode,
-    consecutivePinchFrames: 0,
-    consecutiveOpenFrames: 0,
-    
-    // Geometry & Smoothing
-    cursorPos: { x: 0, y: 0 } as Point, // Screen coordinates
-    smoothedPos: null as Point | null,  // Filtered coordinates
-    handSize: 0,
+    settings: DEFAULT_SETTINGS,
+
+    // State Machines, one per hand (see utils/gestureEngine.ts)
+    hands: { Left: createGestureState(), Right: createGestureState() } as Record<Handedness, GestureState>,
+    dominantHand: 'Right' as Handedness,
+    pointer: createGestureState(),   // Mouse / touch / pen, stepped like a hand (see utils/pointerInput.ts)
+    pendingPointer: [] as PointerSample[],
+    twoHand: createTwoHandState(),
+
+    // Gesture Registry (built-ins + taught poses, with user bindings)
+    gestureConfig: DEFAULT_GESTURE_CONFIG,
+    poseTemplates: [] as PoseTemplate[],
+    gestureBindings: {} as Record<string, GestureBinding>,
+    poseCapture: null as PoseCapture | null,
+
+    // Calibration (pinch thresholds + tracking region)
+    profiles: [] as CalibrationProfile[],
+    activeProfileId: DEFAULT_PROFILE_ID,
+    calibration: null as CalibrationRun | null,
+
+    // Canvas view (paths are stored in world coordinates)
+    view: IDENTITY_VIEW,
+    pan: null as { start: Point; startView: ViewTransform } | null, // Fist drag on empty canvas (screen coordinates)
     
     // Menu Interaction
-    isMenuOpen: false, // React syncs to this occasionally
     selectionProgress: 0,
     hoveredId: null as string | null,
-    lastGestureTime: 0,
     
     // System
-    lastLandmarks: null as HandLandmark[] | null,
+    pendingHands: [] as HandFrameResult[], // Tracker results not stepped yet (oldest first)
+    inference: createInferenceMetrics(),
+    workerFailed: false,             // Inference fell back to the main thread
+    lastMenuPointerAt: -Infinity,    // Dwell time is measured between pointer samples
     cameraReady: false,
+
+    // Recording & Replay
+    recording: null as LandmarkRecording | null,
+    recordingStart: 0,
+    replay: null as LandmarkRecording | null,
+    replayClock: 0, // Virtual time (ms) into the replay
+    replayStartedAt: 0, // Wall clock the replay started at, so strokes drawn by it get real times
+
+    // Time-lapse of the committed paths (see utils/timelapse.ts); gestures are paused while it is open
+    timelapse: null as TimelapsePlayback | null,
+    timelapseTickAt: 0,   // performance.now() of the last advance
+    timelapseShownAt: 0,  // Last player update
+    timelapseExport: null as { recorder: CanvasRecorder; endsAt: number | null } | null,
+
+    // Collaboration (shared board over a relay, see utils/collab.ts)
+    collab: null as CollabSession | null,
+    relay: null as CollabLink | null,
+    liveStrokeId: null as string | null, // Our in-progress stroke as peers see it
+    livePoints: [] as StrokePoint[],     // Stroke points not sent yet
+    liveCursor: null as Point | null,    // Last cursor sent
+    lastLiveSend: 0,
   });
 
   // --- REACT STATE (UI Updates only) ---
   const [uiVisible, setUiVisible] = useState(false);
-  const [toolbarProps, setToolbarProps] = useState({
-    activeTool: ToolType.PEN,
-    activeColor: '#00FF00',
-    activeSize: 5
+  const [menuContext, setMenuContext] = useState<MenuContext>({
+    tool: ToolType.PEN,
+    eraserMode: EraserMode.PIXEL,
+    color: '#00FF00',
+    size: 5,
+    canUndo: false,
+    canRedo: false,
+    smartShapes: DEFAULT_SETTINGS.smartShapes,
+    selectionCount: 0,
+    layers: [createDefaultLayer()],
+    activeLayerId: DEFAULT_LAYER_ID,
+    palette: BUILTIN_PALETTE,
+    paletteIndex: 0,
+    paletteCount: 1,
+    pickerOpen: false
   });
+  const [menuHoverId, setMenuHoverId] = useState<string | null>(null);
+  const [radialView, setRadialView] = useState<RadialState | null>(null);
+  const [fitStats, setFitStats] = useState<FitStats>(EMPTY_FIT_STATS);
+  const [inputStatus, setInputStatus] = useState<InputStatus>('LIVE');
+  const [dominantHand, setDominantHand] = useState<Handedness>('Right');
+  const [trainerOpen, setTrainerOpen] = useState(false);
+  const [gestureRows, setGestureRows] = useState<GestureRow[]>([]);
+  const [captureStatus, setCaptureStatus] = useState<PoseCaptureStatus | null>(null);
+  const [calibrationOpen, setCalibrationOpen] = useState(false);
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([createDefaultProfile(DEFAULT_SETTINGS)]);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [calibrationStatus, setCalibrationStatus] = useState<CalibrationStatus | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [collabIndicator, setCollabIndicator] = useState<CollabIndicator | null>(null);
+  const [timelapseStatus, setTimelapseStatus] = useState<TimelapseStatus | null>(null);
+  const [textEditor, setTextEditor] = useState<TextEditorStatus | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [cameraReady, setCameraReady] = useState(false);
+  const [filterBenchmark, setFilterBenchmark] = useState<FilterBenchmarkStatus | null>(null);
+
+  // --- GESTURE REGISTRY ---
+  // Plain functions over the mutable state, shared by the render loop and the trainer panel
+
+  const rebuildGestures = () => {
+    const s = state.current;
+    s.gestureConfig = { ...s.gestureConfig, gestures: buildRegistry(s.poseTemplates, s.gestureBindings) };
+    const customIds = new Set(s.poseTemplates.map(poseGestureId));
+    setGestureRows(s.gestureConfig.gestures.map(g => ({
+      id: g.id,
+      label: g.label,
+      action: g.action,
+      custom: customIds.has(g.id)
+    })));
+  };
+
+  const bindGestureAction = (id: string, action: GestureBinding) => {
+    const s = state.current;
+    s.gestureBindings = { ...s.gestureBindings, [id]: action };
+    saveGestureBindings(s.gestureBindings);
+    rebuildGestures();
+  };
+
+  const deletePose = (id: string) => {
+    const s = state.current;
+    s.poseTemplates = s.poseTemplates.filter(t => poseGestureId(t) !== id);
+    const { [id]: _removed, ...bindings } = s.gestureBindings;
+    s.gestureBindings = bindings;
+    savePoseTemplates(s.poseTemplates);
+    saveGestureBindings(s.gestureBindings);
+    rebuildGestures();
+  };
+
+  const startPoseCapture = (name: string, action: GestureBinding) => {
+    state.current.poseCapture = { name, action, startAt: Date.now() + POSE_CAPTURE_COUNTDOWN_MS, samples: [] };
+    setCaptureStatus({ phase: 'countdown', value: POSE_CAPTURE_COUNTDOWN_MS / 1000 });
+  };
+
+  const cancelPoseCapture = () => {
+    state.current.poseCapture = null;
+    setCaptureStatus(null);
+  };
+
+  // Called every frame while teaching; samples the dominant (or only) visible hand
+  const capturePoseFrame = (trackedHands: TrackedHand[], now: number) => {
+    const s = state.current;
+    const capture = s.poseCapture;
+    if (!capture) return;
+
+    if (now < capture.startAt) {
+      const seconds = Math.ceil((capture.startAt - now) / 1000);
+      setCaptureStatus(prev => prev && prev.value === seconds ? prev : { phase: 'countdown', value: seconds });
+      return;
+    }
+
+    const hand = trackedHands.find(h => h.handedness === s.dominantHand) || trackedHands[0];
+    if (!hand) return;
+    capture.samples.push(normalizePose(hand.landmarks));
+
+    if (capture.samples.length < POSE_CAPTURE_SAMPLES) {
+      // Only re-render every few samples
+      if (capture.samples.length % 5 === 0) {
+        setCaptureStatus({ phase: 'capturing', value: capture.samples.length / POSE_CAPTURE_SAMPLES });
+      }
+      return;
+    }
+
+    const template: PoseTemplate = { id: Date.now().toString(36), name: capture.name, samples: capture.samples };
+    s.poseTemplates = [...s.poseTemplates, template];
+    s.gestureBindings = { ...s.gestureBindings, [poseGestureId(template)]: capture.action };
+    savePoseTemplates(s.poseTemplates);
+    saveGestureBindings(s.gestureBindings);
+    s.poseCapture = null;
+    setCaptureStatus(null);
+    rebuildGestures();
+  };
+
+  // --- CALIBRATION ---
+
+  const applyProfile = (id: string) => {
+    const s = state.current;
+    const profile = s.profiles.find(p => p.id === id) || createDefaultProfile(s.settings);
+    s.gestureConfig = {
+      ...s.gestureConfig,
+      pinchStartThreshold: profile.pinchStartThreshold,
+      pinchEndThreshold: profile.pinchEndThreshold,
+      trackingRegion: profile.region
+    };
+    s.activeProfileId = profile.id;
+    saveActiveProfileId(profile.id);
+    setActiveProfileId(profile.id);
+  };
+
+  const showProfiles = () => {
+    const s = state.current;
+    setProfiles([createDefaultProfile(s.settings), ...s.profiles]);
+  };
+
+  const syncProfiles = () => {
+    saveProfiles(state.current.profiles);
+    showProfiles();
+  };
+
+  const deleteProfile = (id: string) => {
+    const s = state.current;
+    s.profiles = s.profiles.filter(p => p.id !== id);
+    syncProfiles();
+    if (id === s.activeProfileId) applyProfile(DEFAULT_PROFILE_ID);
+  };
+
+  const startCalibration = (name: string) => {
+    state.current.calibration = {
+      name,
+      stepIndex: 0,
+      startAt: Date.now() + CALIBRATION_COUNTDOWN_MS,
+      samples: createCalibrationSamples()
+    };
+    setCalibrationStatus({ phase: 'countdown', step: CALIBRATION_STEPS[0], value: CALIBRATION_COUNTDOWN_MS / 1000 });
+  };
+
+  const cancelCalibration = () => {
+    state.current.calibration = null;
+    setCalibrationStatus(null);
+  };
+
+  // Called every frame while calibrating; samples the dominant (or only) visible hand
+  const calibrationFrame = (trackedHands: TrackedHand[], now: number) => {
+    const s = state.current;
+    const run = s.calibration;
+    if (!run) return;
+    const step = CALIBRATION_STEPS[run.stepIndex];
+
+    if (now < run.startAt) {
+      const seconds = Math.ceil((run.startAt - now) / 1000);
+      setCalibrationStatus(prev => prev && prev.phase === 'countdown' && prev.step === step && prev.value === seconds
+        ? prev
+        : { phase: 'countdown', step, value: seconds });
+      return;
+    }
+
+    const hand = trackedHands.find(h => h.handedness === s.dominantHand) || trackedHands[0];
+    if (hand) {
+      const { landmarks } = hand;
+      if (step === 'reach') {
+        const mid = getPinchMidpoint(landmarks);
+        run.samples.reach.push({ x: 1 - mid.x, y: mid.y });
+      } else {
+        run.samples[step].push(getPinchRatio(landmarks, getHandSize(landmarks)));
+      }
+    }
+
+    const progress = Math.min(1, (now - run.startAt) / CALIBRATION_STEP_MS[step]);
+    if (progress < 1) {
+      setCalibrationStatus({ phase: 'sampling', step, value: progress });
+      return;
+    }
+
+    // Next step, or derive the profile
+    if (run.stepIndex < CALIBRATION_STEPS.length - 1) {
+      run.stepIndex++;
+      run.startAt = now + CALIBRATION_COUNTDOWN_MS;
+      return;
+    }
+
+    s.calibration = null;
+    try {
+      const profile = createProfile(run.name, run.samples);
+      s.profiles = [...s.profiles, profile];
+      syncProfiles();
+      applyProfile(profile.id);
+      setCalibrationStatus(null);
+    } catch (err) {
+      setCalibrationStatus({ phase: 'failed', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  // --- SETTINGS ---
+
+  const applySettings = (next: Settings) => {
+    const s = state.current;
+    s.settings = next;
+    s.gestureConfig = {
+      ...s.gestureConfig,
+      pinchDebounceFrames: next.pinchDebounceFrames,
+      minDrawDistPx: next.minDrawDistPx,
+      menuCooldownMs: next.menuCooldownMs,
+      filters: {
+        landmarks: LANDMARK_FILTERS[next.landmarkFilter],
+        drawing: CURSOR_FILTERS[next.drawingFilter],
+        menu: CURSOR_FILTERS[next.menuFilter]
+      }
+    };
+    // The Default profile follows the pinch thresholds
+    applyProfile(s.activeProfileId);
+    showProfiles();
+    trackerRef.current?.setOptions(inferenceOptions(next));
+    setSettings(next);
+  };
+
+  const updateSettings = (patch: Partial<Settings>) => {
+    const next = validateSettings({ ...state.current.settings, ...patch });
+    saveSettings(next);
+    applySettings(next);
+  };
+
+  const resetSettings = () => {
+    saveSettings(DEFAULT_SETTINGS);
+    applySettings(DEFAULT_SETTINGS);
+  };
+
+  // --- TIME-LAPSE ---
+  // Player controls over the mutable playback; the render loop advances it (see stepTimelapse)
+
+  const showTimelapse = () => {
+    const s = state.current;
+    const playback = s.timelapse;
+    s.timelapseShownAt = performance.now();
+    setTimelapseStatus(playback && {
+      time: playback.time,
+      duration: playback.timelapse.duration,
+      playing: playback.playing,
+      speed: playback.speed,
+      showCamera: playback.showCamera,
+      exporting: !!s.timelapseExport
+    });
+  };
+
+  // Closing during an export discards the video
+  const closeTimelapse = () => {
+    const s = state.current;
+    s.timelapseExport?.recorder.stop();
+    s.timelapseExport = null;
+    s.timelapse = null;
+    showTimelapse();
+  };
+
+  // Ignored while exporting, so the video shows the whole time-lapse at one speed
+  const updateTimelapse = (patch: Partial<TimelapsePlayback>) => {
+    const s = state.current;
+    if (!s.timelapse || s.timelapseExport) return;
+    s.timelapse = { ...s.timelapse, ...patch };
+    s.timelapseTickAt = performance.now();
+    showTimelapse();
+  };
+
+  // Playing again after the end starts over
+  const toggleTimelapsePlaying = () => {
+    const playback = state.current.timelapse;
+    if (!playback) return;
+    if (playback.playing) updateTimelapse({ playing: false });
+    else updateTimelapse({ playing: true, time: playback.time >= playback.timelapse.duration ? 0 : playback.time });
+  };
+
+  const seekTimelapse = (time: number) => {
+    const playback = state.current.timelapse;
+    if (playback) updateTimelapse({ time: Math.min(Math.max(0, time), playback.timelapse.duration) });
+  };
+
+  // Replays from the start while recording the canvas; the WebM downloads once it has ended
+  const exportTimelapse = () => {
+    const s = state.current;
+    const canvas = canvasRef.current;
+    if (!s.timelapse || s.timelapseExport || !canvas) return;
+    try {
+      s.timelapseExport = { recorder: recordCanvas(canvas, s.settings.targetFps), endsAt: null };
+    } catch (err) {
+      console.error("Time-lapse Export Error:", err);
+      return;
+    }
+    s.timelapse = { ...s.timelapse, time: 0, playing: true };
+    s.timelapseTickAt = performance.now();
+    showTimelapse();
+  };
+
+  // --- TEXT ---
+  // The editor panel over one text object; its edits are history commands like any other
+
+  const showTextEditor = (id: string | null) => {
+    const s = state.current;
+    const text = id ? s.texts.find(t => t.id === id) : undefined;
+    setTextEditor(text ? {
+      id: text.id,
+      text: text.text,
+      size: text.size,
+      writtenGlyphs: s.lastWriting && s.lastWriting.textId === text.id ? s.lastWriting.glyphs.length : null,
+      userGlyphs: s.userGlyphs.length
+    } : null);
+  };
+
+  const setUserGlyphs = (templates: GlyphTemplate[]) => {
+    const s = state.current;
+    s.userGlyphs = templates;
+    s.glyphTemplates = prepareTemplates(templates);
+    saveGlyphTemplates(templates);
+  };
+
+  // An emptied text is deleted. Remembering keeps every corrected glyph, as it was written, under its new character.
+  const saveTextEdit = (value: string, size: number, remember: boolean) => {
+    const s = state.current;
+    const id = textEditor?.id;
+    if (!id || !s.texts.some(t => t.id === id)) {
+      showTextEditor(null);
+      return;
+    }
+    const last = s.lastWriting;
+    if (remember && last && last.textId === id) {
+      const chars = value.replace(/\s/g, '');
+      const taught = last.glyphs.flatMap((glyph, i) => chars[i] !== last.chars[i] ? [createGlyphTemplate(chars[i], glyph.strokes)] : []);
+      if (taught.length > 0) setUserGlyphs([...taught, ...s.userGlyphs].slice(0, MAX_USER_GLYPHS));
+      s.lastWriting = { ...last, chars };
+    }
+    const after = value.trim()
+      ? s.texts.map(t => t.id === id ? { ...t, text: value, size } : t)
+      : s.texts.filter(t => t.id !== id);
+    loopRef.current?.runCommand({ type: 'texts', before: s.texts, after });
+    showTextEditor(null);
+  };
+
+  const deleteEditedText = () => {
+    const s = state.current;
+    const id = textEditor?.id;
+    if (id) loopRef.current?.runCommand({ type: 'texts', before: s.texts, after: s.texts.filter(t => t.id !== id) });
+    showTextEditor(null);
+  };
+
+  const forgetGlyphs = () => {
+    setUserGlyphs([]);
+    showTextEditor(textEditor?.id ?? null);
+  };
 
   useEffect(() => {
     if (!videoRef.current || !canvasRef.current) return;
 
-    let hands: any = null;
+    let tracker: HandTracker | null = null;
+    let stopCapture: (() => void) | null = null;
     let cameraStream: MediaStream | null = null;
     let animationFrameId: number;
     let lastTime = 0;
-    let isProcessing = false;
+    let sized = false; // The canvas has been sized to the window at least once
+    const inkCanvas = document.createElement('canvas');
 
-    // 1. Initialize MediaPipe with High Accuracy
-    // @ts-ignore
-    hands = new window.Hands({
-      locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240/${file}`
-    });
+    // Restore taught poses and gesture bindings
+    state.current.poseTemplates = loadPoseTemplates();
+    state.current.gestureBindings = loadGestureBindings(state.current.poseTemplates);
+    rebuildGestures();
 
-    hands.setOptions({
-      maxNumHands: 1,
-      modelComplexity: 1, // Full model for better accuracy
-      minDetectionConfidence: 0.75, // Strict confidence to reduce ghosting
-      minTrackingConfidence: 0.75
-    });
+    // Restore custom palettes (the menu is synced once the helpers below exist)
+    state.current.palettes = loadPalettes();
+    state.current.paletteId = loadActivePaletteId();
 
-    hands.onResults((results: any) => {
-      isProcessing = false;
-      if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-        state.current.lastLandmarks = results.multiHandLandmarks[0];
-      } else {
-        state.current.lastLandmarks = null;
+    // Restore the user's glyph templates
+    state.current.userGlyphs = loadGlyphTemplates();
+    state.current.glyphTemplates = prepareTemplates(state.current.userGlyphs);
+
+    // Restore calibration profiles and settings (which apply the active profile)
+    state.current.profiles = loadProfiles();
+    state.current.activeProfileId = loadActiveProfileId();
+    applySettings(loadSettings());
+
+    // 1. Hand tracking (see utils/inference.ts): in a worker by default, on the main thread as a fallback
+    const handleHandResult = (result: HandFrameResult) => {
+      const s = state.current;
+      recordInferenceResult(s.inference, result.capturedAt, epochNow());
+      s.pendingHands.push(result);
+      if (s.pendingHands.length > MAX_PENDING_HAND_RESULTS) s.pendingHands.shift();
+      if (s.recording) recordFrame(s.recording, result.capturedAt - s.recordingStart, result.hands);
+    };
+
+    const startTracker = () => {
+      const s = state.current;
+      tracker?.close();
+      const options = inferenceOptions(s.settings);
+      tracker = s.settings.inferenceWorker && !s.workerFailed
+        ? createWorkerTracker(options, handleHandResult, message => {
+            console.warn(`${message}; falling back to main-thread inference`);
+            s.workerFailed = true;
+            startTracker();
+          })
+        : createMainTracker(options, handleHandResult);
+      trackerRef.current = tracker;
+    };
+
+    // Each camera frame goes to the tracker unless it is still busy with an earlier one (paused while replaying)
+    const handleCameraFrame = (capturedAt: number) => {
+      const s = state.current;
+      if (s.replay || !videoRef.current) return;
+      const backend = s.settings.inferenceWorker && !s.workerFailed ? 'worker' : 'main';
+      if (!tracker || tracker.backend !== backend) startTracker();
+      const current = tracker!;
+      if (!current.isReady()) return;
+      s.inference.frames++;
+      if (current.isBusy()) {
+        s.inference.dropped++;
+        return;
       }
-    });
+      current.send(videoRef.current, capturedAt);
+    };
 
     // 2. Camera Setup
     const startCamera = async () => {
@@ -124,18 +851,47 @@ export default function App() {
             };
           });
           state.current.cameraReady = true;
+          setCameraReady(true);
           cameraStream = stream;
+          stopCapture = startFrameCapture(videoRef.current, handleCameraFrame);
         }
       } catch (err) {
+        // Mouse, touch and pen keep working without it
         console.error("Camera Error:", err);
+        setCameraError(describeCameraError(err));
       }
     };
 
+    // Time in the base the inputs are stepped at: the replay's virtual clock, else capture time (epoch ms)
+    const inputClock = () => state.current.replay ? state.current.replayClock : epochNow();
+
     // 3. Logic Update (State Machine)
     const update = (width: number, height: number) => {
       const s = state.current;
-      const now = Date.now();
-      const landmarks = s.lastLandmarks;
+
+      // Every tracker result since the last frame is stepped at its capture time, so the filters and
+      // velocities see when each sample was taken rather than when inference finished.
+      let inputs: { hands: TrackedHand[]; t: number }[] = s.pendingHands.map(r => ({ hands: r.hands, t: r.capturedAt }));
+      s.pendingHands = [];
+
+      // Replay: substitute recorded landmarks for the live stream.
+      // The clock advances one frame interval per tick (not wall time) so a replay is deterministic.
+      if (s.replay) {
+        const step = 1000 / s.settings.targetFps;
+        inputs = getFramesBetween(s.replay, s.replayClock, s.replayClock + step).map(f => ({ hands: f.hands, t: f.t }));
+        s.replayClock += step;
+        if (s.replayClock > getRecordingDuration(s.replay)) stopReplay();
+      }
+      let pointerSamples = s.pendingPointer;
+      s.pendingPointer = [];
+      if (s.replay) pointerSamples = [];
+      if (s.timelapse) {
+        stepTimelapse();
+        inputs = [];
+        pointerSamples = [];
+      }
+      for (const input of inputs) stepHands(input.hands, input.t, width, height);
+      for (const sample of pointerSamples) stepPointerSample(sample, width, height);
 
       // Physics (Particles)
       if (s.particles.length > 0) {
@@ -149,208 +905,645 @@ export default function App() {
         s.particles = alive;
       }
 
-      // --- 1. DETECTION PHASE ---
-      if (!landmarks) {
-        if (s.mode === 'DRAWING') endStroke();
-        s.mode = 'IDLE';
-        s.smoothedPos = null;
-        return;
+      // Shape previews and the writing pause run on the input clock, so a replay reads and snaps the same way
+      const now = inputClock();
+      if (s.shapeSuggestion && now > s.shapeSuggestion.until) s.shapeSuggestion = null;
+      if (s.writingNotice && now > s.writingNotice.until) s.writingNotice = null;
+
+      // Air-writing is read once the hand pauses, or leaves text mode
+      const writing = s.writing;
+      if (writing && s.currentPath.length === 0 && (s.tool !== ToolType.TEXT || now - writing.lastAt >= s.settings.writingPauseMs)) {
+        finishWriting(now);
       }
 
-      // Calculate Basic Geometry
-      s.handSize = getHandSize(landmarks);
-      const pinchRatio = getPinchRatio(landmarks, s.handSize);
-      
-      // Determine Cursor Source based on Mode
-      let rawPoint: Point;
-      if (s.isMenuOpen) {
-        // MENU MODE: Use Index Tip (Landmark 8) for direct pointing behavior.
-        // This is crucial for alignment when not pinching.
-        rawPoint = landmarks[8];
-      } else {
-        // DRAWING MODE: Use Midpoint of Index & Thumb for pinch stability
-        rawPoint = getPinchMidpoint(landmarks);
+      // --- COLLABORATION (our cursor and in-progress stroke) ---
+      if (s.collab && Date.now() - s.lastLiveSend >= LIVE_SEND_INTERVAL_MS) sendLiveUpdate();
+    };
+
+    // One tracker sample (or recorded frame) through the gesture machines, `now` being its capture time
+    const stepHands = (trackedHands: TrackedHand[], now: number, width: number, height: number) => {
+      const s = state.current;
+
+      // --- POSE TEACHING ---
+      // (countdown runs on wall-clock time, like the trainer panel)
+      if (s.poseCapture) capturePoseFrame(trackedHands, Date.now());
+      if (s.calibration) calibrationFrame(trackedHands, Date.now());
+
+      // --- GESTURE STATE MACHINES (one per hand) ---
+      const viewport = { width, height };
+      const assignment = assignHands(trackedHands, s.dominantHand);
+      for (const hand of HANDEDNESS) {
+        const { landmarks, roles } = assignment[hand];
+        // Hands are busy with the canvas during a two-hand gesture, and with the pose being taught / calibration.
+        // While the pointer draws or grabs, they only operate the menu.
+        const suspended = s.twoHand.active || !!s.poseCapture || !!s.calibration;
+        const handRoles = suspended ? NO_ROLES : isBusy(s.pointer) ? { ...roles, draw: false } : roles;
+        const step = stepGesture(s.hands[hand], landmarks, now, viewport, s.gestureConfig, handRoles);
+        s.hands[hand] = step.state;
+        if (s.settings.showDebugHud) recordHandStep(s.debug, hand, step.state, landmarks, now, s.gestureConfig);
+        for (const action of step.actions) applyAction(action, hand, now, width, height);
       }
-      
-      const rawX = (1 - rawPoint.x); 
-      const rawY = rawPoint.y;
 
-      // Region of Interest Check
-      if (!isInSafeZone({x: rawX, y: rawY})) {
-        if (s.mode === 'DRAWING') endStroke();
-        s.mode = 'IDLE';
-        return;
+      // --- TWO-HAND GESTURES (Zoom / Pan) ---
+      const pinchSample = (hand: Handedness): PinchSample | null => {
+        const g = s.hands[hand];
+        if (!assignment[hand].landmarks || g.mode === 'IDLE' || g.mode === 'GRABBING' || g.isMenuOpen) return null;
+        return { point: g.cursorPos, pinchRatio: g.pinchRatio };
+      };
+      const two = stepTwoHand(
+        s.twoHand,
+        pinchSample('Left'),
+        pinchSample('Right'),
+        s.view,
+        s.currentPath.length <= TWO_HAND_MAX_STROKE_POINTS,
+        s.gestureConfig
+      );
+      // The first hand to pinch may already have started a stroke; drop it
+      if (two.started) {
+        cancelStroke();
+        // With a selection the spread scales / rotates / moves it instead of the view
+        if (s.selection.length > 0) {
+          commitSelectionDrag();
+          const { startWorld } = two.state;
+          s.selectionDrag = { source: 'spread', start: startWorld, transform: identityTransform(startWorld) };
+        }
       }
+      const drag = s.selectionDrag;
+      if (drag && drag.source === 'spread') {
+        if (two.spread) {
+          drag.transform = {
+            ...drag.transform,
+            dx: two.spread.translation.x / s.view.scale,
+            dy: two.spread.translation.y / s.view.scale,
+            scale: two.spread.scale,
+            rotation: two.spread.rotation
+          };
+        }
+        if (!two.state.active) commitSelectionDrag();
+      } else {
+        s.view = two.view;
+      }
+      s.twoHand = two.state;
+    };
 
-      // --- 2. SMOOTHING PHASE (Dynamic Speed-based) ---
-      let currX = rawX * width;
-      let currY = rawY * height;
+    // One mouse / touch / pen sample; it does not draw while a hand does
+    const stepPointerSample = (sample: PointerSample, width: number, height: number) => {
+      const s = state.current;
+      const roles = { draw: !HANDEDNESS.some(hand => isBusy(s.hands[hand])) && !s.twoHand.active, menu: true };
+      const step = stepPointer(s.pointer, sample, s.gestureConfig, roles);
+      s.pointer = step.state;
+      if (s.settings.showDebugHud) recordPointerStep(s.debug, step.state, sample.t);
+      for (const action of step.actions) applyAction(action, 'Pointer', sample.t, width, height);
+    };
 
-      if (!s.smoothedPos) {
-        s.smoothedPos = { x: currX, y: currY };
-      } else {
-        // Calculate speed (pixels per frame)
-        const dist = Math.sqrt(
-          Math.pow(currX - s.smoothedPos.x, 2) + 
-          Math.pow(currY - s.smoothedPos.y, 2)
-        );
-        
-        // Dynamic Alpha: 
-        // Slow movement (dist < 5) -> alpha low (0.1) -> Smooth
-        // Fast movement (dist > 50) -> alpha high (0.7) -> Responsive
-        const minAlpha = 0.1;
-        const maxAlpha = 0.8;
-        const speedFactor = Math.min(1, dist / 80); // 80px movement is "max speed"
-        const alpha = lerp(minAlpha, maxAlpha, speedFactor);
+    const isBusy = (g: GestureState) => g.mode === 'DRAWING' || g.mode === 'GRABBING';
 
-        s.smoothedPos.x = lerp(s.smoothedPos.x, currX, alpha);
-        s.smoothedPos.y = lerp(s.smoothedPos.y, currY, alpha);
-      }
-      
-      s.cursorPos = { ...s.smoothedPos };
-
-      // --- 3. STATE MACHINE PHASE ---
-
-      // GLOBAL GESTURES (Menu / Dissolve)
-      if (s.mode !== 'DRAWING') {
-        // Only check menu toggle if we haven't done it recently
-        if (now - s.lastGestureTime > 1000) {
-          if (detectOpenPalm(landmarks)) {
-            s.consecutiveOpenFrames++;
-            if (s.consecutiveOpenFrames > 5) {
-               toggleMenu(now);
-               s.consecutiveOpenFrames = 0;
-            }
+    // Mouse, touch and pen events are queued like tracker results (only the primary pointer counts)
+    const handlePointerEvent = (e: PointerEvent) => {
+      if (!e.isPrimary) return;
+      if (e.type === 'pointerdown') canvasRef.current?.setPointerCapture(e.pointerId);
+      state.current.pendingPointer.push(...toPointerSamples(e));
+    };
+
+    // --- HELPER FUNCTIONS ---
+
+    const applyAction = (action: GestureAction, source: InputSource, now: number, width: number, height: number) => {
+      const s = state.current;
+      switch (action.type) {
+        case 'strokeStart':
+          startStroke(toWorldStrokePoint(action.point, now));
+          break;
+        case 'pointAdded':
+          addPointToStroke(toWorldStrokePoint(action.point, now));
+          break;
+        case 'strokeEnd':
+          endStroke(now);
+          break;
+        case 'grabStart':
+          startGrab(action.point);
+          break;
+        case 'grabMove':
+          moveGrab(action.point);
+          break;
+        case 'grabEnd':
+          commitSelectionDrag();
+          s.pan = null;
+          break;
+        case 'menuToggled':
+          showMenu(action.open, action.point, now, width, height);
+          break;
+        case 'menuPointer':
+          if (s.settings.menuStyle === 'radial') {
+            handleRadialPointer(action.point, now, width, height);
+          } else if (action.point) {
+            // The pointer clicks the toolbar instead of dwelling
+            handleUIInteraction(action.point, now, source !== 'Pointer');
           } else {
-            s.consecutiveOpenFrames = 0;
+            hoverMenuItem(null);
           }
+          break;
+        case 'menuPinch':
+          if (s.settings.menuStyle === 'radial') {
+            if (s.radial && s.radial.highlighted !== null) pickRadialSector(s.radial.highlighted);
+          } else if (source === 'Pointer') {
+            // A click beside the toolbar (clicks on it never reach the canvas) closes it
+            showMenu(false, s.pointer.cursorPos, now, width, height);
+          }
+          break;
+        case 'clear':
+          triggerDissolve(width, height);
+          break;
+        case 'undo':
+          undoLast();
+          break;
+        case 'redo':
+          redoLast();
+          break;
+      }
+    };
+
+    const isStrokeEraser = () => {
+      const s = state.current;
+      return s.tool === ToolType.ERASER && s.eraserMode === EraserMode.STROKE;
+    };
+
+    // Screen-space radius of the eraser cursor
+    const eraserRadius = () => state.current.size * ERASER_WIDTH_FACTOR / 2;
+
+    // Tool size is in screen pixels; stored widths are in world units
+    const worldSize = () => state.current.size / state.current.view.scale;
+
+    // Screen -> world, with the pressure scaled by the user's sensitivity (eraser strokes stay uniform).
+    // `now` is the sample time, kept for the time-lapse; a replay's clock is offset to when it started.
+    const toWorldStrokePoint = (p: StrokePoint, now: number): StrokePoint => {
+      const s = state.current;
+      const world = { ...screenToWorld(p, s.view), t: Math.round(s.replay ? s.replayStartedAt + now : now) };
+      if (p.pressure === undefined || s.tool === ToolType.ERASER) return world;
+      return { ...world, pressure: applySensitivity(p.pressure, s.settings.pressureSensitivity) };
+    };
+
+    // Paths of the active layer, if it may be edited (drawing, erasing, selecting)
+    const editablePaths = (): DrawingPath[] => {
+      const s = state.current;
+      return isLayerEditable(activeLayer()) ? getLayerPaths(s.paths, s.activeLayerId) : [];
+    };
+
+    const activeLayer = (): Layer | undefined => {
+      const s = state.current;
+      return s.layers.find(l => l.id === s.activeLayerId);
+    };
+
+    const startStroke = (p: StrokePoint) => {
+      const s = state.current;
+      // Hidden / locked layers are protected (the cursor shows a lock)
+      if (!isLayerEditable(activeLayer())) return;
+      s.shapeSuggestion = null; // Drawing on accepts the last snapped shape
+      s.currentPath = [p];
+      if (isStrokeEraser()) eraseAlong(p, p);
+      else if (s.tool !== ToolType.SELECT && s.tool !== ToolType.TEXT) startLiveStroke(p);
+    };
+
+    // Micro-movement filtering already happened in the gesture engine
+    const addPointToStroke = (p: StrokePoint) => {
+      const s = state.current;
+      if (s.currentPath.length === 0) return;
+      const prev = s.currentPath[s.currentPath.length - 1];
+      s.currentPath.push(p);
+      if (isStrokeEraser()) eraseAlong(prev, p);
+      else if (s.liveStrokeId) s.livePoints.push(p);
+    };
+
+    // Stroke eraser: mark every ink path the cursor swept over since the last frame
+    const eraseAlong = (a: Point, b: Point) => {
+      const s = state.current;
+      const radius = eraserRadius() / s.view.scale;
+      for (const path of editablePaths()) {
+        if (path.isEraser || s.erasing.has(path)) continue;
+        if (polylineHitTest(path.points, a, b, radius + path.width / 2)) {
+          s.erasing.add(path);
         }
+      }
+    };
 
-        if (detectVictory(landmarks) && !s.isMenuOpen) {
-           triggerDissolve(width, height);
-           return;
+    // `now` is the input clock time the stroke ended at (see inputClock)
+    const endStroke = (now = inputClock()) => {
+      const s = state.current;
+      if (s.currentPath.length > 0 && s.tool === ToolType.SELECT) {
+        // Lasso: the stroke itself is never committed
+        s.selection = selectInLasso(editablePaths(), s.currentPath);
+        s.currentPath = [];
+        syncToolbar();
+      } else if (s.currentPath.length > 0 && isStrokeEraser()) {
+        // One history entry per sweep
+        if (s.erasing.size > 0) {
+          const removed = s.paths
+            .map((path, index) => ({ index, path }))
+            .filter(({ path }) => s.erasing.has(path));
+          runCommand({ type: 'erase', removed });
+          s.erasing.clear();
+        }
+        s.currentPath = [];
+        syncToolbar();
+      } else if (s.currentPath.length > 0 && s.tool === ToolType.TEXT) {
+        const stroke: DrawingPath = {
+          points: s.currentPath,
+          color: s.color,
+          width: worldSize(),
+          isEraser: false,
+          layerId: s.activeLayerId
+        };
+        s.currentPath = [];
+        // A tap on a text object (with nothing written yet) opens it for editing
+        const tapped = s.writing ? null : tappedText(stroke.points);
+        if (tapped) showTextEditor(tapped.id);
+        else s.writing = { strokes: [...(s.writing?.strokes ?? []), stroke], lastAt: now };
+      } else if (s.currentPath.length > 0) {
+        const raw: DrawingPath = {
+          points: s.currentPath,
+          color: s.color,
+          width: worldSize(),
+          isEraser: s.tool === ToolType.ERASER,
+          layerId: s.activeLayerId
+        };
+
+        // Smart shapes: commit the clean primitive, keep the original around in case it is rejected
+        const match = s.settings.smartShapes && !raw.isEraser ? recognizeShape(raw.points) : null;
+        if (match) {
+          const times = { from: raw.points[0].t, to: raw.points[raw.points.length - 1].t };
+          const shape: DrawingPath = { ...raw, points: spreadTimes(match.points, times.from, times.to), shape: match.kind };
+          claimLiveStroke(shape);
+          runCommand({ type: 'add', path: shape });
+          s.shapeSuggestion = { kind: match.kind, original: raw, shape, until: now + SHAPE_PREVIEW_MS };
+        } else {
+          const path = fitPath(raw);
+          claimLiveStroke(path);
+          runCommand({ type: 'add', path });
         }
+        s.currentPath = [];
+        syncToolbar();
       }
+    };
 
-      // MODE SPECIFIC LOGIC
-      if (s.isMenuOpen) {
-         // Menu Interaction
-         s.mode = 'MENU';
-         
-         // Relaxed Check: Just need index finger up.
-         // We don't check for other fingers being curled, as that was too strict.
-         const isIndexUp = isFingerExtended(landmarks, 8, 6);
-         
-         if (isIndexUp) {
-            handleUIInteraction();
-         } else {
-            s.hoveredId = null;
-            s.selectionProgress = 0;
-         }
+    // Drops points within the tolerance (given in screen px, so strokes drawn zoomed in keep their detail)
+    const fitPath = (path: DrawingPath): DrawingPath => {
+      const s = state.current;
+      const points = simplifyStroke(path.points, { ...DEFAULT_FIT_CONFIG, tolerance: s.settings.simplifyTolerance / s.view.scale });
+      s.fitStats = addFitStats(s.fitStats, path.points.length, points.length);
+      setFitStats(s.fitStats);
+      return s.settings.curveFitting ? { ...path, points, fitted: true } : { ...path, points };
+    };
+
+    // Discards the in-progress stroke without touching history
+    const cancelStroke = () => {
+      const s = state.current;
+      s.currentPath = [];
+      s.erasing.clear();
+      if (s.liveStrokeId) sendLive({ type: 'strokeCancel', id: s.liveStrokeId });
+      s.liveStrokeId = null;
+      s.livePoints = [];
+    };
+
+    // --- AIR-WRITING ---
+    // Text mode collects strokes (shown as ink meanwhile) and types what they read as, in one undo step
 
+    const finishWriting = (now: number) => {
+      const s = state.current;
+      const writing = s.writing;
+      s.writing = null;
+      if (!writing) return;
+      const first = writing.strokes[0];
+      const lastStroke = writing.strokes[writing.strokes.length - 1].points;
+      const result = recognizeText(writing.strokes.map(path => path.points), s.glyphTemplates);
+      if (!result || !s.layers.some(l => l.id === first.layerId)) {
+        s.writingNotice = { at: first.points[0], until: now + WRITING_NOTICE_MS };
+        return;
+      }
+      const text = createTextObject(result, first.color, first.layerId, lastStroke[lastStroke.length - 1].t);
+      runCommand({ type: 'texts', before: s.texts, after: [...s.texts, text] });
+      s.lastWriting = { textId: text.id, glyphs: result.glyphs, chars: result.text.replace(/\s/g, '') };
+      syncToolbar();
+    };
+
+    // The topmost text of the active layer under a tap (world points), if the stroke was one
+    const tappedText = (points: StrokePoint[]): TextObject | null => {
+      const s = state.current;
+      const ctx = canvasRef.current?.getContext('2d');
+      const start = points[0];
+      const isTap = points.every(p => Math.hypot(p.x - start.x, p.y - start.y) * s.view.scale <= TEXT_TAP_PX);
+      if (!ctx || !isTap || !isLayerEditable(activeLayer())) return null;
+      const margin = TEXT_TAP_PX / s.view.scale;
+      const hits = s.texts.filter(t => t.layerId === s.activeLayerId && isInBounds(start, getTextBounds(ctx, t), margin));
+      return hits[hits.length - 1] ?? null;
+    };
+
+    // --- SELECTION ---
+
+    // A fist closing over the selection picks it up; anywhere else it picks the topmost stroke under it.
+    // On empty canvas it drops the selection and drags the view instead (screen coordinates in).
+    const startGrab = (screen: Point) => {
+      const s = state.current;
+      commitSelectionDrag();
+      s.shapeSuggestion = null;
+      const p = screenToWorld(screen, s.view);
+      const margin = GRAB_RADIUS_PX / s.view.scale;
+      const bounds = getBounds(s.selection);
+      if (!bounds || !isInBounds(p, bounds, margin)) {
+        const hit = hitTestPath(editablePaths(), p, margin);
+        s.selection = hit ? [hit] : [];
+        syncToolbar();
+      }
+      if (s.selection.length > 0) {
+        s.selectionDrag = { source: 'grab', start: p, transform: identityTransform(p) };
       } else {
-         // Drawing Logic
-         if (s.mode === 'DRAWING') {
-            // Check for exit
-            if (pinchRatio > PINCH_END_THRESHOLD) {
-               s.consecutivePinchFrames--;
-               if (s.consecutivePinchFrames < 0) {
-                  endStroke();
-                  s.mode = 'HOVER';
-               }
-            } else {
-               // Reset debounce if we are still pinching hard
-               s.consecutivePinchFrames = PINCH_DEBOUNCE_FRAMES;
-               addPointToStroke(s.cursorPos);
-            }
-         } else {
-            // IDLE / HOVER -> Check for entry
-            if (pinchRatio < PINCH_START_THRESHOLD) {
-               s.consecutivePinchFrames++;
-               if (s.consecutivePinchFrames > PINCH_DEBOUNCE_FRAMES) {
-                  startStroke(s.cursorPos);
-                  s.mode = 'DRAWING';
-               }
-            } else {
-               s.consecutivePinchFrames = 0;
-               s.mode = 'HOVER';
-            }
-         }
+        s.pan = { start: screen, startView: s.view };
       }
     };
 
-    // --- HELPER FUNCTIONS ---
+    const moveGrab = (screen: Point) => {
+      const s = state.current;
+      if (s.pan) {
+        const { start, startView } = s.pan;
+        s.view = { ...startView, x: startView.x + screen.x - start.x, y: startView.y + screen.y - start.y };
+        return;
+      }
+      const drag = s.selectionDrag;
+      if (!drag || drag.source !== 'grab') return;
+      const p = screenToWorld(screen, s.view);
+      drag.transform = { ...drag.transform, dx: p.x - drag.start.x, dy: p.y - drag.start.y };
+    };
 
-    const toggleMenu = (time: number) => {
+    // Mouse wheel zooms around the pointer
+    const handleWheel = (e: WheelEvent) => {
       const s = state.current;
-      s.isMenuOpen = !s.isMenuOpen;
-      s.lastGestureTime = time;
-      s.mode = s.isMenuOpen ? 'MENU' : 'HOVER';
-      if (s.currentPath.length > 0) endStroke();
-      setUiVisible(s.isMenuOpen);
+      e.preventDefault();
+      const anchor = { x: e.clientX, y: e.clientY };
+      s.view = pinWorldPoint(screenToWorld(anchor, s.view), anchor, s.view.scale * Math.exp(-e.deltaY * WHEEL_ZOOM_RATE));
     };
 
-    const startStroke = (p: Point) => {
+    // Swaps the selected paths for their transformed copies
+    const commitSelectionDrag = () => {
       const s = state.current;
-      s.currentPath = [p];
+      const drag = s.selectionDrag;
+      s.selectionDrag = null;
+      if (!drag || isIdentityTransform(drag.transform)) return;
+      const after = s.selection.map(path => transformPath(path, drag.transform));
+      runCommand({ type: 'replace', before: s.selection, after });
+      s.selection = after;
+      syncToolbar();
     };
 
-    const addPointToStroke = (p: Point) => {
+    const deleteSelection = () => {
       const s = state.current;
-      if (s.currentPath.length === 0) return;
-      
-      const lastP = s.currentPath[s.currentPath.length - 1];
-      const distSq = (lastP.x - p.x) ** 2 + (lastP.y - p.y) ** 2;
-      
-      // Filter micro-movements
-      if (distSq > MIN_DRAW_DIST_PX * MIN_DRAW_DIST_PX) {
-         s.currentPath.push(p);
+      commitSelectionDrag();
+      if (s.selection.length === 0) return;
+      const selected = new Set(s.selection);
+      const removed = s.paths
+        .map((path, index) => ({ index, path }))
+        .filter(({ path }) => selected.has(path));
+      runCommand({ type: 'erase', removed });
+      s.selection = [];
+      syncToolbar();
+    };
+
+    // The copies become the selection, ready to be moved away
+    const duplicateSelection = () => {
+      const s = state.current;
+      commitSelectionDrag();
+      if (s.selection.length === 0) return;
+      const offset = DUPLICATE_OFFSET_PX / s.view.scale;
+      const shift = { ...identityTransform({ x: 0, y: 0 }), dx: offset, dy: offset };
+      const copies = s.selection.map(path => transformPath(path, shift));
+      runCommand({ type: 'duplicate', paths: copies });
+      s.selection = copies;
+      syncToolbar();
+    };
+
+    // Recolors with the active pen color
+    const recolorSelection = () => {
+      const s = state.current;
+      commitSelectionDrag();
+      if (s.selection.length === 0) return;
+      const after = s.selection.map(path => ({ ...path, color: s.color }));
+      runCommand({ type: 'replace', before: s.selection, after });
+      s.selection = after;
+      syncToolbar();
+    };
+
+    const clearSelection = () => {
+      const s = state.current;
+      commitSelectionDrag();
+      s.selection = [];
+      syncToolbar();
+    };
+
+    // --- LAYERS ---
+    // Layer edits go through history like strokes; the active layer is UI state
+
+    const editLayers = (after: Layer[], removed: { index: number; path: DrawingPath }[] = [], texts?: TextsChange) => {
+      const s = state.current;
+      commitSelectionDrag();
+      endStroke();
+      runCommand({ type: 'layers', before: s.layers, after, removed, texts });
+      syncToolbar();
+    };
+
+    const selectLayer = (id: string) => {
+      const s = state.current;
+      commitSelectionDrag();
+      endStroke();
+      s.activeLayerId = id;
+      syncToolbar();
+    };
+
+    // New layers go right above the active one
+    const addLayer = () => {
+      const s = state.current;
+      if (s.layers.length >= MAX_LAYERS) return;
+      const layer = createLayer(s.layers);
+      const index = s.layers.findIndex(l => l.id === s.activeLayerId) + 1;
+      editLayers([...s.layers.slice(0, index), layer, ...s.layers.slice(index)]);
+      selectLayer(layer.id);
+    };
+
+    // The last layer cannot be deleted; its paths and texts go with it (undo brings them back)
+    const deleteLayer = () => {
+      const s = state.current;
+      if (s.layers.length <= 1) return;
+      const index = s.layers.findIndex(l => l.id === s.activeLayerId);
+      const removed = s.paths
+        .map((path, i) => ({ index: i, path }))
+        .filter(({ path }) => path.layerId === s.activeLayerId);
+      const after = s.layers.filter(l => l.id !== s.activeLayerId);
+      const texts = s.texts.some(t => t.layerId === s.activeLayerId)
+        ? { before: s.texts, after: s.texts.filter(t => t.layerId !== s.activeLayerId) }
+        : undefined;
+      editLayers(after, removed, texts);
+      selectLayer(after[Math.max(0, index - 1)].id);
+    };
+
+    const toggleLayer = (id: string, key: 'visible' | 'locked') => {
+      const layer = state.current.layers.find(l => l.id === id);
+      if (layer) editLayers(updateLayer(state.current.layers, id, { [key]: !layer[key] }));
+    };
+
+    const cycleLayerOpacity = () => {
+      const layer = activeLayer();
+      if (layer) editLayers(updateLayer(state.current.layers, layer.id, { opacity: nextOpacity(layer.opacity) }));
+    };
+
+    const moveActiveLayer = (delta: number) => {
+      const s = state.current;
+      const after = moveLayer(s.layers, s.activeLayerId, delta);
+      if (after !== s.layers) editLayers(after);
+    };
+
+    // --- HISTORY ---
+
+    const runCommand = (cmd: HistoryCommand) => {
+      const s = state.current;
+      adoptDrawing(executeCommand(s.history, { paths: s.paths, layers: s.layers, texts: s.texts }, cmd));
+    };
+
+    // Peers get the difference, whether it came from an edit, undo or redo
+    const adoptDrawing = (drawing: Drawing) => {
+      const s = state.current;
+      if (s.collab) {
+        for (const op of diffDrawing(s.collab, { paths: s.paths, layers: s.layers, texts: s.texts }, drawing)) {
+          s.relay?.send({ type: 'op', op });
+        }
       }
+      s.paths = s.collab ? sortPaths(s.collab, drawing.paths) : drawing.paths;
+      s.layers = drawing.layers;
+      s.texts = drawing.texts;
     };
 
-    const endStroke = () => {
+    // An in-progress stroke (or selection drag) is committed first, so undo while drawing cancels it
+    const undoLast = () => {
       const s = state.current;
-      if (s.currentPath.length > 0) {
-        s.paths.push({ 
-          points: s.currentPath, 
-          color: s.color, 
-          width: s.size, 
-          isEraser: s.tool === ToolType.ERASER 
-        });
-        s.currentPath = [];
+      if (s.currentPath.length === 0 && rejectShape()) return;
+      // Undo while writing takes back the last stroke written
+      if (s.writing && s.currentPath.length === 0) {
+        const strokes = s.writing.strokes.slice(0, -1);
+        s.writing = strokes.length > 0 ? { ...s.writing, strokes } : null;
+        return;
       }
+      commitSelectionDrag();
+      endStroke();
+      adoptDrawing(undo(s.history, { paths: s.paths, layers: s.layers, texts: s.texts }));
+      s.shapeSuggestion = null;
+      syncToolbar();
+    };
+
+    // Swaps a just-snapped shape back for the stroke as drawn (as if it had never been snapped)
+    const rejectShape = (): boolean => {
+      const s = state.current;
+      const suggestion = s.shapeSuggestion;
+      s.shapeSuggestion = null;
+      const top = s.history.undoStack[s.history.undoStack.length - 1];
+      if (!suggestion || !top || top.type !== 'add' || top.path !== suggestion.shape) return false;
+      adoptDrawing(undo(s.history, { paths: s.paths, layers: s.layers, texts: s.texts }));
+      runCommand({ type: 'add', path: fitPath(suggestion.original) });
+      syncToolbar();
+      return true;
+    };
+
+    const redoLast = () => {
+      const s = state.current;
+      if (s.currentPath.length > 0 || s.selectionDrag) return;
+      adoptDrawing(redo(s.history, { paths: s.paths, layers: s.layers, texts: s.texts }));
+      syncToolbar();
     };
 
+    // Clears the active layer (other layers are left alone)
     const triggerDissolve = (w: number, h: number) => {
        const s = state.current;
-       if (s.paths.length === 0) return;
+       const cleared = new Set(editablePaths());
+       const clearedTexts = isLayerEditable(activeLayer()) ? s.texts.filter(t => t.layerId === s.activeLayerId) : [];
+       s.writing = null;
+       if (cleared.size === 0 && clearedTexts.length === 0) return;
        
-       s.paths.forEach(path => {
+       cleared.forEach(path => {
+         // Eraser paths have no ink of their own
+         if (path.isEraser) return;
          for(let i=0; i<path.points.length; i+=4) {
+            const p = worldToScreen(path.points[i], s.view);
             s.particles.push({
-               x: path.points[i].x,
-               y: path.points[i].y,
+               x: p.x,
+               y: p.y,
                vx: (Math.random() - 0.5) * 4,
                vy: Math.random() * 5 + 2,
-               color: path.isEraser ? 'white' : path.color,
+               color: path.color,
                size: Math.random() * 3 + 1,
                life: 1.0
             });
          }
        });
-       s.paths = [];
+       // Clear goes through history so a false-positive victory can be undone
+       const removed = s.paths
+         .map((path, index) => ({ index, path }))
+         .filter(({ path }) => cleared.has(path));
+       const texts = clearedTexts.length > 0
+         ? { before: s.texts, after: s.texts.filter(t => !clearedTexts.includes(t)) }
+         : undefined;
+       runCommand({ type: 'erase', removed, texts });
        s.currentPath = [];
+       syncToolbar();
     };
 
-    const handleUIInteraction = () => {
+    // --- MENU ---
+    // The menu is data (utils/menu.ts): the Toolbar renders it and the menu cursor is tested against the same items
+
+    const menuContext = (): MenuContext => {
+      const s = state.current;
+      const palettes = allPalettes();
+      return {
+        tool: s.tool,
+        eraserMode: s.eraserMode,
+        color: s.color,
+        size: s.size,
+        canUndo: canUndo(s.history),
+        canRedo: canRedo(s.history),
+        smartShapes: s.settings.smartShapes,
+        selectionCount: s.selection.length,
+        layers: s.layers,
+        activeLayerId: s.activeLayerId,
+        palette: activePalette(),
+        paletteIndex: Math.max(0, palettes.findIndex(p => p.id === s.paletteId)),
+        paletteCount: palettes.length,
+        pickerOpen: s.pickerOpen
+      };
+    };
+
+    const hoverMenuItem = (id: string | null) => {
+      const s = state.current;
+      if (s.hoveredId !== id) setMenuHoverId(id);
+      s.hoveredId = id;
+      s.selectionProgress = 0;
+    };
+
+    // `now` is the capture time of the pointer sample; dwell accumulates the time between samples
+    // Opens or closes the menu for every input at once (the hands and the pointer share it)
+    const showMenu = (open: boolean, point: Point, now: number, width: number, height: number) => {
+      const s = state.current;
+      // A hand holding the selection lets go when the menu takes over
+      commitSelectionDrag();
+      for (const hand of HANDEDNESS) s.hands[hand] = setMenuOpen(s.hands[hand], open, now);
+      s.pointer = setMenuOpen(s.pointer, open, now);
+      hoverMenuItem(null);
+      setRadial(open ? createRadialState(clampRadialCenter(point, { width, height })) : null);
+      setUiVisible(open);
+    };
+
+    // Without `dwell` the cursor only highlights (the pointer clicks instead)
+    const handleUIInteraction = (cursor: Point, now: number, dwell: boolean) => {
        const s = state.current;
-       const { x, y } = s.cursorPos;
-       
-       const ids = ['btn-pen', 'btn-eraser', ...[0,1,2,3,4].map(i => `btn-color-${i}`), ...[0,1,2,3].map(i => `btn-size-${i}`)];
-       let hit = null;
-       
+       const { x, y } = cursor;
+       const elapsed = Math.min(MAX_DWELL_STEP_MS, Math.max(0, now - s.lastMenuPointerAt));
+       s.lastMenuPointerAt = now;
+       let hit: string | null = null;
+
        // Simple collision detection against DOM rects
-       for (const id of ids) {
+       for (const { id } of getMenuItems(buildMenu(menuContext()))) {
          const el = document.getElementById(id);
          if (el) {
            const r = el.getBoundingClientRect();
@@ -361,106 +1554,813 @@ export default function App() {
          }
        }
 
-       if (hit) {
-         if (s.hoveredId !== hit) {
-           s.hoveredId = hit;
-           s.selectionProgress = 0;
-         } else {
-           s.selectionProgress += FRAME_INTERVAL;
-           if (s.selectionProgress >= DWELL_TIME_MS) { // Use constant
-             triggerClick(hit);
-             s.selectionProgress = 0;
-             s.hoveredId = null;
-           }
+       if (hit && s.hoveredId === hit) {
+         if (!dwell) return;
+         s.selectionProgress += elapsed;
+         if (s.selectionProgress >= s.settings.dwellTimeMs) {
+           triggerClick(hit, cursor);
+           hoverMenuItem(null);
          }
        } else {
-         s.hoveredId = null;
-         s.selectionProgress = 0;
+         hoverMenuItem(hit);
        }
     };
 
-    const triggerClick = (id: string) => {
-       const s = state.current;
-       if (id === 'btn-pen') s.tool = ToolType.PEN;
-       else if (id === 'btn-eraser') s.tool = ToolType.ERASER;
-       else if (id.startsWith('btn-color-')) {
-          const colors = ['#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#FFFF00'];
-          s.color = colors[parseInt(id.split('-')[2])];
-       }
-       else if (id.startsWith('btn-size-')) {
-          const sizes = [2, 5, 10, 15];
-          s.size = sizes[parseInt(id.split('-')[2])];
-       }
-       
+    const triggerClick = (id: string, cursor: Point) => {
+       const item = findMenuItem(buildMenu(menuContext()), id);
+       if (item) runMenuAction(item.action, cursor);
+
        const el = document.getElementById(id);
        if(el) {
           el.style.transform = 'scale(0.9)';
           setTimeout(()=>el.style.transform='', 150);
        }
 
-       setToolbarProps({
-         activeTool: s.tool,
-         activeColor: s.color,
-         activeSize: s.size
-       });
+       syncToolbar();
+    };
+
+    const runMenuAction = (action: MenuAction, cursor: Point) => {
+      const s = state.current;
+      switch (action.type) {
+        case 'tool':
+          s.tool = action.tool;
+          break;
+        case 'eraserMode':
+          s.eraserMode = action.mode;
+          break;
+        case 'selection':
+          if (action.action === 'delete') deleteSelection();
+          else if (action.action === 'duplicate') duplicateSelection();
+          else recolorSelection();
+          break;
+        case 'layer':
+          if (action.action === 'add') addLayer();
+          else if (action.action === 'up') moveActiveLayer(1);
+          else if (action.action === 'down') moveActiveLayer(-1);
+          else if (action.action === 'opacity') cycleLayerOpacity();
+          else deleteLayer();
+          break;
+        case 'layerSelect':
+          selectLayer(action.layerId);
+          break;
+        case 'layerToggle':
+          toggleLayer(action.layerId, action.key);
+          break;
+        case 'undo':
+          undoLast();
+          break;
+        case 'redo':
+          redoLast();
+          break;
+        case 'export':
+          exportDrawing(action.kind);
+          break;
+        case 'timelapse':
+          openTimelapse();
+          break;
+        case 'smartShapes':
+          updateSettings({ smartShapes: !s.settings.smartShapes });
+          break;
+        case 'settings':
+          setSettingsOpen(true);
+          break;
+        case 'color':
+          s.color = action.color;
+          break;
+        case 'picker':
+          s.pickerOpen = !s.pickerOpen;
+          break;
+        case 'colorWheel':
+        case 'colorValue':
+          s.color = pickerColorAt(action.type === 'colorWheel' ? COLOR_WHEEL_ID : COLOR_VALUE_ID, cursor) ?? s.color;
+          break;
+        case 'palette':
+          editPalette(action.edit);
+          break;
+        case 'size':
+          s.size = action.size;
+          break;
+      }
+    };
+
+    // --- RADIAL MENU ---
+
+    // React only hears about what it draws: the open ring and the highlighted sector
+    const setRadial = (next: RadialState | null) => {
+      const s = state.current;
+      const prev = s.radial;
+      s.radial = next;
+      if (!prev || !next || prev.highlighted !== next.highlighted || prev.path !== next.path || prev.center !== next.center) {
+        setRadialView(next);
+      }
+    };
+
+    const radialRing = () => getRadialRing(buildRadialMenu(buildMenu(menuContext())), state.current.radial?.path ?? []);
+
+    const handleRadialPointer = (point: Point | null, now: number, width: number, height: number) => {
+      const s = state.current;
+      // Switched to the radial style while the menu was open
+      if (!s.radial) {
+        if (!point) return;
+        setRadial(createRadialState(clampRadialCenter(point, { width, height })));
+      }
+      const step = stepRadial(s.radial!, radialRing().length, point, now);
+      setRadial(step.state);
+      if (step.picked !== null) pickRadialSector(step.picked);
+    };
+
+    const pickRadialSector = (index: number) => {
+      const s = state.current;
+      const radial = s.radial;
+      const item = radialRing()[index];
+      if (!radial || !item) return;
+      if (item.id === RADIAL_BACK_ID) {
+        setRadial(openRadialPath(radial, radial.path.slice(0, -1)));
+      } else if (item.children) {
+        setRadial(openRadialPath(radial, [...radial.path, item.id]));
+      } else if (item.action && !item.dimmed) {
+        runMenuAction(item.action, radial.center);
+        syncToolbar();
+      }
+    };
+
+    // Color under the cursor on the wheel (hue / saturation) or the brightness strip, null when off it
+    const pickerColorAt = (id: string, cursor: Point): string | null => {
+      const el = document.getElementById(id);
+      if (!el) return null;
+      const r = el.getBoundingClientRect();
+      const hsv = hexToHsv(state.current.color);
+      if (id === COLOR_WHEEL_ID) {
+        const radius = r.width / 2;
+        const offset = { x: cursor.x - r.left - radius, y: cursor.y - r.top - radius };
+        return Math.hypot(offset.x, offset.y) <= radius ? hsvToHex(wheelHsv(offset, radius, hsv.v)) : null;
+      }
+      return hsvToHex({ ...hsv, v: Math.min(1, Math.max(0, (cursor.x - r.left) / r.width)) });
+    };
+
+    // --- PALETTES ---
+
+    const allPalettes = (): Palette[] => [BUILTIN_PALETTE, ...state.current.palettes];
+
+    const activePalette = (): Palette => {
+      return allPalettes().find(p => p.id === state.current.paletteId) ?? BUILTIN_PALETTE;
+    };
+
+    // The built-in palette is read-only: adding a color to it starts a new palette instead
+    const editPalette = (edit: PaletteEdit) => {
+      const s = state.current;
+      const palettes = allPalettes();
+      const index = Math.max(0, palettes.findIndex(p => p.id === s.paletteId));
+      const builtin = index === 0;
+      const addPalette = (colors: string[]) => {
+        if (s.palettes.length >= MAX_PALETTES) return;
+        const palette = createPalette(s.palettes, colors);
+        s.palettes = [...s.palettes, palette];
+        s.paletteId = palette.id;
+      };
+
+      if (edit === 'prev' || edit === 'next') {
+        s.paletteId = palettes[(index + (edit === 'next' ? 1 : -1) + palettes.length) % palettes.length].id;
+      } else if (edit === 'addColor') {
+        if (builtin) addPalette([s.color]);
+        else s.palettes = addPaletteColor(s.palettes, s.paletteId, s.color);
+      } else if (edit === 'removeColor' && !builtin) {
+        s.palettes = removePaletteColor(s.palettes, s.paletteId, s.color);
+      } else if (edit === 'new') {
+        addPalette([]);
+      } else if (edit === 'delete' && !builtin) {
+        s.palettes = s.palettes.filter(p => p.id !== s.paletteId);
+        s.paletteId = palettes[index - 1].id;
+      }
+      savePalettes(s.palettes);
+      saveActivePaletteId(s.paletteId);
+    };
+
+    const syncToolbar = () => {
+       const s = state.current;
+       // History changes (undo, import, layer edits, ...) may have removed the active layer or selected paths
+       if (!s.layers.some(l => l.id === s.activeLayerId)) s.activeLayerId = s.layers[s.layers.length - 1].id;
+       const editable = new Set(editablePaths());
+       s.selection = s.selection.filter(path => editable.has(path));
+       setMenuContext(menuContext());
+    };
+
+    // --- COLLABORATION ---
+    // ?relay=ws://host:port and ?room=name pick the board (and join it on startup), ?name= the label peers see
+
+    const relayUrl = (params: URLSearchParams) => {
+      const base = params.get('relay') || `ws://${window.location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+      return `${base.replace(/\/+$/, '')}/${encodeURIComponent(params.get('room') || 'default')}`;
+    };
+
+    const startCollab = () => {
+      const s = state.current;
+      const params = new URLSearchParams(window.location.search);
+      const session = createCollabSession(createPeer(params.get('name') || undefined));
+      s.collab = session;
+      s.relay = connectRelay(relayUrl(params), handleRelayMessage, status => {
+        if (status === 'live') s.relay?.send({ type: 'hello', peer: session.self });
+        // A dropped connection leaves the drawing local (L reconnects)
+        if (status === 'offline' && s.collab === session) {
+          s.collab = null;
+          s.relay = null;
+        }
+        setCollabIndicator({ status, peers: session.peers.size });
+      });
+    };
+
+    const stopCollab = () => {
+      const s = state.current;
+      const relay = s.relay;
+      s.collab = null;
+      s.relay = null;
+      relay?.close();
+      setCollabIndicator(null);
+    };
+
+    const sendLive = (live: LiveMessage) => {
+      state.current.relay?.send({ type: 'live', live });
+    };
+
+    const showPeers = () => {
+      const session = state.current.collab;
+      if (session) setCollabIndicator(prev => prev && { ...prev, peers: session.peers.size });
+    };
+
+    // Peers see strokes as they are drawn; the committed path later replaces the preview (same id)
+    const startLiveStroke = (p: StrokePoint) => {
+      const s = state.current;
+      if (!s.collab) return;
+      s.liveStrokeId = nextPathId(s.collab);
+      s.livePoints = [];
+      sendLive({
+        type: 'strokeStart',
+        id: s.liveStrokeId,
+        color: s.color,
+        width: worldSize(),
+        isEraser: s.tool === ToolType.ERASER,
+        layerId: s.activeLayerId,
+        points: [p]
+      });
+    };
+
+    const claimLiveStroke = (path: DrawingPath) => {
+      const s = state.current;
+      if (s.collab && s.liveStrokeId) setPathId(s.collab, path, s.liveStrokeId);
+      s.liveStrokeId = null;
+      s.livePoints = [];
+    };
+
+    // Batched to LIVE_SEND_INTERVAL_MS: new stroke points, and the drawing hand's (or pointer's) cursor (world coordinates)
+    const sendLiveUpdate = () => {
+      const s = state.current;
+      s.lastLiveSend = Date.now();
+      if (s.liveStrokeId && s.livePoints.length > 0) {
+        sendLive({ type: 'strokeAppend', id: s.liveStrokeId, points: s.livePoints });
+        s.livePoints = [];
+      }
+      const hand = [s.hands[s.dominantHand], s.hands[otherHand(s.dominantHand)], s.pointer].find(g => g.mode !== 'IDLE' && g.smoothedPos);
+      const cursor = hand?.smoothedPos ? screenToWorld(hand.smoothedPos, s.view) : null;
+      if (cursor || s.liveCursor) sendLive({ type: 'cursor', point: cursor });
+      s.liveCursor = cursor;
+    };
+
+    const handleRelayMessage = (msg: ServerMessage) => {
+      const s = state.current;
+      const session = s.collab;
+      if (!session) return;
+      switch (msg.type) {
+        case 'welcome':
+          joinBoard(msg);
+          break;
+        case 'op': {
+          // Remote edits are not part of our undo history
+          const next = receiveOp(session, { paths: s.paths, layers: s.layers, texts: s.texts }, msg);
+          if (next.paths === s.paths && next.layers === s.layers && next.texts === s.texts) break;
+          s.paths = next.paths;
+          s.layers = next.layers;
+          s.texts = next.texts;
+          syncToolbar();
+          break;
+        }
+        case 'live':
+          receiveLive(session, msg.from, msg.live);
+          break;
+        case 'join':
+          addPeer(session, msg.peer);
+          showPeers();
+          break;
+        case 'leave':
+          session.peers.delete(msg.id);
+          showPeers();
+          break;
+      }
+    };
+
+    // Joining replaces the local canvas (and its history) with the board; an empty board gets our canvas instead
+    const joinBoard = (welcome: Extract<ServerMessage, { type: 'welcome' }>) => {
+      const s = state.current;
+      const session = s.collab!;
+      const board = adoptBoard(session, welcome, { paths: s.paths, layers: s.layers, texts: s.texts });
+      if (welcome.layers === null && !welcome.texts && welcome.paths.length === 0) {
+        for (const op of drawingToOps(session, { paths: s.paths, layers: s.layers, texts: s.texts })) s.relay?.send({ type: 'op', op });
+      } else {
+        cancelStroke();
+        s.paths = board.paths;
+        s.layers = board.layers;
+        s.texts = board.texts;
+        s.history = createHistory();
+        s.selection = [];
+        s.selectionDrag = null;
+        s.shapeSuggestion = null;
+      }
+      syncToolbar();
+      showPeers();
+    };
+
+    // --- EXPORT & IMPORT ---
+
+    const getViewport = (): Viewport => {
+      const canvas = canvasRef.current;
+      return canvas
+        ? { width: canvas.width, height: canvas.height }
+        : { width: window.innerWidth, height: window.innerHeight };
+    };
+
+    const exportDrawing = async (kind: ExportKind) => {
+      const s = state.current;
+      const viewport = getViewport();
+      const name = `drawing-${fileTimestamp()}`;
+      try {
+        if (kind === 'svg') {
+          downloadText(exportSvg(s.paths, s.layers, s.texts, viewport, s.view), `${name}.svg`, 'image/svg+xml');
+        } else if (kind === 'json') {
+          downloadText(serializeDocument(createDocument(s.paths, s.layers, s.texts, viewport)), `${name}.json`);
+        } else {
+          const background = kind === 'png-camera' && s.cameraReady ? videoRef.current : null;
+          downloadBlob(await exportPng(s.paths, s.layers, s.texts, viewport, s.view, background), `${name}.png`);
+        }
+      } catch (err) {
+        console.error("Export Error:", err);
+      }
+    };
+
+    // Importing replaces the canvas; it is a single undoable step
+    const importDrawing = async () => {
+      const file = await pickFile('application/json,.json');
+      if (!file) return;
+      try {
+        const doc = parseDocument(await file.text());
+        const s = state.current;
+        endStroke();
+        runCommand({ type: 'import', previous: { paths: s.paths, layers: s.layers, texts: s.texts }, next: { paths: doc.paths, layers: doc.layers, texts: doc.texts } });
+        syncToolbar();
+      } catch (err) {
+        console.error("Import Error:", err);
+      }
+    };
+
+    // --- RECORDING & REPLAY ---
+
+    const startRecording = () => {
+      const s = state.current;
+      s.recording = createRecording();
+      s.recordingStart = Date.now();
+      setInputStatus('RECORDING');
+    };
+
+    const stopRecording = () => {
+      const s = state.current;
+      if (!s.recording) return;
+      downloadText(serializeRecording(s.recording), `gesture-recording-${fileTimestamp()}.json`);
+      s.recording = null;
+      setInputStatus('LIVE');
+    };
+
+    const startReplay = (recording: LandmarkRecording) => {
+      const s = state.current;
+      if (s.recording) stopRecording();
+      stopCollab(); // The replay rebuilds the canvas locally
+
+      // Start from a clean slate so the replay reproduces the original session
+      // (fresh gesture state also means no cooldowns carried over from wall-clock time)
+      s.paths = [];
+      s.layers = [createDefaultLayer()];
+      s.texts = [];
+      s.activeLayerId = DEFAULT_LAYER_ID;
+      s.currentPath = [];
+      s.writing = null;
+      s.lastWriting = null;
+      s.particles = [];
+      s.erasing.clear();
+      s.shapeSuggestion = null;
+      s.writingNotice = null;
+      s.selection = [];
+      s.selectionDrag = null;
+      s.history = createHistory();
+      s.hands = { Left: createGestureState(), Right: createGestureState() };
+      s.pointer = createGestureState();
+      s.twoHand = createTwoHandState();
+      s.view = IDENTITY_VIEW;
+      s.pan = null;
+      s.selectionProgress = 0;
+      s.hoveredId = null;
+      setRadial(null);
+      setUiVisible(false);
+      syncToolbar();
+
+      s.replay = recording;
+      s.replayClock = 0;
+      s.replayStartedAt = Date.now();
+      setInputStatus('REPLAYING');
+    };
+
+    const stopReplay = () => {
+      const s = state.current;
+      s.replay = null;
+      for (const hand of HANDEDNESS) {
+        // Replay-clock timestamps are meaningless in wall-clock time
+        s.hands[hand] = { ...s.hands[hand], lastGestureTime: -Infinity, gestureFired: {} };
+      }
+      setInputStatus('LIVE');
+    };
+
+    // --- TIME-LAPSE ---
+
+    // The committed paths as they are now, replayed by the time they were drawn
+    const openTimelapse = () => {
+      const s = state.current;
+      if (s.replay) return;
+      cancelStroke();
+      commitSelectionDrag();
+      s.timelapse = createTimelapsePlayback(s.paths, s.texts, false);
+      s.timelapseTickAt = performance.now();
+      showTimelapse();
+    };
+
+    // Advances by wall-clock time; an export stops recording a moment after the end
+    const stepTimelapse = () => {
+      const s = state.current;
+      if (!s.timelapse) return;
+      const now = performance.now();
+      const wasPlaying = s.timelapse.playing;
+      s.timelapse = advanceTimelapse(s.timelapse, now - s.timelapseTickAt);
+      s.timelapseTickAt = now;
+
+      const exporting = s.timelapseExport;
+      if (exporting && wasPlaying && !s.timelapse.playing) exporting.endsAt = now + TIMELAPSE_END_HOLD_MS;
+      if (exporting && exporting.endsAt !== null && now >= exporting.endsAt) {
+        s.timelapseExport = null;
+        exporting.recorder.stop().then(blob => downloadBlob(blob, `timelapse-${fileTimestamp()}.webm`));
+      }
+      if (wasPlaying !== s.timelapse.playing || !exporting !== !s.timelapseExport
+        || (s.timelapse.playing && now - s.timelapseShownAt >= TIMELAPSE_STATUS_INTERVAL_MS)) {
+        showTimelapse();
+      }
+    };
+
+    const loadReplay = async (source: File | string) => {
+      try {
+        const json = typeof source === 'string'
+          ? await (await fetch(source)).text()
+          : await source.text();
+        startReplay(parseRecording(json));
+      } catch (err) {
+        console.error("Replay Error:", err);
+      }
+    };
+
+    // Replays a recording through every cursor filter and logs jitter vs. lag
+    const runFilterBenchmark = async () => {
+      const file = await pickFile('application/json,.json');
+      if (!file) return;
+      const { settings } = state.current;
+      const status: FilterBenchmarkStatus = { file: file.name, results: null, error: null, inUse: { cursor: settings.drawingFilter, landmarks: settings.landmarkFilter } };
+      try {
+        setFilterBenchmark({ ...status, results: benchmarkFilters(parseRecording(await file.text()), getViewport()) });
+      } catch (err) {
+        setFilterBenchmark({ ...status, error: err instanceof Error ? err.message : String(err) });
+      }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const s = state.current;
+      const key = e.key.toLowerCase();
+
+      // Typing into a panel field is not a shortcut
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA')) return;
+
+      if (e.ctrlKey || e.metaKey) {
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          undoLast();
+        } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+          e.preventDefault();
+          redoLast();
+        } else if (key === 's') {
+          e.preventDefault();
+          exportDrawing('json');
+        } else if (key === 'o') {
+          e.preventDefault();
+          importDrawing();
+        } else if (key === 'e') {
+          e.preventDefault();
+          exportDrawing(e.altKey ? 'png-camera' : e.shiftKey ? 'png' : 'svg');
+        }
+        return;
+      }
+      if (e.altKey) return;
+
+      if (key === 'r' && !s.replay) {
+        if (s.recording) stopRecording();
+        else startRecording();
+      } else if (key === 'p') {
+        pickFile('application/json,.json').then(file => {
+          if (file) loadReplay(file);
+        });
+      } else if (key === 't') {
+        if (s.timelapse) closeTimelapse();
+        else openTimelapse();
+      } else if (key === ' ' && s.timelapse) {
+        e.preventDefault();
+        toggleTimelapsePlaying();
+      } else if (key === 'escape' && s.timelapse) {
+        closeTimelapse();
+      } else if (key === 'escape' && s.shapeSuggestion) {
+        rejectShape();
+      } else if (key === 'escape' && s.replay) {
+        stopReplay();
+      } else if (key === 'escape' && s.selection.length > 0) {
+        clearSelection();
+      } else if ((key === 'delete' || key === 'backspace') && s.selection.length > 0) {
+        deleteSelection();
+      } else if (key === 'h') {
+        s.dominantHand = otherHand(s.dominantHand);
+        setDominantHand(s.dominantHand);
+      } else if (key === '0') {
+        s.view = IDENTITY_VIEW;
+      } else if (key === 'g') {
+        setTrainerOpen(open => !open);
+      } else if (key === 'b') {
+        runFilterBenchmark();
+      } else if (key === 'c') {
+        setCalibrationOpen(open => !open);
+      } else if (key === 's') {
+        setSettingsOpen(open => !open);
+      } else if (key === 'm') {
+        updateSettings({ showMinimap: !s.settings.showMinimap });
+      } else if (key === 'f') {
+        updateSettings({ showFrameStats: !s.settings.showFrameStats });
+      } else if (key === 'd') {
+        updateSettings({ showDebugHud: !s.settings.showDebugHud });
+      } else if (key === 'l') {
+        if (s.relay) stopCollab();
+        else startCollab();
+      }
     };
 
     // 4. Rendering
     const draw = (width: number, height: number, ctx: CanvasRenderingContext2D) => {
       const s = state.current;
+      // A time-lapse frame is just the ink (over the camera feed if asked for), so it can be recorded as is
+      const timelapse = s.timelapse;
 
       // Clear & Video
       ctx.save();
       ctx.translate(width, 0);
       ctx.scale(-1, 1);
-      if (videoRef.current && s.cameraReady) {
+      if (videoRef.current && s.cameraReady && (!timelapse || timelapse.showCamera)) {
         ctx.drawImage(videoRef.current, 0, 0, width, height);
+      } else {
+        // No camera (or hidden in the time-lapse): plain black
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, width, height);
       }
       ctx.restore();
 
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
+      // Ink layers (strokes + pixel eraser), each composited over the camera feed with its opacity.
+      // Committed ink comes from the cache; what is live is drawn over a copy of it on the scratch canvas.
+      if (inkCanvas.width !== width || inkCanvas.height !== height) {
+        inkCanvas.width = width;
+        inkCanvas.height = height;
+      }
+      const inkCtx = inkCanvas.getContext('2d');
+      const timelapseFrame = timelapse ? getTimelapseFrame(timelapse.timelapse, timelapse.time) : null;
+      const allPaths = timelapseFrame ? timelapseFrame.paths : s.paths;
+      const allTexts = timelapse ? getTimelapseTexts(timelapse.timelapse, timelapse.time) : s.texts;
+      const drag = timelapse ? null : s.selectionDrag;
+      // Paths touched by an in-progress stroke-eraser sweep are hidden until it commits
+      const hidden = timelapse ? new Set<DrawingPath>() : drag ? new Set([...s.erasing, ...s.selection]) : s.erasing;
+      const drawsCurrentPath = !timelapse && s.currentPath.length > 0 && !isStrokeEraser() && s.tool !== ToolType.SELECT;
+      const peerStrokes = (layer: Layer) => {
+        const strokes: DrawingPath[] = [];
+        if (timelapse) return strokes;
+        s.collab?.peers.forEach(peer => peer.strokes.forEach(path => {
+          if (path.layerId === layer.id) strokes.push(path);
+        }));
+        return strokes;
+      };
+      // Air-writing waiting to be read is ink on the layer it was started on
+      const writingStrokes = (layer: Layer) =>
+        timelapse || !s.writing ? [] : s.writing.strokes.filter(path => path.layerId === layer.id);
+      // Text objects go over their layer's ink (pixel erasers do not cut them), with the layer's opacity
+      const compositeTexts = (layer: Layer) => {
+        const texts = allTexts.filter(t => t.layerId === layer.id);
+        if (texts.length === 0) return;
+        ctx.save();
+        ctx.globalAlpha = layer.opacity;
+        applyViewTransform(ctx, s.view);
+        drawTexts(ctx, texts);
+        ctx.restore();
+      };
 
-      // Draw Paths
-      const drawPath = (points: Point[], color: string, width: number) => {
-        if (points.length < 2) return;
-        ctx.beginPath();
-        ctx.strokeStyle = color;
-        ctx.lineWidth = width;
-        
-        ctx.moveTo(points[0].x, points[0].y);
-        if (points.length === 2) {
-          ctx.lineTo(points[1].x, points[1].y);
+      beginInkFrame(s.inkCache, s.layers.map(l => l.id));
+      for (const layer of s.layers) {
+        if (!layer.visible || !inkCtx) continue;
+        const paths = getLayerPaths(allPaths, layer.id);
+        const peers = peerStrokes(layer);
+        const written = writingStrokes(layer);
+        const replaying = timelapseFrame ? getLayerPaths(timelapseFrame.drawing, layer.id) : [];
+        const active = layer.id === s.activeLayerId;
+        const live = peers.length > 0 || written.length > 0 || replaying.length > 0 || (active && (!!drag || drawsCurrentPath));
+
+        inkCtx.setTransform(1, 0, 0, 1, 0, 0);
+        if (s.settings.inkCache) {
+          const ink = getLayerInk(s.inkCache, layer.id, paths.filter(p => !hidden.has(p)), s.view, width, height);
+          if (!live) {
+            compositeLayer(ctx, ink, layer.opacity);
+            compositeTexts(layer);
+            continue;
+          }
+          inkCtx.clearRect(0, 0, width, height);
+          inkCtx.drawImage(ink, 0, 0);
+          applyViewTransform(inkCtx, s.view);
         } else {
-          for (let i = 1; i < points.length - 1; i++) {
-            const p1 = points[i];
-            const p2 = points[i + 1];
-            ctx.quadraticCurveTo(p1.x, p1.y, (p1.x + p2.x) / 2, (p1.y + p2.y) / 2);
+          inkCtx.clearRect(0, 0, width, height);
+          applyViewTransform(inkCtx, s.view);
+          drawInk(inkCtx, paths, hidden);
+          s.inkCache.stats.pathsDrawn += paths.length;
+        }
+
+        for (const path of peers) drawInkPath(inkCtx, path);
+        for (const path of written) drawInkPath(inkCtx, path);
+        for (const path of replaying) drawInkPath(inkCtx, path);
+        if (active) {
+          // A dragged selection follows the hand(s) until it is committed
+          if (drag) {
+            inkCtx.save();
+            applySelectionTransform(inkCtx, drag.transform);
+            for (const path of s.selection) drawInkPath(inkCtx, path);
+            inkCtx.restore();
+          }
+
+          // Current Path
+          if (drawsCurrentPath) {
+            drawInkPath(inkCtx, {
+              points: s.currentPath,
+              color: s.color,
+              width: worldSize(),
+              isEraser: s.tool === ToolType.ERASER,
+              layerId: layer.id
+            });
           }
-          const last = points[points.length - 1];
-          ctx.lineTo(last.x, last.y);
         }
+        compositeLayer(ctx, inkCanvas, layer.opacity);
+        compositeTexts(layer);
+      }
+      if (timelapse) return;
+
+      // Lasso
+      if (s.tool === ToolType.SELECT && s.currentPath.length > 1) {
+        ctx.beginPath();
+        s.currentPath.forEach((p, i) => {
+          const q = worldToScreen(p, s.view);
+          if (i === 0) ctx.moveTo(q.x, q.y);
+          else ctx.lineTo(q.x, q.y);
+        });
+        ctx.closePath();
+        ctx.fillStyle = 'rgba(0, 255, 255, 0.08)';
+        ctx.fill();
+        ctx.strokeStyle = '#00FFFF';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 6]);
         ctx.stroke();
-      };
+        ctx.setLineDash([]);
+      }
 
-      // Saved Paths
-      for (const path of s.paths) {
-        if (path.isEraser) {
-           ctx.globalCompositeOperation = 'source-over';
-           ctx.strokeStyle = 'rgba(255,255,255,0.4)';
-           ctx.lineWidth = path.width * 2;
-           drawPath(path.points, 'rgba(255,255,255,0.4)', path.width * 2);
-        } else {
-           ctx.globalCompositeOperation = 'source-over';
-           drawPath(path.points, path.color, path.width);
+      // Selection box (follows a live drag), with corner / edge handles and a rotation handle
+      const bounds = getBounds(s.selection);
+      if (bounds) {
+        const transform = drag?.transform;
+        const corners = getBoundsCorners(bounds).map(p => worldToScreen(transform ? transformPoint(p, transform) : p, s.view));
+        const edges = corners.map((p, i) => {
+          const q = corners[(i + 1) % 4];
+          return { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+        });
+        const center = { x: (corners[0].x + corners[2].x) / 2, y: (corners[0].y + corners[2].y) / 2 };
+        const top = edges[0];
+        const reach = Math.hypot(top.x - center.x, top.y - center.y) || 1;
+        const rotateHandle = { x: top.x + (top.x - center.x) / reach * 24, y: top.y + (top.y - center.y) / reach * 24 };
+
+        ctx.strokeStyle = '#00FFFF';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([5, 4]);
+        ctx.beginPath();
+        corners.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.beginPath();
+        ctx.moveTo(top.x, top.y);
+        ctx.lineTo(rotateHandle.x, rotateHandle.y);
+        ctx.stroke();
+
+        ctx.fillStyle = '#FFFFFF';
+        for (const h of [...corners, ...edges]) {
+          ctx.fillRect(h.x - 4, h.y - 4, 8, 8);
+          ctx.strokeRect(h.x - 4, h.y - 4, 8, 8);
         }
+        ctx.beginPath();
+        ctx.arc(rotateHandle.x, rotateHandle.y, 5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      }
+
+      // Shape preview: the stroke as drawn, faded, under a hint on how to keep it
+      const suggestion = s.shapeSuggestion;
+      if (suggestion) {
+        ctx.save();
+        ctx.globalAlpha = 0.35;
+        applyViewTransform(ctx, s.view);
+        drawInkPath(ctx, suggestion.original);
+        ctx.restore();
+
+        const top = suggestion.shape.points.reduce((best, p) => p.y < best.y ? p : best);
+        const anchor = worldToScreen(top, s.view);
+        const label = `${SHAPE_LABELS[suggestion.kind]} · Undo / Esc keeps your stroke`;
+        ctx.font = 'bold 13px sans-serif';
+        ctx.textAlign = 'center';
+        const textWidth = ctx.measureText(label).width;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(anchor.x - textWidth / 2 - 8, anchor.y - 38, textWidth + 16, 22);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillText(label, anchor.x, anchor.y - 22);
+      }
+
+      // Air-writing that could not be read
+      if (s.writingNotice) {
+        const anchor = worldToScreen(s.writingNotice.at, s.view);
+        const label = 'Not recognized · try writing larger';
+        ctx.font = 'bold 13px sans-serif';
+        ctx.textAlign = 'center';
+        const textWidth = ctx.measureText(label).width;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(anchor.x - textWidth / 2 - 8, anchor.y - 38, textWidth + 16, 22);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillText(label, anchor.x, anchor.y - 22);
       }
 
-      // Current Path
-      if (s.currentPath.length > 0) {
-        const color = s.tool === ToolType.ERASER ? 'rgba(255,255,255,0.4)' : s.color;
-        const width = s.tool === ToolType.ERASER ? s.size * 2 : s.size;
-        drawPath(s.currentPath, color, width);
+      // Minimap (bottom right): where the view is within the whole drawing
+      if (s.settings.showMinimap) {
+        const box = { x: width - MINIMAP_SIZE.width - 16, y: height - MINIMAP_SIZE.height - 16, ...MINIMAP_SIZE };
+        drawMinimap(ctx, s.paths, s.layers, getVisibleRect({ width, height }, s.view), box);
+      }
+
+      // Frame-time overlay (top left, under the status pill): how long recent frames took and what the ink cost
+      if (s.settings.showFrameStats && s.frameTimes.length > 0) {
+        const draws = s.frameTimes.map(f => f.draw);
+        const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+        const { pathsDrawn, rebuilt } = s.inkCache.stats;
+        const inference = summarizeInference(s.inference);
+        drawFrameOverlay(ctx, { x: 16, y: 48, ...FRAME_OVERLAY_SIZE }, draws, 1000 / s.settings.targetFps, [
+          `render ${ratePerSecond(s.frameTimes.map(f => f.at)).toFixed(0)} fps · inference ${inference.fps.toFixed(0)} fps`,
+          `tracker ${trackerRef.current?.backend ?? 'none'} · latency ${inference.latencyMs.toFixed(0)} ms`,
+          `dropped ${inference.dropped} frames (${(inference.droppedShare * 100).toFixed(0)}%)`,
+          `draw ${average(draws).toFixed(1)} ms (max ${Math.max(...draws).toFixed(1)})`,
+          `update ${average(s.frameTimes.map(f => f.update)).toFixed(1)} ms`,
+          `ink cache ${s.settings.inkCache ? 'on' : 'off'} · ${s.paths.length} paths`,
+          `last frame: ${pathsDrawn} rasterized, ${rebuilt} layers rebuilt`
+        ]);
+      }
+
+      // Debug HUD: skeletons, safe zone and raw vs smoothed cursors in place; live values, transitions and
+      // the pinch-ratio chart on the left (under the frame-time overlay when both are shown)
+      if (s.settings.showDebugHud) {
+        drawSafeZone(ctx, s.gestureConfig.trackingRegion, width, height);
+        for (const hand of HANDEDNESS) {
+          const landmarks = s.debug.landmarks[hand];
+          if (landmarks) drawHandSkeleton(ctx, landmarks, width, DEBUG_HAND_COLORS[hand]);
+          drawCursorTrace(ctx, s.hands[hand], DEBUG_HAND_COLORS[hand]);
+        }
+        const top = s.settings.showFrameStats ? 48 + FRAME_OVERLAY_SIZE.height + 8 : 48;
+        drawDebugHud(ctx, { x: 16, y: top, ...DEBUG_HUD_SIZE }, [
+          ...HANDEDNESS.flatMap(hand => describeHand(hand, s.hands[hand], s.debug.landmarks[hand], s.gestureConfig)),
+          `Pointer: ${s.pointer.mode} · two-hand ${s.twoHand.active ? 'active' : 'off'} · dominant ${s.dominantHand}`,
+          'transitions (newest first):',
+          ...describeTransitions(s.debug)
+        ], s.debug, s.gestureConfig);
       }
 
       // Particles
@@ -475,11 +2375,32 @@ export default function App() {
         ctx.globalAlpha = 1.0;
       }
 
-      // --- CURSORS ---
-      if (s.mode !== 'IDLE' && s.smoothedPos) {
-        const { x, y } = s.smoothedPos;
+      // Peer cursors, with a name tag in their color
+      s.collab?.peers.forEach(peer => {
+        if (!peer.cursor) return;
+        const { x, y } = worldToScreen(peer.cursor, s.view);
+        ctx.beginPath();
+        ctx.strokeStyle = peer.color;
+        ctx.lineWidth = 2;
+        ctx.arc(x, y, 8, 0, Math.PI * 2);
+        ctx.stroke();
+
+        ctx.font = 'bold 12px sans-serif';
+        ctx.textAlign = 'left';
+        const textWidth = ctx.measureText(peer.name).width;
+        ctx.fillStyle = peer.color;
+        ctx.fillRect(x + 10, y + 6, textWidth + 10, 18);
+        ctx.fillStyle = '#000000';
+        ctx.fillText(peer.name, x + 15, y + 19);
+      });
 
-        if (s.mode === 'MENU') {
+      // --- CURSORS (hands and pointer) ---
+      for (const input of [...HANDEDNESS.map(hand => s.hands[hand]), s.pointer]) {
+        const { mode, smoothedPos } = input;
+        if (mode === 'IDLE' || !smoothedPos) continue;
+        const { x, y } = smoothedPos;
+
+        if (mode === 'MENU') {
            // Menu Cursor (Ring + Progress)
            ctx.beginPath();
            ctx.strokeStyle = '#ffffff';
@@ -491,13 +2412,22 @@ export default function App() {
              ctx.beginPath();
              ctx.strokeStyle = '#00FFFF';
              ctx.lineWidth = 4;
-             // Calculate angle based on DWELL_TIME_MS
-             const end = (s.selectionProgress / DWELL_TIME_MS) * Math.PI * 2;
+             // Calculate angle based on the dwell time
+             const end = (s.selectionProgress / s.settings.dwellTimeMs) * Math.PI * 2;
              ctx.arc(x, y, 15, -Math.PI/2, -Math.PI/2 + end);
              ctx.stroke();
            }
+
+           // Over the color picker: the color a dwell would pick
+           const preview = s.hoveredId === COLOR_WHEEL_ID || s.hoveredId === COLOR_VALUE_ID ? pickerColorAt(s.hoveredId, { x, y }) : null;
+           if (preview) {
+             ctx.beginPath();
+             ctx.fillStyle = preview;
+             ctx.arc(x, y, 11, 0, Math.PI * 2);
+             ctx.fill();
+           }
         } 
-        else if (s.mode === 'HOVER') {
+        else if (mode === 'HOVER') {
            // Hover Cursor (Hollow Ring) - Shows system is ready
            ctx.beginPath();
            ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
@@ -510,11 +2440,53 @@ export default function App() {
            ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
            ctx.arc(x, y, 2, 0, Math.PI * 2);
            ctx.fill();
+
+           // Pinching won't draw on a hidden / locked layer
+           if (!isLayerEditable(activeLayer())) {
+             ctx.font = '14px sans-serif';
+             ctx.textAlign = 'left';
+             ctx.fillText('🔒', x + 12, y - 8);
+           } else if (s.tool === ToolType.TEXT) {
+             // Pinching writes text
+             ctx.font = 'bold 12px sans-serif';
+             ctx.textAlign = 'left';
+             ctx.fillText('Aa', x + 12, y - 8);
+           }
         } 
-        else if (s.mode === 'DRAWING') {
+        else if (mode === 'GRABBING') {
+           // Grab Cursor (Filled ring while holding)
+           ctx.beginPath();
+           ctx.fillStyle = s.selectionDrag ? 'rgba(0, 255, 255, 0.35)' : 'rgba(255, 255, 255, 0.2)';
+           ctx.strokeStyle = '#00FFFF';
+           ctx.lineWidth = 2;
+           ctx.arc(x, y, 14, 0, Math.PI * 2);
+           ctx.fill();
+           ctx.stroke();
+        }
+        else if (mode === 'DRAWING' && s.tool === ToolType.SELECT) {
+           // Lasso Cursor (Dashed ring)
+           ctx.beginPath();
+           ctx.strokeStyle = '#00FFFF';
+           ctx.lineWidth = 2;
+           ctx.setLineDash([3, 3]);
+           ctx.arc(x, y, 8, 0, Math.PI * 2);
+           ctx.stroke();
+           ctx.setLineDash([]);
+        }
+        else if (mode === 'DRAWING' && s.tool === ToolType.ERASER) {
+           // Eraser Cursor (Outline of the area being erased)
+           ctx.beginPath();
+           ctx.strokeStyle = '#FFF';
+           ctx.lineWidth = 2;
+           if (s.eraserMode === EraserMode.STROKE) ctx.setLineDash([4, 4]);
+           ctx.arc(x, y, eraserRadius(), 0, Math.PI * 2);
+           ctx.stroke();
+           ctx.setLineDash([]);
+        }
+        else if (mode === 'DRAWING') {
            // Drawing Cursor (Solid Color)
            ctx.beginPath();
-           ctx.fillStyle = s.tool === ToolType.ERASER ? '#FFF' : s.color;
+           ctx.fillStyle = s.color;
            ctx.arc(x, y, s.size / 2, 0, Math.PI * 2);
            ctx.fill();
            
@@ -526,78 +2498,274 @@ export default function App() {
            ctx.stroke();
         }
       }
+
+      // Two-hand zoom indicator
+      if (s.twoHand.active) {
+        const a = s.hands.Left.cursorPos;
+        const b = s.hands.Right.cursorPos;
+        ctx.beginPath();
+        ctx.strokeStyle = 'rgba(0, 255, 255, 0.8)';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 6]);
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = '#00FFFF';
+        ctx.font = 'bold 14px sans-serif';
+        ctx.textAlign = 'center';
+        const label = drag && drag.source === 'spread'
+          ? `${Math.round(drag.transform.scale * 100)}% · ${Math.round(drag.transform.rotation * 180 / Math.PI)}°`
+          : `${Math.round(s.view.scale * 100)}%`;
+        ctx.fillText(label, (a.x + b.x) / 2, (a.y + b.y) / 2 - 12);
+      }
     };
 
     // 5. Loop
     const loop = (timestamp: number) => {
       const s = state.current;
       const elapsed = timestamp - lastTime;
-      if (elapsed >= FRAME_INTERVAL) {
-        lastTime = timestamp - (elapsed % FRAME_INTERVAL);
+      const frameInterval = 1000 / s.settings.targetFps;
+      if (elapsed >= frameInterval) {
+        lastTime = timestamp - (elapsed % frameInterval);
         const canvas = canvasRef.current;
         if (canvas) {
            const ctx = canvas.getContext('2d', { alpha: false });
            if (ctx) {
              // Resize handling inline to avoid layout thrashing
              if (canvas.width !== window.innerWidth || canvas.height !== window.innerHeight) {
+                // Keep the world point at the screen centre in place (paths are in world coordinates)
+                if (sized) {
+                  s.view = {
+                    ...s.view,
+                    x: s.view.x + (window.innerWidth - canvas.width) / 2,
+                    y: s.view.y + (window.innerHeight - canvas.height) / 2
+                  };
+                }
                 canvas.width = window.innerWidth;
                 canvas.height = window.innerHeight;
+                sized = true;
              }
-             
-             // Inference
-             if (videoRef.current && s.cameraReady && !isProcessing) {
-               isProcessing = true;
-               hands.send({ image: videoRef.current }).catch((e:any) => {
-                 isProcessing = false;
-                 console.warn("Frame dropped");
-               });
-             }
-             
+
+             const started = performance.now();
              update(canvas.width, canvas.height);
+             const updated = performance.now();
              draw(canvas.width, canvas.height, ctx);
+             s.frameTimes.push({ at: started, update: updated - started, draw: performance.now() - updated });
+             if (s.frameTimes.length > FRAME_SAMPLES) s.frameTimes.shift();
            }
         }
       }
       animationFrameId = requestAnimationFrame(loop);
     };
 
-    startCamera().then(() => {
-      animationFrameId = requestAnimationFrame(loop);
-    });
+    loopRef.current = {
+      runCommand: (cmd) => {
+        runCommand(cmd);
+        syncToolbar();
+      },
+      clickMenuItem: (id, point) => triggerClick(id, point),
+      toggleMenu: () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const center = { x: canvas.width / 2, y: canvas.height / 2 };
+        showMenu(!state.current.pointer.isMenuOpen, center, epochNow(), canvas.width, canvas.height);
+      }
+    };
+
+    syncToolbar();
+    window.addEventListener('keydown', handleKeyDown);
+    const canvasEl = canvasRef.current;
+    canvasEl.addEventListener('wheel', handleWheel, { passive: false });
+    const pointerEvents = ['pointerdown', 'pointermove', 'pointerup', 'pointercancel', 'pointerleave'] as const;
+    pointerEvents.forEach(type => canvasEl.addEventListener(type, handlePointerEvent));
+    // Right-drag grabs, so no context menu
+    const preventContextMenu = (e: MouseEvent) => e.preventDefault();
+    canvasEl.addEventListener('contextmenu', preventContextMenu);
+
+    // ?replay=<url> loads a recording on startup (e.g. on machines without a camera)
+    const params = new URLSearchParams(window.location.search);
+    const replayUrl = params.get('replay');
+    if (replayUrl) loadReplay(replayUrl);
+    else if (params.has('relay') || params.has('room')) startCollab();
+
+    // Mouse, touch and pen work from the first frame; the camera joins once permission is granted
+    animationFrameId = requestAnimationFrame(loop);
+    startCamera();
 
     return () => {
       cancelAnimationFrame(animationFrameId);
+      window.removeEventListener('keydown', handleKeyDown);
+      canvasEl.removeEventListener('wheel', handleWheel);
+      pointerEvents.forEach(type => canvasEl.removeEventListener(type, handlePointerEvent));
+      canvasEl.removeEventListener('contextmenu', preventContextMenu);
+      state.current.relay?.close();
+      stopCapture?.();
       if (cameraStream) cameraStream.getTracks().forEach(t => t.stop());
-      if (hands) hands.close();
+      tracker?.close();
+      trackerRef.current = null;
+      loopRef.current = null;
     };
   }, []);
 
+  const menuSections = buildMenu({ ...menuContext, smartShapes: settings.smartShapes });
+
+  // Hands get a cursor drawn on the canvas; until a camera is up the system cursor stays for the pointer
   return (
-    <div ref={containerRef} className="relative w-screen h-screen overflow-hidden bg-black cursor-none">
+    <div ref={containerRef} className={`relative w-screen h-screen overflow-hidden bg-black ${cameraReady ? 'cursor-none' : ''}`}>
       <video ref={videoRef} className="hidden" playsInline muted />
-      <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full z-10" />
+      <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full z-10 touch-none" />
       
       <div className="absolute top-0 left-0 w-full h-full pointer-events-none z-20 flex items-center justify-center">
-        <Toolbar 
-            isOpen={uiVisible}
-            activeTool={toolbarProps.activeTool}
-            activeColor={toolbarProps.activeColor}
-            activeSize={toolbarProps.activeSize}
-            cursorPos={null}
-            onSelectTool={()=>{}} 
-            onSelectColor={()=>{}}
-            onSelectSize={()=>{}}
+        <Toolbar
+            isOpen={uiVisible && settings.menuStyle === 'dwell'}
+            sections={menuSections}
+            hoveredId={menuHoverId}
+            onSelect={(id, point) => loopRef.current?.clickMenuItem(id, point)}
         />
       </div>
 
-      <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 text-white text-opacity-70 text-sm pointer-events-none z-0 text-center font-sans select-none bg-black bg-opacity-50 p-3 rounded-xl">
-         <p className="font-bold mb-1">Gesture Controls</p>
-         <div className="flex gap-6 text-xs">
-           <span>✋ Open Palm: Menu</span>
-           <span>👌 Pinch: Draw</span>
-           <span>✌️ Victory: Clear</span>
-         </div>
+      {radialView && (
+        <RadialMenu
+            isOpen={uiVisible && settings.menuStyle === 'radial'}
+            center={radialView.center}
+            items={getRadialRing(buildRadialMenu(menuSections), radialView.path)}
+            highlighted={radialView.highlighted}
+            title={getRadialTitle(buildRadialMenu(menuSections), radialView.path)}
+        />
+      )}
+
+      <PoseTrainer
+          isOpen={trainerOpen}
+          gestures={gestureRows}
+          capture={captureStatus}
+          onBind={bindGestureAction}
+          onDelete={deletePose}
+          onCapture={startPoseCapture}
+          onCancelCapture={cancelPoseCapture}
+          onClose={() => setTrainerOpen(false)}
+      />
+
+      <SettingsPanel
+          isOpen={settingsOpen}
+          settings={settings}
+          fitStats={fitStats}
+          onChange={updateSettings}
+          onReset={resetSettings}
+          onClose={() => setSettingsOpen(false)}
+      />
+
+      <CalibrationWizard
+          isOpen={calibrationOpen}
+          profiles={profiles}
+          activeId={activeProfileId}
+          status={calibrationStatus}
+          onSelect={applyProfile}
+          onDelete={deleteProfile}
+          onStart={startCalibration}
+          onCancel={cancelCalibration}
+          onClose={() => { cancelCalibration(); setCalibrationOpen(false); }}
+      />
+
+      <TextEditor
+          key={textEditor?.id ?? 'none'}
+          status={textEditor}
+          onSave={saveTextEdit}
+          onDelete={deleteEditedText}
+          onForgetGlyphs={forgetGlyphs}
+          onClose={() => showTextEditor(null)}
+      />
+
+      <FilterBenchmarkPanel status={filterBenchmark} onClose={() => setFilterBenchmark(null)} />
+
+      <TimelapsePlayer
+          status={timelapseStatus}
+          onPlayPause={toggleTimelapsePlaying}
+          onSeek={seekTimelapse}
+          onSpeed={speed => updateTimelapse({ speed })}
+          onToggleCamera={() => updateTimelapse({ showCamera: !timelapseStatus?.showCamera })}
+          onExport={exportTimelapse}
+          onClose={closeTimelapse}
+      />
+
+      <div className="absolute top-4 right-4 z-30 flex gap-2 pointer-events-auto cursor-auto font-sans text-xs font-bold">
+        <button
+            className="px-3 py-1 rounded-full bg-black bg-opacity-60 text-white"
+            onClick={() => loopRef.current?.toggleMenu()}
+        >
+          ☰ Menu
+        </button>
+        <button
+            className="px-3 py-1 rounded-full bg-black bg-opacity-60 text-white"
+            onClick={() => setSettingsOpen(open => !open)}
+        >
+          ⚙ Settings
+        </button>
       </div>
+
+      {cameraError && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-30 pointer-events-none select-none font-sans text-xs font-bold px-3 py-1 rounded-full bg-black bg-opacity-60 text-white">
+          📷 {cameraError} · draw with the mouse, touch or a pen
+        </div>
+      )}
+
+      {collabIndicator && (
+        <div className="absolute top-12 right-4 z-30 pointer-events-none select-none font-sans text-xs font-bold px-3 py-1 rounded-full bg-black bg-opacity-60 text-white">
+          {collabIndicator.status === 'live'
+            ? `● SHARED · ${collabIndicator.peers + 1} on board (L to leave)`
+            : collabIndicator.status === 'connecting' ? '… CONNECTING' : '○ OFFLINE (L to reconnect)'}
+        </div>
+      )}
+
+      {inputStatus !== 'LIVE' && (
+        <div className="absolute top-4 left-4 z-30 pointer-events-none select-none font-sans text-xs font-bold px-3 py-1 rounded-full bg-black bg-opacity-60 text-white">
+          {inputStatus === 'RECORDING' ? '● REC (R to stop)' : '▶ REPLAY (Esc to stop)'}
+        </div>
+      )}
+
+      {!timelapseStatus && (
+        <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 text-white text-opacity-70 text-sm pointer-events-none z-0 text-center font-sans select-none bg-black bg-opacity-50 p-3 rounded-xl">
+           <p className="font-bold mb-1">{cameraError ? 'Pointer Controls' : 'Gesture Controls'}</p>
+           {cameraError ? (
+             <div className="flex gap-6 text-xs">
+               <span>☰ Menu: Click or tap items ({settings.menuStyle === 'radial' ? 'click a sector' : 'click beside it to close'})</span>
+               <span>🖱 Drag / Touch / Pen: Draw (pen pressure sets the width)</span>
+               <span>Right or middle drag: Grab / Move (empty canvas: Pan)</span>
+             </div>
+           ) : (
+             <div className="flex gap-6 text-xs">
+               <span>✋ Open Palm: Menu ({settings.menuStyle === 'radial' ? 'flick or pinch a sector' : 'hover to select'})</span>
+               <span>👌 Pinch: Draw</span>
+               <span>✊ Fist: Grab / Move (empty canvas: Pan)</span>
+               <span>✌️ Victory: Clear</span>
+               <span>👈 / 👉 Thumb: Undo / Redo</span>
+               <span>🤏🤏 Two-hand pinch: Zoom / Pan (scale / rotate a selection)</span>
+               <span>🖱 Mouse / Touch / Pen: Draw too</span>
+             </div>
+           )}
+           <div className="flex gap-6 text-xs mt-1 justify-center">
+             <span>R: Record</span>
+             <span>P: Replay</span>
+             <span>H: Draw with {dominantHand === 'Right' ? 'left' : 'right'} hand</span>
+             <span>Wheel: Zoom</span>
+             <span>0: Reset zoom</span>
+             <span>M: Minimap</span>
+             <span>F: Frame times</span>
+             <span>L: Shared board</span>
+             <span>G: Gestures</span>
+             <span>C: Calibrate</span>
+             <span>S: Settings</span>
+             <span>B: Filter benchmark</span>
+             <span>Del / Esc: Delete / Drop selection</span>
+             <span>Ctrl+Z / Ctrl+Y: Undo / Redo</span>
+             <span>Ctrl+S / Ctrl+O: Save / Open</span>
+             <span>Ctrl+E: Export SVG (+Shift PNG, +Alt PNG with camera)</span>
+             <span>T: Time-lapse</span>
+             <span>Aa TEXT: Write in the air, tap a text to edit it</span>
+           </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
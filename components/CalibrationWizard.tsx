@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { CalibrationProfile } from '../types';
+import { CalibrationStep, CALIBRATION_STEPS, DEFAULT_PROFILE_ID } from '../utils/calibration';
+
+export type CalibrationStatus =
+  | { phase: 'countdown'; step: CalibrationStep; value: number } // Seconds left
+  | { phase: 'sampling'; step: CalibrationStep; value: number }  // 0..1 progress
+  | { phase: 'failed'; message: string };
+
+interface CalibrationWizardProps {
+  isOpen: boolean;
+  profiles: CalibrationProfile[]; // Including the built-in default
+  activeId: string;
+  status: CalibrationStatus | null;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onStart: (name: string) => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const STEP_TEXT: Record<CalibrationStep, string> = {
+  open: 'Relax your drawing hand with the fingers spread',
+  pinch: 'Pinch index finger and thumb together, as when drawing',
+  reach: 'Sweep your hand over the whole area you can comfortably reach'
+};
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({
+  isOpen, profiles, activeId, status, onSelect, onDelete, onStart, onCancel, onClose
+}) => {
+  const [name, setName] = useState('');
+
+  if (!isOpen) return null;
+
+  const start = () => {
+    onStart(name.trim() || `Profile ${profiles.length}`);
+    setName('');
+  };
+
+  const running = status && status.phase !== 'failed' ? status : null;
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 bg-opacity-95 p-6 rounded-2xl shadow-2xl border border-gray-700 flex flex-col gap-4 w-96 z-50 pointer-events-auto cursor-auto text-white font-sans">
+      <h2 className="text-xl font-bold text-center">Calibration</h2>
+
+      {running ? (
+        <div className="flex flex-col gap-2 bg-gray-800 p-3 rounded-lg">
+          <p className="text-xs text-gray-400">
+            Step {CALIBRATION_STEPS.indexOf(running.step) + 1} of {CALIBRATION_STEPS.length}
+          </p>
+          <p className="text-sm font-bold">{STEP_TEXT[running.step]}</p>
+          <p className="text-sm text-center">
+            {running.phase === 'countdown' ? `Starting in ${Math.ceil(running.value)}…` : 'Sampling…'}
+          </p>
+          <div className="h-2 bg-gray-700 rounded">
+            <div
+              className="h-2 bg-blue-500 rounded"
+              style={{ width: `${running.phase === 'sampling' ? running.value * 100 : 0}%` }}
+            />
+          </div>
+          <button className="bg-gray-700 rounded px-3 py-1 text-sm" onClick={onCancel}>Cancel</button>
+        </div>
+      ) : (
+        <>
+          {/* Profiles */}
+          <div className="flex flex-col gap-2 max-h-64 overflow-y-auto">
+            {profiles.map(p => (
+              <div key={p.id} className={`flex items-center gap-2 p-2 rounded-lg ${p.id === activeId ? 'bg-blue-900' : 'bg-gray-800'}`}>
+                <button className="flex-1 text-left text-sm truncate" onClick={() => onSelect(p.id)}>
+                  {p.name}
+                  <span className="block text-xs text-gray-400">
+                    pinch {p.pinchStartThreshold.toFixed(3)} / {p.pinchEndThreshold.toFixed(3)}
+                  </span>
+                </button>
+                {p.id === activeId && <span className="text-xs text-blue-300">active</span>}
+                {p.id !== DEFAULT_PROFILE_ID && (
+                  <button className="text-red-400 text-sm px-2" onClick={() => onDelete(p.id)}>✕</button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* New profile */}
+          <div className="flex flex-col gap-2 bg-gray-800 p-3 rounded-lg">
+            <p className="text-sm font-bold">New profile</p>
+            {status && status.phase === 'failed' && (
+              <p className="text-sm text-red-400">{status.message}</p>
+            )}
+            <div className="flex gap-2">
+              <input
+                className="flex-1 bg-gray-700 rounded px-2 py-1 text-sm"
+                placeholder="Profile name"
+                value={name}
+                onChange={e => setName(e.target.value)}
+              />
+              <button className="bg-blue-600 rounded px-3 py-1 text-sm font-bold" onClick={start}>Calibrate</button>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="text-center text-xs text-gray-400">
+        Keep only your drawing hand in view. The profile sets your pinch thresholds and the area mapped to the screen.
+      </div>
+      <button className="bg-gray-700 rounded-lg py-2 font-bold" onClick={onClose}>Close (C)</button>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Handedness } from '../types';
+import { FilterBenchmarkResult, FilterStage } from '../utils/filterBenchmark';
+
+export interface FilterBenchmarkStatus {
+  file: string;                           // Recording the filters were run over
+  results: FilterBenchmarkResult[] | null;
+  error: string | null;                   // The recording could not be read
+  inUse: Record<FilterStage, string>;     // Filters the settings select (drawing and landmark filter)
+}
+
+interface FilterBenchmarkPanelProps {
+  status: FilterBenchmarkStatus | null;
+  onClose: () => void;
+}
+
+const HANDS: Handedness[] = ['Left', 'Right'];
+const STAGES: { stage: FilterStage; label: string }[] = [
+  { stage: 'cursor', label: 'Cursor filters' },
+  { stage: 'landmarks', label: 'Landmark filters' }
+];
+
+const FilterBenchmarkPanel: React.FC<FilterBenchmarkPanelProps> = ({ status, onClose }) => {
+  if (!status) return null;
+  const { file, results, error, inUse } = status;
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 bg-opacity-95 p-6 rounded-2xl shadow-2xl border border-gray-700 flex flex-col gap-4 w-[36rem] max-h-[90vh] overflow-y-auto z-50 pointer-events-auto cursor-auto text-white font-sans">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold">Filter Benchmark</h2>
+        <button className="text-gray-400 hover:text-white" onClick={onClose}>✕</button>
+      </div>
+      <div className="text-xs text-gray-400 truncate">{file}</div>
+
+      {error && <div className="bg-red-900 bg-opacity-60 rounded-lg p-3 text-sm">{error}</div>}
+      {results && results.length === 0 && <div className="text-sm text-gray-400">The recording has no tracked hands.</div>}
+
+      {results && HANDS.map(hand => {
+        const forHand = results.filter(r => r.hand === hand);
+        if (forHand.length === 0) return null;
+        return (
+          <div key={hand} className="flex flex-col gap-2">
+            <h3 className="font-bold">{hand} hand <span className="text-xs font-normal text-gray-400">({forHand[0].samples} samples)</span></h3>
+            {STAGES.map(({ stage, label }) => (
+              <table key={stage} className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-400 text-left">
+                    <th className="font-normal">{label}</th>
+                    <th className="font-normal text-right">jitter (px)</th>
+                    <th className="font-normal text-right">lag (ms)</th>
+                    <th className="font-normal text-right">error (px)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forHand.filter(r => r.stage === stage).map(r => (
+                    <tr key={r.name} className={r.name === inUse[stage] ? 'text-cyan-300 font-bold' : ''}>
+                      <td>{r.name}{r.name === inUse[stage] ? ' (in use)' : ''}</td>
+                      <td className="text-right font-mono">{r.jitterPx.toFixed(2)}</td>
+                      <td className="text-right font-mono">{Math.round(r.lagMs)}</td>
+                      <td className="text-right font-mono">{r.errorPx.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-gray-400">
+        Jitter is the frame-to-frame wobble, lag the delay behind the raw signal and error the distance from it.
+        Landmark filters are measured on the cursor taken from the filtered landmarks. Pick filters in Settings → Smoothing.
+      </p>
+    </div>
+  );
+};
+
+export default FilterBenchmarkPanel;
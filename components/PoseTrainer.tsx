@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { GESTURE_BINDINGS, GestureBinding } from '../utils/gestureRegistry';
+
+export interface GestureRow {
+  id: string;
+  label: string;
+  action: GestureBinding;
+  custom: boolean; // User-taught pose (can be deleted)
+}
+
+export interface PoseCaptureStatus {
+  phase: 'countdown' | 'capturing';
+  value: number; // Seconds left (countdown) or 0..1 progress (capturing)
+}
+
+interface PoseTrainerProps {
+  isOpen: boolean;
+  gestures: GestureRow[];
+  capture: PoseCaptureStatus | null;
+  onBind: (id: string, action: GestureBinding) => void;
+  onDelete: (id: string) => void;
+  onCapture: (name: string, action: GestureBinding) => void;
+  onCancelCapture: () => void;
+  onClose: () => void;
+}
+
+const PoseTrainer: React.FC<PoseTrainerProps> = ({
+  isOpen, gestures, capture, onBind, onDelete, onCapture, onCancelCapture, onClose
+}) => {
+  const [name, setName] = useState('');
+  const [action, setAction] = useState<GestureBinding>('clear');
+
+  if (!isOpen) return null;
+
+  const startCapture = () => {
+    onCapture(name.trim() || `Pose ${gestures.filter(g => g.custom).length + 1}`, action);
+    setName('');
+  };
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 bg-opacity-95 p-6 rounded-2xl shadow-2xl border border-gray-700 flex flex-col gap-4 w-96 z-50 pointer-events-auto cursor-auto text-white font-sans">
+      <h2 className="text-xl font-bold text-center">Gestures</h2>
+
+      {/* Bindings */}
+      <div className="flex flex-col gap-2 max-h-64 overflow-y-auto">
+        {gestures.map(g => (
+          <div key={g.id} className="flex items-center gap-2 bg-gray-800 p-2 rounded-lg">
+            <span className="flex-1 text-sm truncate">{g.label}</span>
+            <select
+              className="bg-gray-700 text-sm rounded px-2 py-1"
+              value={g.action}
+              onChange={e => onBind(g.id, e.target.value as GestureBinding)}
+            >
+              {GESTURE_BINDINGS.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+            </select>
+            {g.custom && (
+              <button className="text-red-400 text-sm px-2" onClick={() => onDelete(g.id)}>✕</button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Teach a pose */}
+      <div className="flex flex-col gap-2 bg-gray-800 p-3 rounded-lg">
+        <p className="text-sm font-bold">Teach a pose</p>
+        {capture ? (
+          <div className="flex flex-col gap-2">
+            <p className="text-sm text-center">
+              {capture.phase === 'countdown'
+                ? `Get ready… hold your pose in ${Math.ceil(capture.value)}`
+                : 'Hold still, capturing…'}
+            </p>
+            <div className="h-2 bg-gray-700 rounded">
+              <div
+                className="h-2 bg-blue-500 rounded"
+                style={{ width: `${capture.phase === 'capturing' ? capture.value * 100 : 0}%` }}
+              />
+            </div>
+            <button className="bg-gray-700 rounded px-3 py-1 text-sm" onClick={onCancelCapture}>Cancel</button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <input
+              className="flex-1 bg-gray-700 rounded px-2 py-1 text-sm"
+              placeholder="Pose name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+            />
+            <select
+              className="bg-gray-700 text-sm rounded px-2 py-1"
+              value={action}
+              onChange={e => setAction(e.target.value as GestureBinding)}
+            >
+              {GESTURE_BINDINGS.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+            </select>
+            <button className="bg-blue-600 rounded px-3 py-1 text-sm font-bold" onClick={startCapture}>Capture</button>
+          </div>
+        )}
+      </div>
+
+      <div className="text-center text-xs text-gray-400">
+        After the countdown, hold the pose steady for about a second.
+      </div>
+      <button className="bg-gray-700 rounded-lg py-2 font-bold" onClick={onClose}>Close (G)</button>
+    </div>
+  );
+};
+
+export default PoseTrainer;
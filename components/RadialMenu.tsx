@@ -0,0 +1,72 @@
+import React from 'react';
+import { Point } from '../types';
+import { DEFAULT_RADIAL_CONFIG, RadialItem, radialPoint, sectorAngles } from '../utils/radialMenu';
+
+interface RadialMenuProps {
+  isOpen: boolean;
+  center: Point;
+  items: RadialItem[];        // Sectors of the open ring (see utils/radialMenu.ts)
+  highlighted: number | null;
+  title: string;              // Shown in the dead zone
+}
+
+const { innerRadius, outerRadius } = DEFAULT_RADIAL_CONFIG;
+const LABEL_RADIUS = (innerRadius + outerRadius) / 2;
+const GAP = 0.02; // Radians between sectors
+
+// Ring segment between the inner and outer radius
+const wedgePath = (center: Point, start: number, end: number): string => {
+  const large = end - start > Math.PI ? 1 : 0;
+  const p1 = radialPoint(center, start, outerRadius);
+  const p2 = radialPoint(center, end, outerRadius);
+  const p3 = radialPoint(center, end, innerRadius);
+  const p4 = radialPoint(center, start, innerRadius);
+  return `M ${p1.x} ${p1.y} A ${outerRadius} ${outerRadius} 0 ${large} 1 ${p2.x} ${p2.y} `
+    + `L ${p3.x} ${p3.y} A ${innerRadius} ${innerRadius} 0 ${large} 0 ${p4.x} ${p4.y} Z`;
+};
+
+const RadialMenu: React.FC<RadialMenuProps> = ({ isOpen, center, items, highlighted, title }) => {
+  if (!isOpen) return null;
+
+  return (
+    <svg className="absolute inset-0 w-full h-full z-50 pointer-events-none animate-fade-in">
+      {items.map((item, i) => {
+        const { start, end, mid } = sectorAngles(i, items.length);
+        const label = radialPoint(center, mid, LABEL_RADIUS);
+        const isHighlighted = highlighted === i;
+        return (
+          <g key={item.id}>
+            <path
+              d={wedgePath(center, start + GAP, end - GAP)}
+              fill={isHighlighted ? '#2563EB' : '#111827'}
+              fillOpacity={0.8}
+              stroke={item.active ? '#FFFFFF' : '#374151'}
+              strokeWidth={item.active ? 3 : 1}
+            />
+            {item.color ? (
+              <circle cx={label.x} cy={label.y} r={isHighlighted ? 16 : 12} fill={item.color} stroke="#FFFFFF" strokeWidth={item.active ? 3 : 0} />
+            ) : (
+              <text
+                x={label.x}
+                y={label.y}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={11}
+                fontWeight="bold"
+                fill={item.dimmed ? '#6B7280' : '#F3F4F6'}
+              >
+                {item.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      <circle cx={center.x} cy={center.y} r={innerRadius - 4} fill="#111827" fillOpacity={0.9} stroke="#374151" />
+      <text x={center.x} y={center.y} textAnchor="middle" dominantBaseline="middle" fontSize={10} fill="#9CA3AF">
+        {title}
+      </text>
+    </svg>
+  );
+};
+
+export default RadialMenu;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Settings, SETTING_FIELDS } from '../utils/settings';
+import { FitStats, fitSavings } from '../utils/strokeFit';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  settings: Settings;
+  fitStats: FitStats; // Committed strokes this session (see utils/strokeFit.ts)
+  onChange: (patch: Partial<Settings>) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const GROUPS = Array.from(new Set(SETTING_FIELDS.map(f => f.group)));
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, settings, fitStats, onChange, onReset, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 bg-opacity-95 p-6 rounded-2xl shadow-2xl border border-gray-700 flex flex-col gap-4 w-96 z-50 pointer-events-auto cursor-auto text-white font-sans">
+      <h2 className="text-xl font-bold text-center">Settings</h2>
+
+      <div className="flex flex-col gap-3 max-h-96 overflow-y-auto">
+        {GROUPS.map(group => (
+          <div key={group} className="flex flex-col gap-2 bg-gray-800 p-3 rounded-lg">
+            <p className="text-sm font-bold">{group}</p>
+            {SETTING_FIELDS.filter(f => f.group === group).map(field => (
+              <label key={field.key} className="flex items-center gap-2 text-sm">
+                <span className="flex-1">{field.label}</span>
+                {field.type === 'number' ? (
+                  <input
+                    type="number"
+                    className="w-24 bg-gray-700 rounded px-2 py-1 text-right"
+                    min={field.min}
+                    max={field.max}
+                    step={field.step}
+                    value={settings[field.key]}
+                    onChange={e => {
+                      const value = parseFloat(e.target.value);
+                      if (!Number.isNaN(value)) onChange({ [field.key]: value });
+                    }}
+                  />
+                ) : field.type === 'toggle' ? (
+                  <input
+                    type="checkbox"
+                    className="w-5 h-5"
+                    checked={settings[field.key]}
+                    onChange={e => onChange({ [field.key]: e.target.checked })}
+                  />
+                ) : (
+                  <select
+                    className="w-32 bg-gray-700 rounded px-2 py-1"
+                    value={settings[field.key]}
+                    onChange={e => onChange({ [field.key]: e.target.value })}
+                  >
+                    {field.options.map(o => <option key={o} value={o}>{o}</option>)}
+                  </select>
+                )}
+              </label>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="text-center text-xs text-gray-300">
+        {fitStats.strokes > 0
+          ? `Simplification: ${fitStats.storedPoints} of ${fitStats.rawPoints} points kept over ${fitStats.strokes} strokes (${Math.round(fitSavings(fitStats) * 100)}% saved)`
+          : 'Simplification: no strokes committed yet'}
+      </div>
+      <div className="text-center text-xs text-gray-400">
+        Changes apply immediately and are saved in this browser.
+      </div>
+      <div className="flex gap-2">
+        <button className="flex-1 bg-gray-700 rounded-lg py-2 font-bold" onClick={onReset}>Reset defaults</button>
+        <button className="flex-1 bg-gray-700 rounded-lg py-2 font-bold" onClick={onClose}>Close (S)</button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
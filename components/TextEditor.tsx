@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+
+export interface TextEditorStatus {
+  id: string;                   // Text object being edited
+  text: string;
+  size: number;                 // Font size (world units)
+  writtenGlyphs: number | null; // Glyphs in the air-writing it was recognized from (null: none kept)
+  userGlyphs: number;           // Glyph templates taught so far
+}
+
+interface TextEditorProps {
+  status: TextEditorStatus | null;
+  onSave: (text: string, size: number, remember: boolean) => void;
+  onDelete: () => void;
+  onForgetGlyphs: () => void;
+  onClose: () => void;
+}
+
+const MIN_SIZE = 8;
+const MAX_SIZE = 400;
+
+// Mounted per text object (keyed by id in App), so the draft starts from the current text
+const TextEditor: React.FC<TextEditorProps> = ({ status, onSave, onDelete, onForgetGlyphs, onClose }) => {
+  const [text, setText] = useState(status?.text ?? '');
+  const [size, setSize] = useState(Math.round(status?.size ?? 48));
+  const [remember, setRemember] = useState(true);
+  if (!status) return null;
+
+  // Corrections can only be taught glyph by glyph, so the characters must line up with what was written
+  const canRemember = status.writtenGlyphs !== null && text.replace(/\s/g, '').length === status.writtenGlyphs;
+  const changed = text !== status.text;
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 bg-opacity-95 p-6 rounded-2xl shadow-2xl border border-gray-700 flex flex-col gap-4 w-96 z-50 pointer-events-auto cursor-auto text-white font-sans">
+      <h2 className="text-xl font-bold text-center">Edit Text</h2>
+
+      <input
+        type="text"
+        className="bg-gray-700 rounded px-3 py-2 text-lg"
+        value={text}
+        autoFocus
+        onChange={e => setText(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') onSave(text, size, canRemember && changed && remember);
+          else if (e.key === 'Escape') onClose();
+        }}
+      />
+      <label className="flex items-center gap-2 text-sm">
+        <span className="flex-1">Size</span>
+        <input
+          type="number"
+          className="w-24 bg-gray-700 rounded px-2 py-1 text-right"
+          min={MIN_SIZE}
+          max={MAX_SIZE}
+          step={1}
+          value={size}
+          onChange={e => {
+            const value = parseFloat(e.target.value);
+            if (!Number.isNaN(value)) setSize(Math.min(MAX_SIZE, Math.max(MIN_SIZE, value)));
+          }}
+        />
+      </label>
+
+      {canRemember && changed && (
+        <label className="flex items-center gap-2 text-sm bg-gray-800 p-3 rounded-lg">
+          <input type="checkbox" className="w-5 h-5" checked={remember} onChange={e => setRemember(e.target.checked)} />
+          <span className="flex-1">Remember my handwriting for the corrected characters</span>
+        </label>
+      )}
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>{status.userGlyphs} glyph{status.userGlyphs === 1 ? '' : 's'} learned from your handwriting</span>
+        {status.userGlyphs > 0 && (
+          <button className="text-red-400 hover:text-red-300" onClick={onForgetGlyphs}>Forget</button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button className="flex-1 bg-red-700 rounded-lg py-2 font-bold" onClick={onDelete}>Delete</button>
+        <button className="flex-1 bg-gray-700 rounded-lg py-2 font-bold" onClick={onClose}>Cancel</button>
+        <button
+          className="flex-1 bg-blue-600 rounded-lg py-2 font-bold"
+          onClick={() => onSave(text, size, canRemember && changed && remember)}
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TextEditor;
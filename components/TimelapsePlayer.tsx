@@ -0,0 +1,78 @@
+import React from 'react';
+import { TIMELAPSE_SPEEDS } from '../utils/timelapse';
+
+export interface TimelapseStatus {
+  time: number;     // ms into the time-lapse
+  duration: number;
+  playing: boolean;
+  speed: number;
+  showCamera: boolean;
+  exporting: boolean; // A WebM is being recorded (controls are locked until it ends)
+}
+
+interface TimelapsePlayerProps {
+  status: TimelapseStatus | null;
+  onPlayPause: () => void;
+  onSeek: (time: number) => void;
+  onSpeed: (speed: number) => void;
+  onToggleCamera: () => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const TimelapsePlayer: React.FC<TimelapsePlayerProps> = ({
+  status, onPlayPause, onSeek, onSpeed, onToggleCamera, onExport, onClose
+}) => {
+  if (!status) return null;
+  const { time, duration, playing, speed, showCamera, exporting } = status;
+
+  return (
+    <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 bg-gray-900 bg-opacity-95 px-4 py-3 rounded-2xl shadow-2xl border border-gray-700 flex items-center gap-3 w-[40rem] max-w-full z-50 pointer-events-auto cursor-auto text-white font-sans">
+      <button
+        className="w-10 py-1 rounded bg-blue-600 hover:bg-blue-500 text-sm font-bold disabled:opacity-40"
+        disabled={exporting}
+        onClick={onPlayPause}
+      >
+        {playing ? '❚❚' : '▶'}
+      </button>
+      <input
+        type="range"
+        className="flex-1"
+        min={0}
+        max={Math.max(1, duration)}
+        step={10}
+        value={time}
+        disabled={exporting}
+        onChange={e => onSeek(Number(e.target.value))}
+      />
+      <span className="text-xs tabular-nums w-20 text-right">{formatTime(time)} / {formatTime(duration)}</span>
+      <select
+        className="bg-gray-700 text-sm rounded px-2 py-1"
+        value={speed}
+        disabled={exporting}
+        onChange={e => onSpeed(Number(e.target.value))}
+      >
+        {TIMELAPSE_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+      </select>
+      <label className="flex items-center gap-1 text-xs">
+        <input type="checkbox" checked={showCamera} disabled={exporting} onChange={onToggleCamera} />
+        Camera
+      </label>
+      <button
+        className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm disabled:opacity-40"
+        disabled={exporting}
+        onClick={onExport}
+      >
+        {exporting ? '● REC…' : 'WebM'}
+      </button>
+      <button className="text-gray-400 hover:text-white text-sm px-1" onClick={onClose}>✕</button>
+    </div>
+  );
+};
+
+export default TimelapsePlayer;
@@ -1,99 +1,166 @@
 import React, { forwardRef } from 'react';
-import { ToolType } from '../types';
+import { Point } from '../types';
+import { MenuItem, MenuSection } from '../utils/menu';
+import { HUE_GRADIENT, hexToHsv, hsvToHex, wheelOffset } from '../utils/color';
 
 interface ToolbarProps {
   isOpen: boolean;
-  activeTool: ToolType;
-  activeColor: string;
-  activeSize: number;
-  cursorPos: { x: number; y: number } | null;
-  onSelectTool: (tool: ToolType) => void;
-  onSelectColor: (color: string) => void;
-  onSelectSize: (size: number) => void;
+  sections: MenuSection[];    // See utils/menu.ts (App hit-tests the same items)
+  hoveredId: string | null;   // Item under the menu cursor
+  onSelect: (id: string, point: Point) => void; // Clicked or tapped (the point picks on the color wheel / strip)
 }
 
-// Colors to choose from
-const COLORS = ['#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#FFFF00'];
-const SIZES = [2, 5, 10, 15];
+const TONES = { blue: 'bg-blue-600', red: 'bg-red-600', cyan: 'bg-cyan-600' };
+const WHEEL_SIZE = 160;
 
-const Toolbar = forwardRef<HTMLDivElement, ToolbarProps>(({
-  isOpen, activeTool, activeColor, activeSize, cursorPos, onSelectTool, onSelectColor, onSelectSize
-}, ref) => {
+const Toolbar = forwardRef<HTMLDivElement, ToolbarProps>(({ isOpen, sections, hoveredId, onSelect }, ref) => {
   if (!isOpen) return null;
 
-  const isHovered = (id: string) => {
-    if (!cursorPos) return false;
-    const el = document.getElementById(id);
-    if (!el) return false;
-    const rect = el.getBoundingClientRect();
-    return (
-      cursorPos.x >= rect.left &&
-      cursorPos.x <= rect.right &&
-      cursorPos.y >= rect.top &&
-      cursorPos.y <= rect.bottom
-    );
-  };
-
-  return (
-    <div 
-      ref={ref}
-      className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 bg-opacity-90 p-6 rounded-2xl shadow-2xl border border-gray-700 flex flex-col gap-6 w-80 animate-fade-in z-50 pointer-events-auto"
-    >
-      <h2 className="text-xl font-bold text-center mb-2 text-white">Gesture Menu</h2>
-      
-      {/* Tools */}
-      <div className="flex justify-center gap-4">
-        <div
-          id="btn-pen"
-          className={`p-4 rounded-lg flex-1 font-bold text-center transition-all cursor-pointer select-none ${activeTool === ToolType.PEN ? 'bg-blue-600 ring-2 ring-white text-white' : 'bg-gray-700 text-gray-300'}`}
-          style={{ transform: isHovered('btn-pen') ? 'scale(1.1)' : 'scale(1)' }}
-        >
-          PEN
-        </div>
-        <div
-          id="btn-eraser"
-          className={`p-4 rounded-lg flex-1 font-bold text-center transition-all cursor-pointer select-none ${activeTool === ToolType.ERASER ? 'bg-red-600 ring-2 ring-white text-white' : 'bg-gray-700 text-gray-300'}`}
-          style={{ transform: isHovered('btn-eraser') ? 'scale(1.1)' : 'scale(1)' }}
-        >
-          ERASER
-        </div>
-      </div>
+  const hoverScale = (item: MenuItem, amount: number) => hoveredId === item.id ? `scale(${amount})` : 'scale(1)';
+  const tone = (item: MenuItem) => TONES[item.tone ?? 'blue'];
+  const select = (item: MenuItem) => (e: React.MouseEvent) => onSelect(item.id, { x: e.clientX, y: e.clientY });
 
-      {/* Colors */}
-      <div className="flex justify-between items-center bg-gray-800 p-3 rounded-lg">
-        {COLORS.map((color, idx) => (
+  const renderItem = (item: MenuItem) => {
+    switch (item.kind) {
+      case 'tool':
+        return (
+          <div
+            key={item.id}
+            id={item.id}
+            onClick={select(item)}
+            className={`p-3 rounded-lg flex-1 text-sm font-bold text-center transition-all cursor-pointer select-none ${item.active ? `${tone(item)} ring-2 ring-white text-white` : 'bg-gray-700 text-gray-300'}`}
+            style={{ transform: hoverScale(item, 1.1) }}
+          >
+            {item.label}
+          </div>
+        );
+      case 'button':
+        return (
+          <div
+            key={item.id}
+            id={item.id}
+            onClick={select(item)}
+            className={`p-2 rounded-lg flex-1 text-xs font-bold text-center transition-all cursor-pointer select-none ${item.active ? `${tone(item)} text-white` : `bg-gray-700 ${item.dimmed ? 'text-gray-500' : 'text-gray-200'}`}`}
+            style={{ transform: hoverScale(item, 1.1) }}
+          >
+            {item.label}
+          </div>
+        );
+      case 'icon':
+        return (
           <div
-            key={color}
-            id={`btn-color-${idx}`}
-            className={`w-8 h-8 rounded-full border-2 transition-transform cursor-pointer ${activeColor === color ? 'border-white' : 'border-transparent'}`}
-            style={{ 
-              backgroundColor: color,
-              transform: isHovered(`btn-color-${idx}`) ? 'scale(1.4)' : (activeColor === color ? 'scale(1.25)' : 'scale(1)')
+            key={item.id}
+            id={item.id}
+            onClick={select(item)}
+            className={`p-1 w-8 rounded text-xs text-center transition-all cursor-pointer select-none ${item.active ? `${tone(item)} text-white` : `bg-gray-700 ${item.dimmed ? 'text-gray-500' : 'text-white'}`}`}
+            style={{ transform: hoverScale(item, 1.2) }}
+          >
+            {item.label}
+          </div>
+        );
+      case 'layer':
+        return (
+          <div
+            key={item.id}
+            id={item.id}
+            onClick={select(item)}
+            className={`p-1 rounded flex-1 text-xs font-bold transition-all cursor-pointer select-none ${item.active ? `${tone(item)} text-white` : 'bg-gray-700 text-gray-300'}`}
+            style={{ transform: hoverScale(item, 1.05) }}
+          >
+            {item.label}
+          </div>
+        );
+      case 'swatch':
+        return (
+          <div
+            key={item.id}
+            id={item.id}
+            onClick={select(item)}
+            className={`w-8 h-8 rounded-full border-2 transition-transform cursor-pointer ${item.active ? 'border-white' : 'border-transparent'}`}
+            style={{
+              backgroundColor: item.color,
+              transform: hoveredId === item.id ? 'scale(1.4)' : (item.active ? 'scale(1.25)' : 'scale(1)')
             }}
           />
-        ))}
-      </div>
-
-      {/* Sizes */}
-      <div className="flex justify-between items-center bg-gray-800 p-3 rounded-lg">
-        {SIZES.map((size, idx) => (
+        );
+      case 'size':
+        return (
           <div
-            key={size}
-            id={`btn-size-${idx}`}
-            className={`rounded-full bg-white transition-all cursor-pointer ${activeSize === size ? 'bg-blue-400' : 'bg-gray-400'}`}
-            style={{ 
-              width: size * 2 + 4, 
-              height: size * 2 + 4,
-              transform: isHovered(`btn-size-${idx}`) ? 'scale(1.3)' : 'scale(1)'
+            key={item.id}
+            id={item.id}
+            onClick={select(item)}
+            className={`rounded-full transition-all cursor-pointer ${item.active ? 'bg-blue-400' : 'bg-gray-400'}`}
+            style={{
+              width: (item.size ?? 0) * 2 + 4,
+              height: (item.size ?? 0) * 2 + 4,
+              transform: hoverScale(item, 1.3)
             }}
           />
-        ))}
-      </div>
+        );
+      case 'wheel': {
+        // Saturation fades to white at the centre; a black veil applies the brightness
+        const hsv = hexToHsv(item.color ?? '#FFFFFF');
+        const marker = wheelOffset(hsv, WHEEL_SIZE / 2);
+        return (
+          <div
+            key={item.id}
+            id={item.id}
+            onClick={select(item)}
+            className="relative mx-auto rounded-full cursor-pointer"
+            style={{
+              width: WHEEL_SIZE,
+              height: WHEEL_SIZE,
+              background: `radial-gradient(circle closest-side, #FFFFFF, transparent), ${HUE_GRADIENT}`
+            }}
+          >
+            <div className="absolute inset-0 rounded-full bg-black" style={{ opacity: 1 - hsv.v }} />
+            <div
+              className="absolute w-4 h-4 rounded-full border-2 border-white"
+              style={{ left: WHEEL_SIZE / 2 + marker.x - 8, top: WHEEL_SIZE / 2 + marker.y - 8, backgroundColor: item.color }}
+            />
+          </div>
+        );
+      }
+      case 'valueStrip': {
+        // Black to the current hue / saturation at full brightness, marked at the current brightness
+        const hsv = hexToHsv(item.color ?? '#FFFFFF');
+        return (
+          <div
+            key={item.id}
+            id={item.id}
+            onClick={select(item)}
+            className="relative flex-1 h-6 rounded cursor-pointer"
+            style={{ background: `linear-gradient(to right, #000000, ${hsvToHex({ ...hsv, v: 1 })})` }}
+          >
+            <div className="absolute top-0 bottom-0 w-1 bg-white rounded" style={{ left: `calc(${hsv.v * 100}% - 2px)` }} />
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div
+      ref={ref}
+      className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-gray-900 bg-opacity-90 p-6 rounded-2xl shadow-2xl border border-gray-700 flex flex-col gap-4 w-96 animate-fade-in z-50 pointer-events-auto"
+    >
+      <h2 className="text-xl font-bold text-center mb-2 text-white">Gesture Menu</h2>
+
+      {sections.map(section => (
+        <div key={section.id} className={`flex flex-col gap-2 ${section.panel ? 'bg-gray-800 p-2 rounded-lg' : ''}`}>
+          {section.caption && <p className="text-xs text-center text-gray-300">{section.caption}</p>}
+          {section.rows.map((row, i) => (
+            <div key={i} className="flex justify-between items-center gap-2">
+              {row.map(renderItem)}
+            </div>
+          ))}
+        </div>
+      ))}
 
       <div className="text-center text-xs text-gray-400 mt-2">
-        Hover with index finger to select.
+        Hover with index finger (or click) to select.
         <br/>
-        Show open palm to close.
+        Show open palm (or click ☰ Menu) to close.
       </div>
     </div>
   );
@@ -0,0 +1,30 @@
+// Headless filter benchmark over a landmark recording (record with R in the app, it downloads as JSON).
+//
+//   npm run benchmark:filters -- recording.json [width height]   # viewport defaults to 1280 x 720
+//
+// Same numbers as the in-app benchmark (B): every cursor and landmark filter, for each recorded hand.
+
+import { readFileSync } from 'node:fs';
+import { parseRecording } from '../utils/recording';
+import { benchmarkFilters } from '../utils/filterBenchmark';
+
+const [file, width = '1280', height = '720'] = process.argv.slice(2);
+if (!file) {
+  console.error('Usage: npm run benchmark:filters -- <recording.json> [width height]');
+  process.exit(1);
+}
+
+const results = benchmarkFilters(parseRecording(readFileSync(file, 'utf8')), { width: Number(width), height: Number(height) });
+if (results.length === 0) {
+  console.error('The recording has no tracked hands');
+  process.exit(1);
+}
+console.table(results.map(r => ({
+  hand: r.hand,
+  stage: r.stage,
+  filter: r.name,
+  samples: r.samples,
+  'jitter (px)': r.jitterPx.toFixed(2),
+  'lag (ms)': Math.round(r.lagMs),
+  'error (px)': r.errorPx.toFixed(2)
+})));
@@ -0,0 +1,303 @@
+// Reference relay for collaborative drawing (client side: utils/collab.ts).
+//
+//   npm run relay            # ws://localhost:8787, PORT=... to change
+//
+// Clients join a room by path (ws://host:8787/<room>). The relay numbers every board op, keeps the
+// board of each room (layers, texts and paths) so late joiners get a snapshot, and forwards live messages
+// (cursors, in-progress strokes) as they come. Rooms live as long as the process.
+// No dependencies: just enough of RFC 6455 (text frames, ping, close) on top of node:http.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 8 * 1024 * 1024; // Per message, fragments included
+
+const OPCODE = { continuation: 0x0, text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+// --- ROOMS ---
+
+const rooms = new Map(); // name -> { seq, layers, texts, paths: Map<id, { id, order, path }>, clients: Set }
+
+const getRoom = (name) => {
+  let room = rooms.get(name);
+  if (!room) {
+    room = { seq: 0, layers: null, texts: null, paths: new Map(), clients: new Set() };
+    rooms.set(name, room);
+  }
+  return room;
+};
+
+// Null for a path that is not valid percent-encoding
+const roomName = (url) => {
+  try {
+    return decodeURIComponent((url || '/').split('?')[0].replace(/^\/+/, '')) || 'default';
+  } catch {
+    return null;
+  }
+};
+
+// --- VALIDATION ---
+// Same rules as the client's (isOp / isPeer in utils/collab.ts): a stored op that a client would
+// reject ends up in every later welcome, and then no one can join the room.
+
+const SHAPE_KINDS = ['line', 'arrow', 'rectangle', 'ellipse', 'triangle'];
+
+const isObject = (x) => typeof x === 'object' && x !== null;
+const isHexColor = (x) => typeof x === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(x);
+const isOptionalNumber = (x) => x === undefined || typeof x === 'number';
+
+const isStrokePoint = (pt) => isObject(pt) && typeof pt.x === 'number' && typeof pt.y === 'number'
+  && isOptionalNumber(pt.pressure) && isOptionalNumber(pt.t);
+
+const isBoardPath = (p) => isObject(p)
+  && Array.isArray(p.points) && p.points.every(isStrokePoint)
+  && isHexColor(p.color)
+  && typeof p.width === 'number'
+  && typeof p.isEraser === 'boolean'
+  && (p.shape === undefined || SHAPE_KINDS.includes(p.shape))
+  && (p.fitted === undefined || typeof p.fitted === 'boolean')
+  && typeof p.layerId === 'string';
+
+const isLayer = (l) => isObject(l)
+  && typeof l.id === 'string'
+  && typeof l.name === 'string'
+  && typeof l.visible === 'boolean'
+  && typeof l.locked === 'boolean'
+  && typeof l.opacity === 'number' && l.opacity >= 0 && l.opacity <= 1;
+
+const isTextObject = (t) => isObject(t)
+  && typeof t.id === 'string'
+  && typeof t.text === 'string'
+  && typeof t.x === 'number'
+  && typeof t.y === 'number'
+  && typeof t.size === 'number' && t.size > 0
+  && isHexColor(t.color)
+  && typeof t.layerId === 'string'
+  && isOptionalNumber(t.t);
+
+const isOp = (op) => {
+  if (!isObject(op)) return false;
+  switch (op.type) {
+    case 'strokeEnd':
+      return typeof op.id === 'string' && isBoardPath(op.path) && isOptionalNumber(op.order);
+    case 'update':
+      return typeof op.id === 'string' && isBoardPath(op.path);
+    case 'erase':
+      return Array.isArray(op.ids) && op.ids.every(id => typeof id === 'string');
+    case 'layers':
+      return Array.isArray(op.layers) && op.layers.length > 0 && op.layers.every(isLayer);
+    case 'texts':
+      return Array.isArray(op.texts) && op.texts.every(isTextObject);
+    default:
+      return false;
+  }
+};
+
+const isPeer = (p) => isObject(p) && typeof p.id === 'string' && typeof p.name === 'string' && isHexColor(p.color);
+
+// --- BOARD ---
+
+// Returns the stacking order given to a strokeEnd
+const applyOp = (room, op, seq) => {
+  switch (op.type) {
+    case 'strokeEnd': {
+      const order = typeof op.order === 'number' ? op.order : seq;
+      room.paths.set(op.id, { id: op.id, order, path: op.path });
+      return order;
+    }
+    case 'update': {
+      const entry = room.paths.get(op.id);
+      if (entry) entry.path = op.path;
+      return undefined;
+    }
+    case 'erase':
+      for (const id of op.ids) room.paths.delete(id);
+      return undefined;
+    case 'layers':
+      room.layers = op.layers;
+      return undefined;
+    case 'texts':
+      room.texts = op.texts;
+      return undefined;
+    default:
+      return undefined;
+  }
+};
+
+// --- FRAMING ---
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode; // FIN, never fragmented
+  return Buffer.concat([header, payload]);
+};
+
+// Calls onFrame for every complete frame in `buffer`; returns the unconsumed rest
+const decodeFrames = (buffer, onFrame) => {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let pos = offset + 2;
+    if (length === 126) {
+      if (buffer.length < pos + 2) break;
+      length = buffer.readUInt16BE(pos);
+      pos += 2;
+    } else if (length === 127) {
+      if (buffer.length < pos + 8) break;
+      length = Number(buffer.readBigUInt64BE(pos));
+      pos += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error('Frame too large');
+    const maskAt = pos;
+    if (masked) pos += 4;
+    if (buffer.length < pos + length) break;
+
+    const payload = Buffer.from(buffer.subarray(pos, pos + length));
+    if (masked) {
+      for (let i = 0; i < length; i++) payload[i] ^= buffer[maskAt + (i & 3)];
+    }
+    onFrame(fin, opcode, payload);
+    offset = pos + length;
+  }
+  return buffer.subarray(offset);
+};
+
+// --- CLIENTS ---
+
+const send = (client, msg) => {
+  if (!client.socket.destroyed) client.socket.write(encodeFrame(OPCODE.text, Buffer.from(JSON.stringify(msg))));
+};
+
+const broadcast = (room, msg, except = null) => {
+  for (const client of room.clients) {
+    if (client !== except) send(client, msg);
+  }
+};
+
+const handleMessage = (client, msg) => {
+  const { room } = client;
+  if (msg.type === 'hello') {
+    if (client.peer || !isPeer(msg.peer)) return;
+    client.peer = msg.peer;
+    send(client, {
+      type: 'welcome',
+      seq: room.seq,
+      layers: room.layers,
+      texts: room.texts,
+      paths: [...room.paths.values()].sort((a, b) => a.order - b.order),
+      peers: [...room.clients].map(c => c.peer)
+    });
+    broadcast(room, { type: 'join', peer: client.peer });
+    room.clients.add(client);
+    console.log(`[${client.roomName}] ${client.peer.name} joined (${room.clients.size} connected)`);
+  } else if (!client.peer) {
+    return; // Nothing before hello
+  } else if (msg.type === 'op') {
+    if (!isOp(msg.op)) return; // Dropped: never stored or forwarded
+    // Echoed to the sender as well: that is its acknowledgement (and its seq)
+    const seq = ++room.seq;
+    const order = applyOp(room, msg.op, seq);
+    broadcast(room, { type: 'op', seq, order, from: client.peer.id, op: msg.op });
+  } else if (msg.type === 'live' && msg.live) {
+    broadcast(room, { type: 'live', from: client.peer.id, live: msg.live }, client);
+  }
+};
+
+const leave = (client) => {
+  const { room } = client;
+  if (!room.clients.delete(client)) return;
+  broadcast(room, { type: 'leave', id: client.peer.id });
+  console.log(`[${client.roomName}] ${client.peer.name} left (${room.clients.size} connected)`);
+};
+
+// --- SERVER ---
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('GestureCanvas relay: connect with a WebSocket client\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || (req.headers.upgrade || '').toLowerCase() !== 'websocket') {
+    socket.destroy();
+    return;
+  }
+  const name = roomName(req.url);
+  if (name === null) {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n', () => socket.destroy());
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+
+  const client = { socket, peer: null, room: getRoom(name), roomName: name };
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentBytes = 0;
+
+  const onFrame = (fin, opcode, payload) => {
+    if (opcode === OPCODE.close) {
+      socket.end(encodeFrame(OPCODE.close, Buffer.alloc(0)));
+      return;
+    }
+    if (opcode === OPCODE.ping) {
+      socket.write(encodeFrame(OPCODE.pong, payload));
+      return;
+    }
+    if (opcode !== OPCODE.text && opcode !== OPCODE.continuation) return;
+    fragmentBytes += payload.length;
+    if (fragmentBytes > MAX_MESSAGE_BYTES) throw new Error('Message too large');
+    fragments.push(payload);
+    if (!fin) return;
+    const text = Buffer.concat(fragments).toString('utf8');
+    fragments = [];
+    fragmentBytes = 0;
+    try {
+      handleMessage(client, JSON.parse(text));
+    } catch (err) {
+      console.warn(`[${name}] Dropped a malformed message: ${err.message}`);
+    }
+  };
+
+  socket.on('data', (chunk) => {
+    try {
+      pending = decodeFrames(Buffer.concat([pending, chunk]), onFrame);
+    } catch (err) {
+      console.warn(`[${name}] Closing connection: ${err.message}`);
+      socket.destroy();
+    }
+  });
+  socket.on('close', () => leave(client));
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`GestureCanvas relay listening on ws://localhost:${PORT}/<room>`);
+});
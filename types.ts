@@ -1,6 +1,13 @@
 export enum ToolType {
   PEN = 'PEN',
   ERASER = 'ERASER',
+  SELECT = 'SELECT', // Lasso: the stroke selects the paths it encloses
+  TEXT = 'TEXT',     // Air-writing: strokes are recognized as text (see utils/handwriting.ts)
+}
+
+export enum EraserMode {
+  PIXEL = 'PIXEL',   // Cuts through ink on the ink layer
+  STROKE = 'STROKE', // Deletes whole paths the cursor passes through
 }
 
 export interface Point {
@@ -8,11 +15,71 @@ export interface Point {
   y: number;
 }
 
+// Application States
+export type AppMode = 'IDLE' | 'HOVER' | 'DRAWING' | 'GRABBING' | 'MENU';
+
+// Canvas size in screen pixels
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+// World -> screen mapping: screen = world * scale + (x, y)
+export interface ViewTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+// A stroke sample. Pressure (0..1) scales the stroke width at this point; without it the width is uniform.
+export interface StrokePoint extends Point {
+  pressure?: number;
+  t?: number; // When it was drawn (epoch ms), for the time-lapse (see utils/timelapse.ts)
+}
+
+// Clean primitives produced by shape recognition (see utils/shapeRecognition.ts)
+export type ShapeKind = 'line' | 'arrow' | 'rectangle' | 'ellipse' | 'triangle';
+
 export interface DrawingPath {
-  points: Point[];
+  points: StrokePoint[];
   color: string;
   width: number;
   isEraser: boolean;
+  layerId: string;   // Pixel eraser paths only cut their own layer
+  shape?: ShapeKind; // Points are exact vertices joined by straight segments (no smoothing)
+  fitted?: boolean;  // Points are simplified knots of a spline (see utils/strokeFit.ts)
+}
+
+// Typed text placed by handwriting recognition (see utils/handwriting.ts)
+export interface TextObject {
+  id: string;
+  text: string;
+  x: number;       // World position of the top left corner
+  y: number;
+  size: number;    // Font size (world units)
+  color: string;
+  layerId: string;
+  t?: number;      // When it was placed (epoch ms), for the time-lapse
+}
+
+// Layers are ordered bottom to top; paths refer to them by id (see utils/layers.ts)
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;  // No drawing, erasing or selecting
+  opacity: number;  // 0..1
+}
+
+// Versioned, importable drawing document (JSON export format)
+export interface CanvasDocument {
+  format: string;
+  version: number;
+  width: number;
+  height: number;
+  layers: Layer[];
+  paths: DrawingPath[];
+  texts: TextObject[];
 }
 
 export interface Particle {
@@ -31,6 +98,64 @@ export interface HandLandmark {
   z: number;
 }
 
+// The user's physical hand (already corrected for the un-mirrored camera input)
+export type Handedness = 'Left' | 'Right';
+
+export interface TrackedHand {
+  landmarks: HandLandmark[];
+  handedness: Handedness;
+}
+
+// User-taught static pose: normalized landmark samples (see utils/poseClassifier.ts)
+export interface PoseTemplate {
+  id: string;
+  name: string;
+  samples: number[][];
+}
+
+// Part of the (mirrored, normalized) camera image the hand is tracked in; it maps to the full screen
+export interface TrackingRegion {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// A user's handwritten glyph for the recognizer (see utils/handwriting.ts); strokes fit a unit box
+export interface GlyphTemplate {
+  id: string;
+  char: string;
+  strokes: Point[][];
+}
+
+// Named set of menu colors (see utils/palettes.ts)
+export interface Palette {
+  id: string;
+  name: string;
+  colors: string[]; // Hex, e.g. '#FF0000'
+}
+
+// Per-user calibration (see utils/calibration.ts)
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  pinchStartThreshold: number;
+  pinchEndThreshold: number;
+  region: TrackingRegion;
+}
+
+// A single sample of the landmark stream, timestamped relative to recording start (ms)
+export interface LandmarkFrame {
+  t: number;
+  hands: TrackedHand[];
+}
+
+export interface LandmarkRecording {
+  version: number;
+  createdAt: string;
+  frames: LandmarkFrame[];
+}
+
 // Global types for MediaPipe loaded via CDN
 declare global {
   interface Window {
@@ -0,0 +1,113 @@
+import { CalibrationProfile, Point, TrackingRegion } from '../types';
+import { DEFAULT_TRACKING_REGION } from './geometry';
+import { Settings } from './settings';
+import { loadJson, saveJson } from './storage';
+
+// Derives personal pinch thresholds and a tracking region from samples taken by the calibration wizard.
+
+export type CalibrationStep = 'open' | 'pinch' | 'reach';
+
+export const CALIBRATION_STEPS: CalibrationStep[] = ['open', 'pinch', 'reach'];
+
+export interface CalibrationSamples {
+  open: number[];   // Pinch ratios with the hand relaxed / open
+  pinch: number[];  // Pinch ratios while pinching
+  reach: Point[];   // Drawing cursor positions (mirrored, normalized) while sweeping the comfortable area
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// The built-in profile: pinch thresholds from the settings, the full default tracking region
+export const createDefaultProfile = (
+  settings: Pick<Settings, 'pinchStartThreshold' | 'pinchEndThreshold'>
+): CalibrationProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  pinchStartThreshold: settings.pinchStartThreshold,
+  pinchEndThreshold: settings.pinchEndThreshold,
+  region: DEFAULT_TRACKING_REGION
+});
+
+// Thresholds sit in the gap between pinched and open ratios, start closer to the pinch
+const START_GAP_FRACTION = 0.3;
+const END_GAP_FRACTION = 0.55;
+const MIN_RATIO_GAP = 0.03;
+
+const REGION_MARGIN = 0.03;    // Slack around the swept area so its edges stay reachable
+const MIN_REGION_SIZE = 0.25;  // Smaller regions amplify jitter too much
+
+export const createCalibrationSamples = (): CalibrationSamples => ({ open: [], pinch: [], reach: [] });
+
+const percentile = (values: number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+export const deriveThresholds = (open: number[], pinch: number[]) => {
+  if (open.length === 0 || pinch.length === 0) throw new Error('Missing open or pinch samples');
+
+  // Robust bounds: ignore the occasional tracking glitch
+  const pinchHigh = percentile(pinch, 0.9);
+  const openLow = percentile(open, 0.1);
+  const gap = openLow - pinchHigh;
+  if (gap < MIN_RATIO_GAP) throw new Error('Open and pinched hand look too similar, try again with a clearer pinch');
+
+  return {
+    pinchStartThreshold: pinchHigh + gap * START_GAP_FRACTION,
+    pinchEndThreshold: pinchHigh + gap * END_GAP_FRACTION
+  };
+};
+
+const growAxis = (min: number, max: number): [number, number] => {
+  const size = Math.max(MIN_REGION_SIZE, max - min + REGION_MARGIN * 2);
+  const center = Math.min(1 - size / 2, Math.max(size / 2, (min + max) / 2));
+  return [center - size / 2, center + size / 2];
+};
+
+export const deriveRegion = (reach: Point[]): TrackingRegion => {
+  if (reach.length === 0) throw new Error('Missing reach samples');
+  const xs = reach.map(p => p.x);
+  const ys = reach.map(p => p.y);
+  const [left, right] = growAxis(percentile(xs, 0.02), percentile(xs, 0.98));
+  const [top, bottom] = growAxis(percentile(ys, 0.02), percentile(ys, 0.98));
+  return { left, top, right, bottom };
+};
+
+export const createProfile = (name: string, samples: CalibrationSamples): CalibrationProfile => ({
+  id: Date.now().toString(36),
+  name,
+  ...deriveThresholds(samples.open, samples.pinch),
+  region: deriveRegion(samples.reach)
+});
+
+// --- PERSISTENCE ---
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Inside the camera image and no smaller than deriveRegion makes it (with some float slack)
+const isRegion = (r: unknown): r is TrackingRegion => {
+  if (typeof r !== 'object' || r === null) return false;
+  const { left, top, right, bottom } = r as Record<string, unknown>;
+  return isFiniteNumber(left) && isFiniteNumber(top) && isFiniteNumber(right) && isFiniteNumber(bottom)
+    && left >= 0 && top >= 0 && right <= 1 && bottom <= 1
+    && right - left >= MIN_REGION_SIZE - 1e-9 && bottom - top >= MIN_REGION_SIZE - 1e-9;
+};
+
+const isCalibrationProfile = (p: unknown): p is CalibrationProfile => {
+  if (typeof p !== 'object' || p === null) return false;
+  const { id, name, pinchStartThreshold, pinchEndThreshold, region } = p as Record<string, unknown>;
+  return typeof id === 'string'
+    && typeof name === 'string'
+    && isFiniteNumber(pinchStartThreshold) && isFiniteNumber(pinchEndThreshold)
+    && pinchStartThreshold > 0 && pinchStartThreshold < pinchEndThreshold
+    && isRegion(region);
+};
+
+export const loadProfiles = (): CalibrationProfile[] => {
+  const profiles = loadJson<unknown>('calibrationProfiles', []);
+  return Array.isArray(profiles) ? profiles.filter(isCalibrationProfile) : [];
+};
+export const saveProfiles = (profiles: CalibrationProfile[]) => saveJson('calibrationProfiles', profiles);
+
+export const loadActiveProfileId = (): string => loadJson('activeProfile', DEFAULT_PROFILE_ID);
+export const saveActiveProfileId = (id: string) => saveJson('activeProfile', id);
@@ -0,0 +1,348 @@
+import { DrawingPath, Layer, Point, StrokePoint, TextObject } from '../types';
+import { Drawing } from './history';
+import { isLayer, isPath, isTextObject } from './document';
+import { isHexColor } from './color';
+
+// Shared board over a WebSocket relay (reference server: server/relay.mjs).
+// The relay numbers every board operation (`seq`), which gives all clients the same total order.
+// Paths are stacked by the seq that first put them on the board, so strokes and pixel erasers
+// overlap identically everywhere however messages interleave. Local paths the relay has not
+// acknowledged yet stack on top. Layers and text objects are few and sent whole; the last writer wins.
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+export interface PeerInfo {
+  id: string;
+  name: string;
+  color: string; // Cursor / label color
+}
+
+// Stored by the relay and replayed to late joiners (as a snapshot)
+export type BoardOp =
+  | { type: 'strokeEnd'; id: string; path: DrawingPath; order?: number } // A path lands on the board; `order` puts a returning path (undo) back in its slot
+  | { type: 'update'; id: string; path: DrawingPath }                   // Changed in place (move / scale / rotate / recolor)
+  | { type: 'erase'; ids: string[] }                                     // Erased, deleted, or cleared with its layer
+  | { type: 'layers'; layers: Layer[] }                                  // The whole layer list; last writer wins
+  | { type: 'texts'; texts: TextObject[] };                              // The whole text list; last writer wins
+
+// Forwarded to the other clients only, never stored
+export type LiveMessage =
+  | { type: 'cursor'; point: Point | null } // World coordinates; null when the hand is gone
+  | { type: 'strokeStart'; id: string; color: string; width: number; isEraser: boolean; layerId: string; points: StrokePoint[] }
+  | { type: 'strokeAppend'; id: string; points: StrokePoint[] }
+  | { type: 'strokeCancel'; id: string };
+
+export interface BoardPath {
+  id: string;
+  order: number;
+  path: DrawingPath;
+}
+
+export type ClientMessage =
+  | { type: 'hello'; peer: PeerInfo }
+  | { type: 'op'; op: BoardOp }
+  | { type: 'live'; live: LiveMessage };
+
+export type ServerMessage =
+  | { type: 'welcome'; seq: number; layers: Layer[] | null; texts?: TextObject[] | null; paths: BoardPath[]; peers: PeerInfo[] }
+  | { type: 'op'; seq: number; order?: number; from: string; op: BoardOp }
+  | { type: 'live'; from: string; live: LiveMessage }
+  | { type: 'join'; peer: PeerInfo }
+  | { type: 'leave'; id: string };
+
+export interface RemotePeer extends PeerInfo {
+  cursor: Point | null;
+  strokes: Map<string, DrawingPath>; // In-progress strokes by id
+}
+
+export interface CollabSession {
+  self: PeerInfo;
+  peers: Map<string, RemotePeer>;
+  ids: WeakMap<DrawingPath, string>; // Board identity of local path objects
+  order: Map<string, number>;        // Stacking key per path id (seq of its first strokeEnd)
+  nextId: number;
+}
+
+const PEER_COLORS = ['#FF6B6B', '#4ECDC4', '#FFD93D', '#C77DFF', '#FF9F1C', '#6BCB77'];
+
+export const createPeer = (name?: string): PeerInfo => {
+  const id = Math.random().toString(36).slice(2, 10);
+  const hash = [...id].reduce((sum, c) => sum + c.charCodeAt(0), 0);
+  return { id, name: name || `Guest ${id.slice(0, 4)}`, color: PEER_COLORS[hash % PEER_COLORS.length] };
+};
+
+export const createCollabSession = (self: PeerInfo): CollabSession => ({
+  self,
+  peers: new Map(),
+  ids: new WeakMap(),
+  order: new Map(),
+  nextId: 0
+});
+
+// --- IDENTITY & ORDER ---
+
+// Unique across clients: prefixed with our peer id
+export const nextPathId = (session: CollabSession): string => `${session.self.id}-${session.nextId++}`;
+
+export const getPathId = (session: CollabSession, path: DrawingPath): string => {
+  let id = session.ids.get(path);
+  if (!id) {
+    id = nextPathId(session);
+    session.ids.set(path, id);
+  }
+  return id;
+};
+
+export const setPathId = (session: CollabSession, path: DrawingPath, id: string) => {
+  session.ids.set(path, id);
+};
+
+const orderOf = (session: CollabSession, path: DrawingPath): number => {
+  const id = session.ids.get(path);
+  return (id === undefined ? undefined : session.order.get(id)) ?? Infinity;
+};
+
+// Stable, so unacknowledged paths keep their local order on top
+export const sortPaths = (session: CollabSession, paths: DrawingPath[]): DrawingPath[] => {
+  return paths
+    .map((path, index) => ({ path, index, order: orderOf(session, path) }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map(({ path }) => path);
+};
+
+const findPath = (session: CollabSession, paths: DrawingPath[], id: string): number => {
+  return paths.findIndex(p => session.ids.get(p) === id);
+};
+
+// --- OUTGOING ---
+
+// Board ops that turn `prev` into `next` (the result of a local edit, undo or redo).
+// A path swapped for a new object in the same slot (the 'replace' command) keeps its id.
+export const diffDrawing = (session: CollabSession, prev: Drawing, next: Drawing): BoardOp[] => {
+  const ops: BoardOp[] = [];
+  const prevSet = new Set(prev.paths);
+  const nextSet = new Set(next.paths);
+
+  const replaced = new Map<DrawingPath, DrawingPath>();
+  if (prev.paths.length === next.paths.length) {
+    prev.paths.forEach((before, i) => {
+      const after = next.paths[i];
+      if (before !== after && !nextSet.has(before) && !prevSet.has(after)) replaced.set(before, after);
+    });
+  }
+
+  // Layers first: added paths may live on a new layer
+  if (prev.layers !== next.layers) ops.push({ type: 'layers', layers: next.layers });
+  if (prev.texts !== next.texts) ops.push({ type: 'texts', texts: next.texts });
+
+  const erased = prev.paths.filter(p => !nextSet.has(p) && !replaced.has(p)).map(p => getPathId(session, p));
+  if (erased.length > 0) ops.push({ type: 'erase', ids: erased });
+
+  replaced.forEach((after, before) => {
+    const id = getPathId(session, before);
+    setPathId(session, after, id);
+    ops.push({ type: 'update', id, path: after });
+  });
+
+  const replacements = new Set(replaced.values());
+  for (const path of next.paths) {
+    if (prevSet.has(path) || replacements.has(path)) continue;
+    // A path coming back (undo of an erase) already has an id, and a place in the stack
+    const id = getPathId(session, path);
+    ops.push({ type: 'strokeEnd', id, path, order: session.order.get(id) });
+  }
+  return ops;
+};
+
+// Everything on the local canvas, for the first client on an empty board
+export const drawingToOps = (session: CollabSession, drawing: Drawing): BoardOp[] => [
+  { type: 'layers', layers: drawing.layers },
+  { type: 'texts', texts: drawing.texts },
+  ...drawing.paths.map(path => ({ type: 'strokeEnd' as const, id: getPathId(session, path), path }))
+];
+
+// --- INCOMING ---
+
+const isRecord = (x: unknown): x is Record<string, unknown> => typeof x === 'object' && x !== null;
+
+const isPoint = (p: unknown): p is Point => isRecord(p) && typeof p.x === 'number' && typeof p.y === 'number';
+
+const isBoardPath = (p: unknown): p is DrawingPath => isPath(p) && typeof p.layerId === 'string';
+
+const isOp = (op: unknown): op is BoardOp => {
+  if (!isRecord(op)) return false;
+  switch (op.type) {
+    case 'strokeEnd':
+      return typeof op.id === 'string' && isBoardPath(op.path) && (op.order === undefined || typeof op.order === 'number');
+    case 'update':
+      return typeof op.id === 'string' && isBoardPath(op.path);
+    case 'erase':
+      return Array.isArray(op.ids) && op.ids.every((id: unknown) => typeof id === 'string');
+    case 'layers':
+      return Array.isArray(op.layers) && op.layers.length > 0 && op.layers.every(isLayer);
+    case 'texts':
+      return Array.isArray(op.texts) && op.texts.every(isTextObject);
+    default:
+      return false;
+  }
+};
+
+const isLive = (live: unknown): live is LiveMessage => {
+  if (!isRecord(live)) return false;
+  switch (live.type) {
+    case 'cursor':
+      return live.point === null || isPoint(live.point);
+    case 'strokeStart':
+      return typeof live.id === 'string' && isBoardPath(live);
+    case 'strokeAppend':
+      return typeof live.id === 'string' && Array.isArray(live.points) && live.points.every(isPoint);
+    case 'strokeCancel':
+      return typeof live.id === 'string';
+    default:
+      return false;
+  }
+};
+
+const isPeer = (p: unknown): p is PeerInfo => isRecord(p) && typeof p.id === 'string' && typeof p.name === 'string' && isHexColor(p.color);
+
+const isWelcomePath = (p: unknown): p is BoardPath => isRecord(p) && typeof p.id === 'string' && typeof p.order === 'number' && isBoardPath(p.path);
+
+const isServerMessage = (msg: unknown): msg is ServerMessage => {
+  if (!isRecord(msg)) return false;
+  switch (msg.type) {
+    case 'welcome':
+      return typeof msg.seq === 'number'
+        && (msg.layers === null || (Array.isArray(msg.layers) && msg.layers.every(isLayer)))
+        && (msg.texts === undefined || msg.texts === null || (Array.isArray(msg.texts) && msg.texts.every(isTextObject)))
+        && Array.isArray(msg.paths) && msg.paths.every(isWelcomePath)
+        && Array.isArray(msg.peers) && msg.peers.every(isPeer);
+    case 'op':
+      return typeof msg.seq === 'number' && typeof msg.from === 'string' && isOp(msg.op);
+    case 'live':
+      return typeof msg.from === 'string' && isLive(msg.live);
+    case 'join':
+      return isPeer(msg.peer);
+    case 'leave':
+      return typeof msg.id === 'string';
+    default:
+      return false;
+  }
+};
+
+// Malformed messages are dropped (null) rather than allowed into the drawing
+export const parseServerMessage = (json: string): ServerMessage | null => {
+  let msg: unknown;
+  try {
+    msg = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  return isServerMessage(msg) ? msg : null;
+};
+
+export const addPeer = (session: CollabSession, peer: PeerInfo) => {
+  session.peers.set(peer.id, { ...peer, cursor: null, strokes: new Map() });
+};
+
+// The board as a late joiner sees it (stacked by order); what the board has never had is kept from `local`
+export const adoptBoard = (session: CollabSession, welcome: Extract<ServerMessage, { type: 'welcome' }>, local: Drawing): Drawing => {
+  session.peers = new Map();
+  welcome.peers.forEach(peer => addPeer(session, peer));
+  const paths = [...welcome.paths].sort((a, b) => a.order - b.order).map(({ id, order, path }) => {
+    setPathId(session, path, id);
+    session.order.set(id, order);
+    return path;
+  });
+  return { paths, layers: welcome.layers ?? local.layers, texts: welcome.texts ?? local.texts };
+};
+
+// Applies a numbered board op. Our own ops come back too: they only settle the stacking order.
+export const receiveOp = (session: CollabSession, drawing: Drawing, msg: Extract<ServerMessage, { type: 'op' }>): Drawing => {
+  const { op } = msg;
+  if (op.type === 'strokeEnd') session.order.set(op.id, msg.order ?? msg.seq);
+  if (msg.from === session.self.id) {
+    return op.type === 'strokeEnd' ? { ...drawing, paths: sortPaths(session, drawing.paths) } : drawing;
+  }
+
+  switch (op.type) {
+    case 'strokeEnd': {
+      session.peers.get(msg.from)?.strokes.delete(op.id);
+      setPathId(session, op.path, op.id);
+      const index = findPath(session, drawing.paths, op.id);
+      const paths = index >= 0 ? drawing.paths.map((p, i) => i === index ? op.path : p) : [...drawing.paths, op.path];
+      return { ...drawing, paths: sortPaths(session, paths) };
+    }
+    case 'update': {
+      const index = findPath(session, drawing.paths, op.id);
+      if (index < 0) return drawing; // Erased meanwhile
+      setPathId(session, op.path, op.id);
+      return { ...drawing, paths: drawing.paths.map((p, i) => i === index ? op.path : p) };
+    }
+    case 'erase': {
+      const ids = new Set(op.ids);
+      return { ...drawing, paths: drawing.paths.filter(p => !ids.has(session.ids.get(p) ?? '')) };
+    }
+    case 'layers':
+      return { ...drawing, layers: op.layers };
+    case 'texts':
+      return { ...drawing, texts: op.texts };
+  }
+};
+
+export const receiveLive = (session: CollabSession, from: string, live: LiveMessage) => {
+  const peer = session.peers.get(from);
+  if (!peer) return;
+  switch (live.type) {
+    case 'cursor':
+      peer.cursor = live.point;
+      break;
+    case 'strokeStart': {
+      const { id, type: _type, ...path } = live;
+      peer.strokes.set(id, path);
+      break;
+    }
+    case 'strokeAppend':
+      peer.strokes.get(live.id)?.points.push(...live.points);
+      break;
+    case 'strokeCancel':
+      peer.strokes.delete(live.id);
+      break;
+  }
+};
+
+// --- CONNECTION ---
+
+export type CollabStatus = 'connecting' | 'live' | 'offline';
+
+export interface CollabLink {
+  send: (msg: ClientMessage) => void;
+  close: () => void;
+}
+
+// Thin wrapper over a browser WebSocket; messages are JSON, one per frame
+export const connectRelay = (
+  url: string,
+  onMessage: (msg: ServerMessage) => void,
+  onStatus: (status: CollabStatus) => void
+): CollabLink => {
+  const socket = new WebSocket(url);
+  onStatus('connecting');
+  socket.onopen = () => onStatus('live');
+  socket.onclose = () => onStatus('offline');
+  socket.onerror = () => console.warn(`Relay connection failed: ${url}`);
+  socket.onmessage = (e: MessageEvent) => {
+    const msg = typeof e.data === 'string' ? parseServerMessage(e.data) : null;
+    if (msg) onMessage(msg);
+    else console.warn('Ignoring malformed relay message');
+  };
+  return {
+    send: (msg: ClientMessage) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+    },
+    close: () => {
+      socket.onclose = null;
+      socket.close();
+      onStatus('offline');
+    }
+  };
+};
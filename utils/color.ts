@@ -0,0 +1,58 @@
+import { Point } from '../types';
+
+// HSV <-> hex for the menu's color wheel. Hue in degrees [0, 360), saturation and value in [0, 1].
+
+export interface Hsv {
+  h: number;
+  s: number;
+  v: number;
+}
+
+// Hue runs clockwise from the top, like CSS conic-gradient(); the wheel's pick math below follows it
+export const HUE_GRADIENT = 'conic-gradient(#FF0000, #FFFF00, #00FF00, #00FFFF, #0000FF, #FF00FF, #FF0000)';
+
+const toHexByte = (c: number) => Math.round(c * 255).toString(16).padStart(2, '0');
+
+export const hsvToHex = ({ h, s, v }: Hsv): string => {
+  const channel = (n: number) => {
+    const k = (n + h / 60) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return `#${toHexByte(channel(5))}${toHexByte(channel(3))}${toHexByte(channel(1))}`.toUpperCase();
+};
+
+// Colors from files and peers must be hex (#RGB, #RRGGBB or #RRGGBBAA): they end up in canvas styles and SVG attributes
+export const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+
+// Unparseable colors read as white
+export const hexToHsv = (hex: string): Hsv => {
+  const match = /^#([0-9a-f]{6})$/i.exec(hex);
+  if (!match) return { h: 0, s: 0, v: 1 };
+  const n = parseInt(match[1], 16);
+  const r = (n >> 16) / 255;
+  const g = ((n >> 8) & 0xff) / 255;
+  const b = (n & 0xff) / 255;
+  const max = Math.max(r, g, b);
+  const d = max - Math.min(r, g, b);
+  let h = 0;
+  if (d > 0) {
+    if (max === r) h = ((g - b) / d + 6) % 6;
+    else if (max === g) h = (b - r) / d + 2;
+    else h = (r - g) / d + 4;
+  }
+  return { h: h * 60, s: max === 0 ? 0 : d / max, v: max };
+};
+
+// Color at an offset from the wheel's centre: the angle picks the hue, the distance the saturation
+export const wheelHsv = (offset: Point, radius: number, v: number): Hsv => ({
+  h: (Math.atan2(offset.x, -offset.y) * 180 / Math.PI + 360) % 360,
+  s: Math.min(1, Math.hypot(offset.x, offset.y) / radius),
+  v
+});
+
+// Inverse of wheelHsv (where the wheel shows a color)
+export const wheelOffset = ({ h, s }: Hsv, radius: number): Point => {
+  const angle = h * Math.PI / 180;
+  return { x: Math.sin(angle) * s * radius, y: -Math.cos(angle) * s * radius };
+};
@@ -0,0 +1,275 @@
+import { AppMode, HandLandmark, Handedness, Point, TrackingRegion } from '../types';
+import { GestureConfig, GestureState } from './gestureEngine';
+import {
+  detectFist,
+  detectOpenPalm,
+  detectPointing,
+  detectThumbLeft,
+  detectThumbRight,
+  detectVictory,
+  distance,
+  getPinchMidpoint,
+  isInSafeZone
+} from './geometry';
+import { getVisibleRect } from './viewport';
+
+// Developer diagnostics for tuning tracking and the gesture machines (the D key). While the HUD is shown
+// the app records every gesture step into a DebugTrace; the HUD draws the hand skeletons, the safe zone and
+// raw vs smoothed cursors over the camera image, plus a panel of live values, a log of mode transitions
+// with their likely cause and a chart of recent pinch ratios against the thresholds.
+
+type Rect = ReturnType<typeof getVisibleRect>;
+
+export type DebugSource = Handedness | 'Pointer';
+
+export interface DebugSample {
+  t: number;                 // Capture time (recording time during a replay)
+  pinchRatio: number | null; // null: hand not tracked
+  mode: AppMode;
+}
+
+export interface DebugTransition {
+  t: number;
+  source: DebugSource;
+  from: AppMode;
+  to: AppMode;
+  reason: string;
+}
+
+export interface DebugTrace {
+  samples: Record<Handedness, DebugSample[]>;           // Oldest first, within DEBUG_WINDOW_MS of the newest
+  landmarks: Record<Handedness, HandLandmark[] | null>; // Last tracked frame
+  modes: Record<DebugSource, AppMode>;                  // Last recorded mode (transitions are logged against it)
+  transitions: DebugTransition[];                       // Newest last
+  lastT: number;
+}
+
+export const DEBUG_WINDOW_MS = 5000; // Pinch-ratio history shown by the chart
+export const DEBUG_HAND_COLORS: Record<Handedness, string> = { Left: '#60A5FA', Right: '#F472B6' };
+
+const MAX_TRANSITIONS = 8;
+const CHART_HEIGHT = 100;
+
+const MODE_COLORS: Record<AppMode, string | null> = {
+  IDLE: null,
+  HOVER: 'rgba(255, 255, 255, 0.25)',
+  DRAWING: '#34D399',
+  GRABBING: '#22D3EE',
+  MENU: '#A78BFA'
+};
+
+// The pose detectors from geometry.ts, as the HUD lists them
+const DETECTORS: [string, (landmarks: HandLandmark[]) => boolean][] = [
+  ['palm', detectOpenPalm],
+  ['point', detectPointing],
+  ['victory', detectVictory],
+  ['fist', detectFist],
+  ['thumb←', detectThumbLeft],
+  ['thumb→', detectThumbRight]
+];
+
+export const createDebugTrace = (): DebugTrace => ({
+  samples: { Left: [], Right: [] },
+  landmarks: { Left: null, Right: null },
+  modes: { Left: 'IDLE', Right: 'IDLE', Pointer: 'IDLE' },
+  transitions: [],
+  lastT: 0
+});
+
+// --- RECORDING ---
+
+const logTransition = (trace: DebugTrace, source: DebugSource, to: AppMode, t: number, reason: (from: AppMode) => string) => {
+  const from = trace.modes[source];
+  trace.modes[source] = to;
+  if (from === to) return;
+  trace.transitions.push({ t, source, from, to, reason: reason(from) });
+  if (trace.transitions.length > MAX_TRANSITIONS) trace.transitions.shift();
+};
+
+// Entering or leaving a pinch takes the debounce frames plus one past the threshold
+const handTransitionReason = (from: AppMode, g: GestureState, tracked: boolean, config: GestureConfig): string => {
+  const ratio = g.pinchRatio.toFixed(3);
+  const frames = `×${config.pinchDebounceFrames + 1}`;
+  if (!tracked) return 'hand lost';
+  if (g.mode === 'IDLE') return 'left the safe zone';
+  if (g.mode === 'MENU') return 'menu open';
+  if (from === 'MENU') return 'menu closed';
+  if (g.mode === 'DRAWING') return `pinch ${ratio} < ${config.pinchStartThreshold.toFixed(3)} ${frames}`;
+  if (g.mode === 'GRABBING') return `fist ${frames}`;
+  if (from === 'DRAWING') {
+    return g.pinchRatio > config.pinchEndThreshold
+      ? `release ${ratio} > ${config.pinchEndThreshold.toFixed(3)} ${frames}`
+      : 'lost the draw role';
+  }
+  if (from === 'GRABBING') return 'fist opened';
+  if (from === 'IDLE') return 'hand in view';
+  return '';
+};
+
+const pointerTransitionReason = (from: AppMode, g: GestureState): string => {
+  switch (g.mode) {
+    case 'IDLE': return 'left the canvas';
+    case 'DRAWING': return 'primary press';
+    case 'GRABBING': return 'secondary press';
+    case 'MENU': return 'menu open';
+    default: return from === 'MENU' ? 'menu closed' : 'released';
+  }
+};
+
+// `landmarks` are the tracker's (the engine may filter them first, see the landmark filter setting)
+export const recordHandStep = (
+  trace: DebugTrace,
+  hand: Handedness,
+  g: GestureState,
+  landmarks: HandLandmark[] | null,
+  t: number,
+  config: GestureConfig
+) => {
+  const series = trace.samples[hand];
+  // A replay runs on its own clock: start over when time goes back
+  if (series.length > 0 && t < series[series.length - 1].t) series.length = 0;
+  series.push({ t, pinchRatio: landmarks ? g.pinchRatio : null, mode: g.mode });
+  while (series[0].t < t - DEBUG_WINDOW_MS) series.shift();
+
+  trace.landmarks[hand] = landmarks;
+  trace.lastT = t;
+  logTransition(trace, hand, g.mode, t, from => handTransitionReason(from, g, !!landmarks, config));
+};
+
+export const recordPointerStep = (trace: DebugTrace, g: GestureState, t: number) => {
+  logTransition(trace, 'Pointer', g.mode, t, from => pointerTransitionReason(from, g));
+};
+
+// --- DESCRIPTION ---
+
+const formatPoint = (p: Point | null) => (p ? `${p.x.toFixed(0)},${p.y.toFixed(0)}` : '-');
+
+export const describeHand = (hand: Handedness, g: GestureState, landmarks: HandLandmark[] | null, config: GestureConfig): string[] => {
+  if (!landmarks) return [`${hand}: ${g.mode} · not tracked`];
+
+  // Same cursor source and mirroring as the engine's safe-zone check
+  const source = g.isMenuOpen ? landmarks[8] : getPinchMidpoint(landmarks);
+  const inZone = isInSafeZone({ x: 1 - source.x, y: source.y }, config.trackingRegion);
+  const lag = g.rawPos && g.smoothedPos ? distance(g.rawPos, g.smoothedPos).toFixed(1) : '-';
+  const detectors = DETECTORS.map(([name, detect]) => `${detect(landmarks) ? '●' : '○'}${name}`).join(' ');
+  return [
+    `${hand}: ${g.mode}${inZone ? '' : ' (outside safe zone)'} · size ${g.handSize.toFixed(3)} · pressure ${g.pressure.toFixed(2)}`,
+    `  pinch ${g.pinchRatio.toFixed(3)} (start ${config.pinchStartThreshold.toFixed(3)} / end ${config.pinchEndThreshold.toFixed(3)}) · debounce ${g.consecutivePinchFrames}/${config.pinchDebounceFrames}`,
+    `  raw ${formatPoint(g.rawPos)} → smoothed ${formatPoint(g.smoothedPos)} (lag ${lag} px)`,
+    `  ${detectors}`
+  ];
+};
+
+// Newest first, aged against the last recorded step
+export const describeTransitions = (trace: DebugTrace): string[] =>
+  [...trace.transitions].reverse().map(({ t, source, from, to, reason }) =>
+    `${((t - trace.lastT) / 1000).toFixed(1).padStart(5)}s ${source} ${from}→${to}${reason ? ` · ${reason}` : ''}`
+  );
+
+// --- DRAWING ---
+
+// Skeleton over the (mirrored) camera image, with MediaPipe's drawing utils when they have loaded
+export const drawHandSkeleton = (ctx: CanvasRenderingContext2D, landmarks: HandLandmark[], width: number, color: string) => {
+  if (!window.drawConnectors || !window.drawLandmarks || !window.HAND_CONNECTIONS) return;
+  ctx.save();
+  ctx.translate(width, 0);
+  ctx.scale(-1, 1);
+  window.drawConnectors(ctx, landmarks, window.HAND_CONNECTIONS, { color, lineWidth: 2 });
+  window.drawLandmarks(ctx, landmarks, { color: '#FFFFFF', fillColor: color, lineWidth: 1, radius: 3 });
+  ctx.restore();
+};
+
+// The tracking region is mapped onto the whole screen, so its outline is where the camera image is reachable
+export const drawSafeZone = (ctx: CanvasRenderingContext2D, region: TrackingRegion, width: number, height: number) => {
+  ctx.save();
+  ctx.strokeStyle = 'rgba(250, 204, 21, 0.7)';
+  ctx.lineWidth = 1;
+  ctx.setLineDash([6, 4]);
+  ctx.strokeRect(region.left * width, region.top * height, (region.right - region.left) * width, (region.bottom - region.top) * height);
+  ctx.restore();
+};
+
+// Raw cursor as a cross, tied to the smoothed one
+export const drawCursorTrace = (ctx: CanvasRenderingContext2D, g: GestureState, color: string) => {
+  if (!g.rawPos || !g.smoothedPos) return;
+  const { x, y } = g.rawPos;
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(x - 6, y);
+  ctx.lineTo(x + 6, y);
+  ctx.moveTo(x, y - 6);
+  ctx.lineTo(x, y + 6);
+  ctx.moveTo(x, y);
+  ctx.lineTo(g.smoothedPos.x, g.smoothedPos.y);
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Pinch ratio per hand over the last DEBUG_WINDOW_MS, with the start / end thresholds and a strip of modes below
+const drawPinchChart = (ctx: CanvasRenderingContext2D, box: Rect, trace: DebugTrace, config: GestureConfig) => {
+  const stripHeight = 4;
+  const plotHeight = box.height - 2 * (stripHeight + 2);
+  const maxRatio = Math.max(0.3, config.pinchEndThreshold * 2);
+  const toX = (t: number) => box.x + box.width * (1 - (trace.lastT - t) / DEBUG_WINDOW_MS);
+  const toY = (ratio: number) => box.y + plotHeight * (1 - Math.min(ratio, maxRatio) / maxRatio);
+
+  ctx.font = '10px monospace';
+  ctx.textAlign = 'right';
+  ctx.setLineDash([3, 3]);
+  ctx.lineWidth = 1;
+  for (const [label, ratio, color] of [['start', config.pinchStartThreshold, '#34D399'], ['end', config.pinchEndThreshold, '#FBBF24']] as const) {
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(box.x, toY(ratio));
+    ctx.lineTo(box.x + box.width, toY(ratio));
+    ctx.stroke();
+    ctx.fillStyle = color;
+    ctx.fillText(label, box.x + box.width - 2, toY(ratio) - 2);
+  }
+  ctx.setLineDash([]);
+
+  (['Left', 'Right'] as Handedness[]).forEach((hand, i) => {
+    const series = trace.samples[hand];
+    // Untracked samples break the line
+    ctx.strokeStyle = DEBUG_HAND_COLORS[hand];
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    let drawing = false;
+    for (const { t, pinchRatio } of series) {
+      if (pinchRatio === null) {
+        drawing = false;
+      } else if (drawing) {
+        ctx.lineTo(toX(t), toY(pinchRatio));
+      } else {
+        ctx.moveTo(toX(t), toY(pinchRatio));
+        drawing = true;
+      }
+    }
+    ctx.stroke();
+
+    const stripY = box.y + plotHeight + 2 + i * (stripHeight + 2);
+    series.forEach((sample, j) => {
+      const color = MODE_COLORS[sample.mode];
+      if (!color) return;
+      const end = j + 1 < series.length ? series[j + 1].t : trace.lastT;
+      ctx.fillStyle = color;
+      ctx.fillRect(toX(sample.t), stripY, Math.max(1, toX(end) - toX(sample.t)), stripHeight);
+    });
+  });
+};
+
+export const drawDebugHud = (ctx: CanvasRenderingContext2D, box: Rect, lines: string[], trace: DebugTrace, config: GestureConfig) => {
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+
+  ctx.font = '12px monospace';
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#FFFFFF';
+  lines.forEach((line, i) => ctx.fillText(line, box.x + 8, box.y + 16 + i * 15));
+
+  drawPinchChart(ctx, { x: box.x + 8, y: box.y + box.height - CHART_HEIGHT - 8, width: box.width - 16, height: CHART_HEIGHT }, trace, config);
+  ctx.restore();
+};
@@ -0,0 +1,127 @@
+import { CanvasDocument, DrawingPath, Layer, ShapeKind, StrokePoint, TextObject, Viewport } from '../types';
+import { createDefaultLayer } from './layers';
+import { isHexColor } from './color';
+
+export const DOCUMENT_FORMAT = 'gesture-canvas';
+// v2: points may carry a pressure (variable-width strokes) and paths a shape
+// v3: layers; paths name their layer. Older documents load into a single default layer.
+// v4: paths may be fitted (simplified knots of a spline)
+// v5: points may carry the time they were drawn (`t`)
+// v6: text objects (recognized handwriting)
+export const DOCUMENT_VERSION = 6;
+
+const SHAPE_KINDS: ShapeKind[] = ['line', 'arrow', 'rectangle', 'ellipse', 'triangle'];
+
+// Texts left on a deleted layer (kept for its undo) are not part of the document
+export const createDocument = (paths: DrawingPath[], layers: Layer[], texts: TextObject[], viewport: Viewport): CanvasDocument => ({
+  format: DOCUMENT_FORMAT,
+  version: DOCUMENT_VERSION,
+  width: viewport.width,
+  height: viewport.height,
+  layers: layers.map(({ id, name, visible, locked, opacity }) => ({ id, name, visible, locked, opacity })),
+  paths: paths.map(({ points, color, width, isEraser, layerId, shape, fitted }) => ({
+    points: points.map(({ x, y, pressure, t }) => ({
+      x,
+      y,
+      ...(pressure !== undefined ? { pressure } : {}),
+      ...(t !== undefined ? { t } : {})
+    })),
+    color,
+    width,
+    isEraser,
+    layerId,
+    ...(shape ? { shape } : {}),
+    ...(fitted ? { fitted } : {})
+  })),
+  texts: texts
+    .filter(text => layers.some(l => l.id === text.layerId))
+    .map(({ id, text, x, y, size, color, layerId, t }) => ({ id, text, x, y, size, color, layerId, ...(t !== undefined ? { t } : {}) }))
+});
+
+export const serializeDocument = (doc: CanvasDocument): string => {
+  return JSON.stringify(doc);
+};
+
+const isStrokePoint = (pt: unknown): pt is StrokePoint => {
+  if (typeof pt !== 'object' || pt === null) return false;
+  const { x, y, pressure, t } = pt as Record<string, unknown>;
+  return typeof x === 'number' && typeof y === 'number'
+    && (pressure === undefined || typeof pressure === 'number')
+    && (t === undefined || typeof t === 'number');
+};
+
+// Documents before v3 have no layers, so the layer id is checked by the caller
+type PathFields = Omit<DrawingPath, 'layerId'> & { layerId?: unknown };
+
+export const isPath = (p: unknown): p is PathFields => {
+  if (typeof p !== 'object' || p === null) return false;
+  const { points, color, width, isEraser, shape, fitted } = p as Record<string, unknown>;
+  return Array.isArray(points) && points.every(isStrokePoint)
+    && isHexColor(color)
+    && typeof width === 'number'
+    && typeof isEraser === 'boolean'
+    && (shape === undefined || SHAPE_KINDS.some(kind => kind === shape))
+    && (fitted === undefined || typeof fitted === 'boolean');
+};
+
+export const isTextObject = (t: unknown): t is TextObject => {
+  if (typeof t !== 'object' || t === null) return false;
+  const { id, text, x, y, size, color, layerId, t: time } = t as Record<string, unknown>;
+  return typeof id === 'string'
+    && typeof text === 'string'
+    && typeof x === 'number'
+    && typeof y === 'number'
+    && typeof size === 'number' && size > 0
+    && isHexColor(color)
+    && typeof layerId === 'string'
+    && (time === undefined || typeof time === 'number');
+};
+
+export const isLayer = (l: unknown): l is Layer => {
+  if (typeof l !== 'object' || l === null) return false;
+  const { id, name, visible, locked, opacity } = l as Record<string, unknown>;
+  return typeof id === 'string'
+    && typeof name === 'string'
+    && typeof visible === 'boolean'
+    && typeof locked === 'boolean'
+    && typeof opacity === 'number' && opacity >= 0 && opacity <= 1;
+};
+
+export const parseDocument = (json: string): CanvasDocument => {
+  const data: unknown = JSON.parse(json);
+  const { format, version, width, height, layers, paths, texts } = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  if (format !== DOCUMENT_FORMAT) {
+    throw new Error('Not a gesture-canvas document');
+  }
+  if (typeof version !== 'number' || version > DOCUMENT_VERSION) {
+    throw new Error(`Unsupported document version: ${version}`);
+  }
+  if (typeof width !== 'number' || typeof height !== 'number' || !Array.isArray(paths)) {
+    throw new Error('Malformed document');
+  }
+  const checkedPaths = paths.map((p: unknown, i: number) => {
+    if (!isPath(p)) throw new Error(`Malformed path at index ${i}`);
+    return p;
+  });
+  const doc = { format, version, width, height };
+
+  if (version < 3) {
+    const layer = createDefaultLayer();
+    return { ...doc, layers: [layer], paths: checkedPaths.map(p => ({ ...p, layerId: layer.id })), texts: [] };
+  }
+  if (!Array.isArray(layers) || layers.length === 0 || !layers.every(isLayer)) {
+    throw new Error('Malformed layers');
+  }
+  const layerIds = new Set(layers.map(l => l.id));
+  const layeredPaths = checkedPaths.map(({ layerId, ...p }, i) => {
+    if (typeof layerId !== 'string' || !layerIds.has(layerId)) throw new Error(`Unknown layer for path at index ${i}`);
+    return { ...p, layerId };
+  });
+  if (version < 6) return { ...doc, layers, paths: layeredPaths, texts: [] };
+  if (!Array.isArray(texts)) throw new Error('Malformed texts');
+  const checkedTexts = texts.map((t: unknown, i: number) => {
+    if (!isTextObject(t) || !layerIds.has(t.layerId)) throw new Error(`Malformed text at index ${i}`);
+    return t;
+  });
+  return { ...doc, layers, paths: layeredPaths, texts: checkedTexts };
+};
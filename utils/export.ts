@@ -0,0 +1,169 @@
+import { DrawingPath, Layer, TextObject, ViewTransform, Viewport } from '../types';
+import { drawInk, drawLayers, drawTexts, getPathOutline, TEXT_FONT_FAMILY } from './render';
+import { getLayerPaths } from './layers';
+import { IDENTITY_VIEW, getVisibleRect } from './viewport';
+
+// What the menu / shortcuts can export ('json' is the document, see document.ts)
+export type ExportKind = 'svg' | 'png' | 'png-camera' | 'json';
+
+// --- SVG ---
+
+const fmt = (n: number): string => String(Math.round(n * 100) / 100);
+
+// Filled outline (see strokeOutline.ts): polygons plus cap / corner discs
+const svgOutline = (path: DrawingPath, color: string): string => {
+  const { polygons, discs } = getPathOutline(path);
+  const parts: string[] = [];
+  for (const polygon of polygons) {
+    const d = polygon.map((p, i) => `${i === 0 ? 'M' : 'L'}${fmt(p.x)} ${fmt(p.y)}`).join(' ');
+    parts.push(`<path d="${d} Z"/>`);
+  }
+  for (const { x, y, r } of discs) {
+    parts.push(`<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(r)}"/>`);
+  }
+  return `<g fill="${escapeXml(color)}">${parts.join('')}</g>`;
+};
+
+// Every attribute value and text node goes through this (colors come from files and peers)
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Pixel eraser paths only affect ink drawn before them in their layer, so everything preceding
+// a run of eraser paths is wrapped in a group masked by those erasers (groups nest).
+// Masks are appended to the shared defs.
+const svgLayer = (paths: DrawingPath[], rect: ReturnType<typeof getVisibleRect>, defs: string[]): string => {
+  let body = '';
+  let erasers: string[] = [];
+
+  const flushErasers = () => {
+    if (erasers.length === 0) return;
+    const id = `erase-${defs.length}`;
+    defs.push(
+      `<mask id="${id}" maskUnits="userSpaceOnUse" x="${fmt(rect.x)}" y="${fmt(rect.y)}" width="${fmt(rect.width)}" height="${fmt(rect.height)}">` +
+      `<rect x="${fmt(rect.x)}" y="${fmt(rect.y)}" width="${fmt(rect.width)}" height="${fmt(rect.height)}" fill="white"/>` +
+      erasers.join('') +
+      `</mask>`
+    );
+    body = `<g mask="url(#${id})">${body}</g>`;
+    erasers = [];
+  };
+
+  for (const path of paths) {
+    if (path.points.length === 0) continue;
+    if (path.isEraser) {
+      erasers.push(svgOutline(path, 'black'));
+    } else {
+      flushErasers();
+      body += svgOutline(path, path.color);
+    }
+  }
+  flushErasers();
+  return body;
+};
+
+// Text objects stay live text; pixel erasers do not reach them (as on the canvas)
+const svgTexts = (texts: TextObject[]): string => texts.map(t =>
+  `<text x="${fmt(t.x)}" y="${fmt(t.y)}" font-size="${fmt(t.size)}" font-weight="bold" font-family="${escapeXml(TEXT_FONT_FAMILY)}" ` +
+  `dominant-baseline="text-before-edge" fill="${escapeXml(t.color)}" xml:space="preserve">${escapeXml(t.text)}</text>`
+).join('');
+
+// Each visible layer is a group with its opacity.
+// Paths stay in world coordinates; the viewBox frames what the view currently shows.
+export const exportSvg = (
+  paths: DrawingPath[],
+  layers: Layer[],
+  texts: TextObject[],
+  viewport: Viewport,
+  view: ViewTransform = IDENTITY_VIEW
+): string => {
+  const rect = getVisibleRect(viewport, view);
+  const box = `${fmt(rect.x)} ${fmt(rect.y)} ${fmt(rect.width)} ${fmt(rect.height)}`;
+  const defs: string[] = [];
+  const groups = layers
+    .filter(layer => layer.visible)
+    .map(layer => {
+      const body = svgLayer(getLayerPaths(paths, layer.id), rect, defs) + svgTexts(texts.filter(t => t.layerId === layer.id));
+      return layer.opacity < 1 ? `<g opacity="${fmt(layer.opacity)}">${body}</g>` : `<g>${body}</g>`;
+    });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${viewport.width}" height="${viewport.height}" viewBox="${box}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    groups.join(''),
+    `</svg>`
+  ].join('\n');
+};
+
+// --- PNG ---
+
+// Renders the ink (and optionally the mirrored camera frame behind it) to a PNG blob.
+// Without a background the PNG is transparent outside the strokes.
+export const exportPng = (
+  paths: DrawingPath[],
+  layers: Layer[],
+  texts: TextObject[],
+  viewport: Viewport,
+  view: ViewTransform = IDENTITY_VIEW,
+  background: CanvasImageSource | null = null
+): Promise<Blob> => {
+  const { width, height } = viewport;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  if (background) {
+    ctx.save();
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+    ctx.drawImage(background, 0, 0, width, height);
+    ctx.restore();
+  }
+
+  // Erasers must not cut through the camera frame (or other layers), so each layer is drawn on its own
+  const scratch = document.createElement('canvas');
+  scratch.width = width;
+  scratch.height = height;
+  drawLayers(ctx, scratch, layers, view, (layerCtx, layer) => {
+    drawInk(layerCtx, getLayerPaths(paths, layer.id));
+    drawTexts(layerCtx, texts.filter(t => t.layerId === layer.id));
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+};
+
+// --- VIDEO ---
+
+// Preferred first; the plain type lets the browser pick
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export interface CanvasRecorder {
+  stop: () => Promise<Blob>; // Resolves with the WebM once the recorder has flushed
+}
+
+// Records whatever is drawn on `canvas` from now until stop()
+export const recordCanvas = (canvas: HTMLCanvasElement, fps: number): CanvasRecorder => {
+  if (typeof MediaRecorder === 'undefined') throw new Error('Video recording is not supported in this browser');
+  const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('WebM recording is not supported in this browser');
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start(1000);
+
+  return {
+    stop: () => new Promise(resolve => {
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+      };
+      recorder.stop();
+    })
+  };
+};
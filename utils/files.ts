@@ -0,0 +1,34 @@
+// Browser file helpers (download / open dialogs)
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (text: string, filename: string, type = 'application/json') => {
+  downloadBlob(new Blob([text], { type }), filename);
+};
+
+// Opens the native file dialog. Resolves null if the user cancels.
+export const pickFile = (accept: string): Promise<File | null> => {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => resolve(input.files && input.files[0] ? input.files[0] : null);
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+};
+
+// Filesystem-safe timestamp for generated filenames
+export const fileTimestamp = (): string => {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+};
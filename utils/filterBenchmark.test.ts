@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { HandLandmark, LandmarkRecording } from '../types';
+import { benchmarkFilters } from './filterBenchmark';
+import { FILTER_KINDS } from './filters';
+
+const VIEWPORT = { width: 1280, height: 720 };
+const FRAME_MS = 33;
+
+// Deterministic noise in [-1, 1]
+const noise = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 1073741824 - 1;
+  };
+};
+
+// A right hand circling slowly, every landmark jittered by the same amount
+const circlingHand = (frames: number, jitter: number): LandmarkRecording => {
+  const rand = noise(7);
+  return {
+    version: 2,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    frames: Array.from({ length: frames }, (_, i) => {
+      const angle = i / 60 * Math.PI;
+      const cx = 0.5 + 0.2 * Math.cos(angle);
+      const cy = 0.5 + 0.2 * Math.sin(angle);
+      const landmarks: HandLandmark[] = Array.from({ length: 21 }, (_, j) => ({
+        x: cx + (j % 5) * 0.01 + rand() * jitter,
+        y: cy - Math.floor(j / 5) * 0.02 + rand() * jitter,
+        z: 0
+      }));
+      return { t: i * FRAME_MS, hands: [{ handedness: 'Right' as const, landmarks }] };
+    })
+  };
+};
+
+describe('benchmarkFilters', () => {
+  const results = benchmarkFilters(circlingHand(300, 0.002), VIEWPORT);
+
+  it('covers every cursor and landmark filter for the hands in the recording', () => {
+    expect(results.every(r => r.hand === 'Right' && r.samples === 300)).toBe(true);
+    expect(results.filter(r => r.stage === 'cursor').map(r => r.name)).toEqual(FILTER_KINDS);
+    expect(results.filter(r => r.stage === 'landmarks').map(r => r.name)).toEqual(FILTER_KINDS);
+  });
+
+  it('measures no lag or error without a filter', () => {
+    for (const r of results.filter(r => r.name === 'none')) {
+      expect(r.lagMs).toBe(0);
+      expect(r.errorPx).toBe(0);
+    }
+  });
+
+  it('finds the smoothing filters smoother than the raw signal at either stage', () => {
+    for (const stage of ['cursor', 'landmarks'] as const) {
+      const raw = results.find(r => r.stage === stage && r.name === 'none')!;
+      for (const r of results.filter(r => r.stage === stage && r.name !== 'none')) {
+        expect(r.jitterPx).toBeLessThan(raw.jitterPx);
+      }
+    }
+  });
+});
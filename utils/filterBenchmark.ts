@@ -0,0 +1,141 @@
+import { HandLandmark, Handedness, LandmarkRecording, Point, Viewport } from '../types';
+import { getPinchMidpoint } from './geometry';
+import { CURSOR_FILTERS, FilterSpec, FilterState, LANDMARK_FILTERS, stepFilter } from './filters';
+
+// Replays recorded landmarks through the cursor and landmark filters and measures how they trade jitter
+// for lag. Runs in the app (B) and headless (npm run benchmark:filters).
+
+// Where a filter sits: on the cursor (pixels), or on all 21 landmarks before the cursor is taken from them
+export type FilterStage = 'cursor' | 'landmarks';
+
+export interface FilterBenchmarkResult {
+  hand: Handedness;
+  stage: FilterStage;
+  name: string;
+  samples: number;
+  jitterPx: number;  // RMS of the second difference (frame-to-frame wobble), lower is smoother
+  lagMs: number;     // Delay that best aligns the output with the raw signal
+  errorPx: number;   // RMS distance to the raw signal
+}
+
+const MAX_LAG_FRAMES = 15;
+
+interface TrackSample {
+  t: number;
+  values: number[];
+}
+
+// Continuous runs of one hand's landmarks, flattened to x, y, z per landmark
+const extractTracks = (recording: LandmarkRecording, hand: Handedness): TrackSample[][] => {
+  const tracks: TrackSample[][] = [];
+  let current: TrackSample[] = [];
+  for (const frame of recording.frames) {
+    const tracked = frame.hands.find(h => h.handedness === hand);
+    if (!tracked) {
+      if (current.length > 0) tracks.push(current);
+      current = [];
+      continue;
+    }
+    current.push({ t: frame.t, values: tracked.landmarks.flatMap(l => [l.x, l.y, l.z]) });
+  }
+  if (current.length > 0) tracks.push(current);
+  return tracks;
+};
+
+// The drawing cursor from flattened landmarks: pinch midpoint, mirrored, in pixels
+const toCursor = (values: number[], viewport: Viewport): Point => {
+  const landmarks: HandLandmark[] = [];
+  for (let i = 0; i < values.length; i += 3) landmarks.push({ x: values[i], y: values[i + 1], z: values[i + 2] });
+  const mid = getPinchMidpoint(landmarks);
+  return { x: (1 - mid.x) * viewport.width, y: mid.y * viewport.height };
+};
+
+// Each track through a fresh filter; `dims` groups the values into points
+const runFilter = (tracks: TrackSample[][], spec: FilterSpec, dims: number): number[][][] =>
+  tracks.map(track => {
+    let state: FilterState | null = null;
+    return track.map(({ t, values }) => {
+      const step = stepFilter(spec, state, values, t, dims);
+      state = step.state;
+      return step.values;
+    });
+  });
+
+const medianFrameInterval = (tracks: { t: number }[][]): number => {
+  const intervals: number[] = [];
+  for (const track of tracks) {
+    for (let i = 1; i < track.length; i++) intervals.push(track[i].t - track[i - 1].t);
+  }
+  if (intervals.length === 0) return 0;
+  intervals.sort((a, b) => a - b);
+  return intervals[intervals.length >> 1];
+};
+
+const measure = (raw: Point[][], out: Point[][]) => {
+  let jitterSum = 0;
+  let jitterCount = 0;
+  let errorSum = 0;
+  let errorCount = 0;
+  out.forEach((track, k) => {
+    track.forEach((p, i) => {
+      errorSum += (p.x - raw[k][i].x) ** 2 + (p.y - raw[k][i].y) ** 2;
+      errorCount++;
+      if (i < 2) return;
+      const ax = p.x - 2 * track[i - 1].x + track[i - 2].x;
+      const ay = p.y - 2 * track[i - 1].y + track[i - 2].y;
+      jitterSum += ax * ax + ay * ay;
+      jitterCount++;
+    });
+  });
+
+  // Lag: the frame shift at which the output matches the raw signal best
+  let bestShift = 0;
+  let bestError = Infinity;
+  for (let shift = 0; shift <= MAX_LAG_FRAMES; shift++) {
+    let sum = 0;
+    let count = 0;
+    out.forEach((track, k) => {
+      for (let i = shift; i < track.length; i++) {
+        sum += (track[i].x - raw[k][i - shift].x) ** 2 + (track[i].y - raw[k][i - shift].y) ** 2;
+        count++;
+      }
+    });
+    if (count > 0 && sum / count < bestError) {
+      bestError = sum / count;
+      bestShift = shift;
+    }
+  }
+
+  return {
+    jitterPx: jitterCount > 0 ? Math.sqrt(jitterSum / jitterCount) : 0,
+    errorPx: errorCount > 0 ? Math.sqrt(errorSum / errorCount) : 0,
+    lagFrames: bestShift
+  };
+};
+
+// Every filter of both stages, for each hand the recording has; both stages are measured on the cursor
+export const benchmarkFilters = (
+  recording: LandmarkRecording,
+  viewport: Viewport,
+  hands: Handedness[] = ['Left', 'Right'],
+  cursorFilters: Record<string, FilterSpec> = CURSOR_FILTERS,
+  landmarkFilters: Record<string, FilterSpec> = LANDMARK_FILTERS
+): FilterBenchmarkResult[] => hands.flatMap(hand => {
+  const tracks = extractTracks(recording, hand);
+  const raw = tracks.map(track => track.map(s => toCursor(s.values, viewport)));
+  const cursorTracks = tracks.map((track, k) => track.map(({ t }, i) => ({ t, values: [raw[k][i].x, raw[k][i].y] })));
+  const frameMs = medianFrameInterval(tracks);
+  const samples = raw.reduce((n, track) => n + track.length, 0);
+  if (samples === 0) return [];
+
+  const result = (stage: FilterStage, name: string, out: Point[][]): FilterBenchmarkResult => {
+    const { jitterPx, errorPx, lagFrames } = measure(raw, out);
+    return { hand, stage, name, samples, jitterPx, errorPx, lagMs: lagFrames * frameMs };
+  };
+  return [
+    ...Object.entries(cursorFilters).map(([name, spec]) =>
+      result('cursor', name, runFilter(cursorTracks, spec, 2).map(track => track.map(([x, y]) => ({ x, y }))))),
+    ...Object.entries(landmarkFilters).map(([name, spec]) =>
+      result('landmarks', name, runFilter(tracks, spec, 3).map(track => track.map(values => toCursor(values, viewport)))))
+  ];
+});
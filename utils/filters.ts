@@ -0,0 +1,154 @@
+import { lerp } from './geometry';
+
+// Signal filters for tracking data. Each filter is a pure step function over a vector of
+// values, so filter state can live inside the (pure) gesture engine state.
+// Components are grouped into points of `dims` values (2 for a cursor, 3 for x/y/z landmarks);
+// speed-dependent filters use the speed of each point rather than of single components.
+
+export type FilterKind = 'none' | 'dynamicAlpha' | 'oneEuro' | 'kalman';
+
+export type FilterSpec =
+  | { kind: 'none' }
+  // The original cursor smoothing: alpha scales with per-frame speed (units per frame)
+  | { kind: 'dynamicAlpha'; minAlpha: number; maxAlpha: number; maxSpeed: number }
+  // One Euro filter (Casiez et al. 2012): cutoff (Hz) rises with speed (units per second)
+  | { kind: 'oneEuro'; minCutoff: number; beta: number; dCutoff: number }
+  // Constant-velocity Kalman filter per component
+  | { kind: 'kalman'; processNoise: number; measurementNoise: number };
+
+export interface FilterState {
+  kind: FilterKind;
+  t: number;          // Timestamp of the last sample (ms)
+  values: number[];   // Last filtered output
+  derivs: number[];   // One Euro: filtered derivative / Kalman: velocity estimate
+  cov: number[][];    // Kalman: [p00, p01, p10, p11] per component
+}
+
+export interface FilterStep {
+  state: FilterState;
+  values: number[];
+}
+
+export const FILTER_KINDS: FilterKind[] = ['none', 'dynamicAlpha', 'oneEuro', 'kalman'];
+
+// Defaults for cursor positions in screen pixels
+export const CURSOR_FILTERS: Record<FilterKind, FilterSpec> = {
+  none: { kind: 'none' },
+  dynamicAlpha: { kind: 'dynamicAlpha', minAlpha: 0.1, maxAlpha: 0.8, maxSpeed: 80 },
+  oneEuro: { kind: 'oneEuro', minCutoff: 1.0, beta: 0.007, dCutoff: 1.0 },
+  kalman: { kind: 'kalman', processNoise: 5e5, measurementNoise: 9 },
+};
+
+// Defaults for normalized landmark coordinates (0..1)
+export const LANDMARK_FILTERS: Record<FilterKind, FilterSpec> = {
+  none: { kind: 'none' },
+  dynamicAlpha: { kind: 'dynamicAlpha', minAlpha: 0.1, maxAlpha: 0.8, maxSpeed: 0.12 },
+  oneEuro: { kind: 'oneEuro', minCutoff: 1.0, beta: 5, dCutoff: 1.0 },
+  kalman: { kind: 'kalman', processNoise: 0.5, measurementNoise: 1e-5 },
+};
+
+const initState = (kind: FilterKind, values: number[], t: number): FilterState => ({
+  kind,
+  t,
+  values: [...values],
+  derivs: values.map(() => 0),
+  cov: kind === 'kalman' ? values.map(() => [1, 0, 0, 1]) : []
+});
+
+// Speed of each point (norm over its `dims` components of the given per-component rates)
+const pointSpeeds = (rates: number[], dims: number): number[] => {
+  const speeds: number[] = [];
+  for (let i = 0; i < rates.length; i += dims) {
+    let sq = 0;
+    for (let d = 0; d < dims; d++) sq += rates[i + d] * rates[i + d];
+    const speed = Math.sqrt(sq);
+    for (let d = 0; d < dims; d++) speeds.push(speed);
+  }
+  return speeds;
+};
+
+const smoothingFactor = (cutoff: number, dt: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export const stepFilter = (
+  spec: FilterSpec,
+  prev: FilterState | null,
+  values: number[],
+  t: number,
+  dims: number = values.length
+): FilterStep => {
+  // Start over on the first sample, a filter switch or a shape change
+  if (!prev || prev.kind !== spec.kind || prev.values.length !== values.length) {
+    const state = initState(spec.kind, values, t);
+    return { state, values: [...values] };
+  }
+
+  // Seconds since the last sample (guard against duplicate timestamps)
+  const dt = Math.max(1e-3, (t - prev.t) / 1000);
+
+  switch (spec.kind) {
+    case 'none': {
+      const state = initState('none', values, t);
+      return { state, values: [...values] };
+    }
+
+    case 'dynamicAlpha': {
+      // Slow movement -> alpha low -> Smooth, fast movement -> alpha high -> Responsive
+      const deltas = values.map((v, i) => v - prev.values[i]);
+      const speeds = pointSpeeds(deltas, dims);
+      const out = values.map((v, i) => {
+        const alpha = lerp(spec.minAlpha, spec.maxAlpha, Math.min(1, speeds[i] / spec.maxSpeed));
+        return lerp(prev.values[i], v, alpha);
+      });
+      return { state: { ...prev, t, values: out }, values: out };
+    }
+
+    case 'oneEuro': {
+      const aD = smoothingFactor(spec.dCutoff, dt);
+      const derivs = values.map((v, i) => lerp(prev.derivs[i], (v - prev.values[i]) / dt, aD));
+      const speeds = pointSpeeds(derivs, dims);
+      const out = values.map((v, i) => {
+        const cutoff = spec.minCutoff + spec.beta * speeds[i];
+        return lerp(prev.values[i], v, smoothingFactor(cutoff, dt));
+      });
+      return { state: { ...prev, t, values: out, derivs }, values: out };
+    }
+
+    case 'kalman': {
+      // Continuous white-noise acceleration model
+      const q = spec.processNoise;
+      const r = spec.measurementNoise;
+      const out: number[] = [];
+      const derivs: number[] = [];
+      const cov: number[][] = [];
+      values.forEach((z, i) => {
+        const [p00, p01, p10, p11] = prev.cov[i];
+
+        // Predict
+        const x = prev.values[i] + prev.derivs[i] * dt;
+        const v = prev.derivs[i];
+        const pp00 = p00 + dt * (p10 + p01) + dt * dt * p11 + q * dt ** 4 / 4;
+        const pp01 = p01 + dt * p11 + q * dt ** 3 / 2;
+        const pp10 = p10 + dt * p11 + q * dt ** 3 / 2;
+        const pp11 = p11 + q * dt * dt;
+
+        // Update (position is observed)
+        const sInv = 1 / (pp00 + r);
+        const k0 = pp00 * sInv;
+        const k1 = pp10 * sInv;
+        const y = z - x;
+        out.push(x + k0 * y);
+        derivs.push(v + k1 * y);
+        cov.push([
+          (1 - k0) * pp00,
+          (1 - k0) * pp01,
+          pp10 - k1 * pp00,
+          pp11 - k1 * pp01
+        ]);
+      });
+      return { state: { kind: 'kalman', t, values: out, derivs, cov }, values: out };
+    }
+  }
+};
@@ -1,4 +1,4 @@
-import { HandLandmark, Point } from '../types';
+import { HandLandmark, Point, TrackingRegion } from '../types';
 
 // Squared distance is faster (avoids Math.sqrt) for simple comparison
 export const distanceSq = (p1: HandLandmark | Point, p2: HandLandmark | Point): number => {
@@ -72,7 +72,104 @@ export const detectVictory = (landmarks: HandLandmark[]): boolean => {
   return index && middle && !ring && !pinky;
 };
 
+// All four fingers curled with the thumb tucked over them (grab)
+export const detectFist = (landmarks: HandLandmark[]): boolean => {
+  if (isFingerExtended(landmarks, 8, 6)) return false;
+  if (isFingerExtended(landmarks, 12, 10)) return false;
+  if (isFingerExtended(landmarks, 16, 14)) return false;
+  if (isFingerExtended(landmarks, 20, 18)) return false;
+
+  // A sideways thumb is undo / redo, not a fist
+  return distance(landmarks[4], landmarks[10]) < getHandSize(landmarks) * 0.6;
+};
+
+// Thumb pointing sideways with the other four fingers curled.
+// Returns the direction in SCREEN space (the camera feed is mirrored): -1 left, 1 right, 0 none.
+const detectThumbSideways = (landmarks: HandLandmark[]): number => {
+  if (isFingerExtended(landmarks, 8, 6)) return 0;
+  if (isFingerExtended(landmarks, 12, 10)) return 0;
+  if (isFingerExtended(landmarks, 16, 14)) return 0;
+  if (isFingerExtended(landmarks, 20, 18)) return 0;
+
+  // Thumb MCP -> Tip must be mostly horizontal and clearly extended
+  const dx = landmarks[4].x - landmarks[2].x;
+  const dy = landmarks[4].y - landmarks[2].y;
+  if (Math.abs(dx) < Math.abs(dy) * 2) return 0;
+  if (Math.abs(dx) < getHandSize(landmarks) * 0.4) return 0;
+
+  return dx > 0 ? -1 : 1;
+};
+
+export const detectThumbLeft = (landmarks: HandLandmark[]): boolean => {
+  return detectThumbSideways(landmarks) === -1;
+};
+
+export const detectThumbRight = (landmarks: HandLandmark[]): boolean => {
+  return detectThumbSideways(landmarks) === 1;
+};
+
 // Region of Interest Check (Avoid edge distortion)
-export const isInSafeZone = (point: Point): boolean => {
-  return point.x > 0.05 && point.x < 0.95 && point.y > 0.05 && point.y < 0.95;
-};
\ No newline at end of file
+export const DEFAULT_TRACKING_REGION: TrackingRegion = { left: 0.05, top: 0.05, right: 0.95, bottom: 0.95 };
+
+export const isInSafeZone = (point: Point, region: TrackingRegion = DEFAULT_TRACKING_REGION): boolean => {
+  return point.x > region.left && point.x < region.right && point.y > region.top && point.y < region.bottom;
+};
+
+// Stretches the tracking region over the unit square (so the whole screen is reachable from inside it)
+export const mapFromRegion = (point: Point, region: TrackingRegion): Point => ({
+  x: (point.x - region.left) / (region.right - region.left),
+  y: (point.y - region.top) / (region.bottom - region.top)
+});
+
+// Distance from point p to segment ab
+export const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return distance(p, a);
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return distance(p, { x: a.x + t * dx, y: a.y + t * dy });
+};
+
+const cross = (o: Point, a: Point, b: Point): number => {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+};
+
+const segmentsIntersect = (a: Point, b: Point, c: Point, d: Point): boolean => {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+// Minimum distance between segments ab and cd
+export const segmentDistance = (a: Point, b: Point, c: Point, d: Point): number => {
+  if (segmentsIntersect(a, b, c, d)) return 0;
+  return Math.min(
+    distanceToSegment(a, c, d),
+    distanceToSegment(b, c, d),
+    distanceToSegment(c, a, b),
+    distanceToSegment(d, a, b)
+  );
+};
+
+// Does the swept segment ab (e.g. an eraser moving between two frames) touch the polyline?
+export const polylineHitTest = (points: Point[], a: Point, b: Point, radius: number): boolean => {
+  if (points.length === 1) return distanceToSegment(points[0], a, b) <= radius;
+  for (let i = 0; i < points.length - 1; i++) {
+    if (segmentDistance(a, b, points[i], points[i + 1]) <= radius) return true;
+  }
+  return false;
+};
+
+// Even-odd rule; the polygon is implicitly closed
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < a.x + (p.y - a.y) * (b.x - a.x) / (b.y - a.y)) inside = !inside;
+  }
+  return inside;
+};
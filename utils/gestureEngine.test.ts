@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { HandLandmark, Viewport } from '../types';
+import { DEFAULT_GESTURE_CONFIG, GestureAction, GestureConfig, GestureState, createGestureState, setMenuOpen, stepGesture } from './gestureEngine';
+import { bindGesture } from './gestureRegistry';
+import { BETWEEN, OPEN, PINCHED, makeHand } from './testHands';
+
+const VIEWPORT: Viewport = { width: 1000, height: 800 };
+const FRAME_MS = 33;
+
+// Steps a hand through a sequence of frames, returning every state and the actions per frame
+const run = (start: GestureState, frames: (HandLandmark[] | null)[], t0 = 0, config: GestureConfig = DEFAULT_GESTURE_CONFIG) => {
+  let state = start;
+  const states: GestureState[] = [];
+  const actions: GestureAction['type'][][] = [];
+  frames.forEach((landmarks, i) => {
+    const step = stepGesture(state, landmarks, t0 + i * FRAME_MS, VIEWPORT, config);
+    state = step.state;
+    states.push(state);
+    actions.push(step.actions.map(a => a.type));
+  });
+  return { state, states, actions, end: t0 + frames.length * FRAME_MS };
+};
+
+const repeat = <T>(value: T, count: number): T[] => Array.from({ length: count }, () => value);
+
+const { pinchDebounceFrames } = DEFAULT_GESTURE_CONFIG;
+
+// With the menu open a pointing hand also reports menuPointer every frame
+const toggles = (actions: GestureAction['type'][][]) => actions.flat().filter(type => type === 'menuToggled').length;
+
+// A hand that has just started a stroke
+const drawingHand = () => {
+  const { state, end } = run(createGestureState(), [makeHand('pinch', OPEN), ...repeat(makeHand('pinch', PINCHED), pinchDebounceFrames + 1)]);
+  expect(state.mode).toBe('DRAWING');
+  return { state, end };
+};
+
+describe('stepGesture', () => {
+  it('enters drawing after the debounce frames and leaves it only past the end threshold', () => {
+    const entry = run(createGestureState(), [makeHand('pinch', OPEN), ...repeat(makeHand('pinch', PINCHED), pinchDebounceFrames + 1)]);
+    expect(entry.states.map(s => s.mode)).toEqual(['HOVER', ...repeat('HOVER', pinchDebounceFrames), 'DRAWING']);
+    expect(entry.actions.flat()).toEqual(['strokeStart']);
+
+    // Between the thresholds the stroke goes on
+    const hold = run(entry.state, repeat(makeHand('pinch', BETWEEN), 10), entry.end);
+    expect(hold.states.every(s => s.mode === 'DRAWING')).toBe(true);
+    expect(hold.actions.flat()).not.toContain('strokeEnd');
+
+    // A single open frame is debounced away
+    const blip = run(hold.state, [makeHand('pinch', OPEN), makeHand('pinch', PINCHED)], hold.end);
+    expect(blip.state.mode).toBe('DRAWING');
+    expect(blip.actions.flat()).not.toContain('strokeEnd');
+
+    const exit = run(blip.state, repeat(makeHand('pinch', OPEN), pinchDebounceFrames + 1), blip.end);
+    expect(exit.states.map(s => s.mode)).toEqual([...repeat('DRAWING', pinchDebounceFrames), 'HOVER']);
+    expect(exit.actions.flat()).toEqual(['strokeEnd']);
+    expect(exit.state.lastStrokePoint).toBeNull();
+  });
+
+  it('does not start a stroke from a pinch inside the hysteresis gap', () => {
+    const { states, actions } = run(createGestureState(), repeat(makeHand('pinch', BETWEEN), 10));
+    expect(states.every(s => s.mode === 'HOVER')).toBe(true);
+    expect(actions.flat()).toEqual([]);
+  });
+
+  it('ends the stroke and resets when the hand is lost mid-stroke', () => {
+    const { state, end } = drawingHand();
+    const lost = run(state, [null], end);
+    expect(lost.actions[0]).toEqual(['strokeEnd']);
+    expect(lost.state.mode).toBe('IDLE');
+    expect(lost.state.lastStrokePoint).toBeNull();
+    expect(lost.state.smoothedPos).toBeNull();
+    expect(lost.state.cursorFilter).toBeNull();
+
+    // Coming back needs a fresh debounced pinch
+    const back = run(lost.state, [makeHand('pinch', PINCHED)], lost.end);
+    expect(back.state.mode).not.toBe('DRAWING');
+    expect(back.actions.flat()).toEqual([]);
+  });
+
+  it('ends the stroke when the hand leaves the safe zone', () => {
+    const { state, end } = drawingHand();
+    // Near the left edge of the camera image, i.e. the right edge of the mirrored screen
+    const out = run(state, [makeHand('pinch', PINCHED, 0.02)], end);
+    expect(out.actions[0]).toEqual(['strokeEnd']);
+    expect(out.state.mode).toBe('IDLE');
+    expect(out.state.rawPos).toBeNull();
+
+    const back = run(out.state, [makeHand('pinch', PINCHED)], out.end);
+    expect(back.state.mode).not.toBe('DRAWING');
+  });
+
+  it('grabs with a debounced fist and releases once the hand opens', () => {
+    const grab = run(createGestureState(), repeat(makeHand('fist'), pinchDebounceFrames + 1));
+    expect(grab.states.map(s => s.mode)).toEqual([...repeat('HOVER', pinchDebounceFrames), 'GRABBING']);
+    expect(grab.actions.flat()).toEqual(['grabStart']);
+
+    const move = run(grab.state, repeat(makeHand('fist'), 3), grab.end);
+    expect(move.actions).toEqual(repeat(['grabMove'], 3));
+
+    const release = run(move.state, repeat(makeHand('pinch', OPEN), pinchDebounceFrames + 1), move.end);
+    expect(release.states.map(s => s.mode)).toEqual([...repeat('GRABBING', pinchDebounceFrames), 'HOVER']);
+    expect(release.actions.flat()).toEqual([...repeat('grabMove', pinchDebounceFrames), 'grabEnd']);
+  });
+
+  it('toggles the menu from a held open palm, once per hold and not within the cooldown', () => {
+    const palm = makeHand('palm');
+    const hold = DEFAULT_GESTURE_CONFIG.gestures.find(g => g.id === 'open-palm')!.holdFrames;
+
+    const open = run(createGestureState(), repeat(palm, hold + 10));
+    expect(open.actions.flat()).toEqual(['menuToggled']);
+    expect(open.actions[hold]).toEqual(['menuToggled']);
+    expect(open.state.isMenuOpen).toBe(true);
+
+    // Lowered and shown again right away: still cooling down
+    const again = run(open.state, [makeHand('pinch', OPEN), ...repeat(palm, hold + 5)], open.end);
+    expect(toggles(again.actions)).toBe(0);
+    expect(again.state.isMenuOpen).toBe(true);
+
+    // After the cooldown the next hold closes it
+    const later = open.end + DEFAULT_GESTURE_CONFIG.menuCooldownMs;
+    const close = run(again.state, [makeHand('pinch', OPEN), ...repeat(palm, hold + 1)], later);
+    expect(toggles(close.actions)).toBe(1);
+    expect(close.state.isMenuOpen).toBe(false);
+  });
+
+  it('clears the canvas from a victory sign, once per hold', () => {
+    const victory = makeHand('victory');
+
+    const first = run(createGestureState(), repeat(victory, 10));
+    expect(first.actions[0]).toEqual(['clear']);
+    expect(first.actions.flat()).toEqual(['clear']);
+    expect(first.states.every(s => s.mode === 'HOVER')).toBe(true);
+
+    // Lowered and shown again: a new hold clears again
+    const again = run(first.state, [makeHand('pinch', OPEN), victory], first.end);
+    expect(again.actions).toEqual([[], ['clear']]);
+  });
+
+  it('fires the action a registry gesture is bound to', () => {
+    const config = { ...DEFAULT_GESTURE_CONFIG, gestures: bindGesture(DEFAULT_GESTURE_CONFIG.gestures, 'victory', 'undo') };
+    const { actions } = run(createGestureState(), repeat(makeHand('victory'), 5), 0, config);
+    expect(actions.flat()).toEqual(['undo']);
+
+    const unbound = { ...DEFAULT_GESTURE_CONFIG, gestures: bindGesture(DEFAULT_GESTURE_CONFIG.gestures, 'victory', 'none') };
+    expect(run(createGestureState(), repeat(makeHand('victory'), 5), 0, unbound).actions.flat()).toEqual([]);
+  });
+
+  it('shares the menu cooldown with a hand that followed the toggle', () => {
+    const palm = makeHand('palm');
+    const hold = DEFAULT_GESTURE_CONFIG.gestures.find(g => g.id === 'open-palm')!.holdFrames;
+
+    // The other hand opened the menu at t = 0
+    const follower = setMenuOpen(createGestureState(), true, 0);
+    const early = run(follower, repeat(palm, hold + 5), FRAME_MS);
+    expect(toggles(early.actions)).toBe(0);
+
+    const late = run(early.state, [makeHand('pinch', OPEN), ...repeat(palm, hold + 1)], DEFAULT_GESTURE_CONFIG.menuCooldownMs + FRAME_MS);
+    expect(toggles(late.actions)).toBe(1);
+    expect(late.state.isMenuOpen).toBe(false);
+  });
+});
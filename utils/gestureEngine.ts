@@ -0,0 +1,398 @@
+import { AppMode, HandLandmark, Point, StrokePoint, TrackingRegion, Viewport } from '../types';
+import {
+  isFingerExtended,
+  getHandSize,
+  getPinchRatio,
+  getPinchMidpoint,
+  distance,
+  distanceSq,
+  isInSafeZone,
+  mapFromRegion,
+  detectFist,
+  DEFAULT_TRACKING_REGION
+} from './geometry';
+import { BUILTIN_GESTURES, GestureBinding, GestureDefinition } from './gestureRegistry';
+import { DEFAULT_PRESSURE_CONFIG, NEUTRAL_PRESSURE, PressureConfig, estimatePressure } from './pressure';
+import { CURSOR_FILTERS, FilterSpec, FilterState, LANDMARK_FILTERS, stepFilter } from './filters';
+
+// Pure gesture state machine (IDLE / HOVER / DRAWING / GRABBING / MENU).
+// No DOM, no canvas, no React: feed it landmarks + a timestamp + the viewport size
+// and it returns the next state together with the actions the app should perform.
+
+export interface GestureConfig {
+  pinchStartThreshold: number;  // Ratio relative to hand size
+  pinchEndThreshold: number;    // Hysteresis: Harder to exit pinch
+  pinchDebounceFrames: number;  // Frames required to confirm state change (pinch and fist alike)
+  minDrawDistPx: number;        // Minimum movement to record point
+  menuCooldownMs: number;       // Minimum time between menu toggles (any gesture bound to toggleMenu, either hand)
+  trackingRegion: TrackingRegion; // Reachable part of the camera image, mapped to the full screen
+  gestures: GestureDefinition[]; // Pose gestures and their bound actions (see gestureRegistry.ts)
+  filters: FilterConfig;
+  pressure: PressureConfig;     // Depth / pinch / speed cues for variable-width strokes
+}
+
+// Which filter smooths what (see filters.ts)
+export interface FilterConfig {
+  landmarks: FilterSpec; // Raw landmarks (normalized units), before any gesture detection
+  drawing: FilterSpec;   // Cursor while drawing / hovering (pixels)
+  menu: FilterSpec;      // Cursor while pointing in the menu (pixels)
+}
+
+export const DEFAULT_FILTER_CONFIG: FilterConfig = {
+  landmarks: LANDMARK_FILTERS.none,
+  drawing: CURSOR_FILTERS.dynamicAlpha,
+  menu: CURSOR_FILTERS.dynamicAlpha,
+};
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+  pinchStartThreshold: 0.09,
+  pinchEndThreshold: 0.14,
+  pinchDebounceFrames: 3,
+  minDrawDistPx: 2,
+  menuCooldownMs: 1000,
+  trackingRegion: DEFAULT_TRACKING_REGION,
+  gestures: BUILTIN_GESTURES,
+  filters: DEFAULT_FILTER_CONFIG,
+  pressure: DEFAULT_PRESSURE_CONFIG,
+};
+
+export interface GestureState {
+  mode: AppMode;
+  isMenuOpen: boolean;
+  consecutivePinchFrames: number;
+  consecutiveFistFrames: number;
+  lastGestureTime: number; // Last menu toggle (shared between hands, see setMenuOpen)
+
+  // Pose gestures, keyed by gesture id
+  gestureHolds: Record<string, GestureHold>;
+  gestureFired: Record<string, number>; // Last time each gesture fired
+
+  // Geometry & Smoothing
+  cursorPos: Point;          // Screen coordinates
+  rawPos: Point | null;      // Cursor before filtering (null while untracked)
+  smoothedPos: Point | null; // Filtered coordinates
+  cursorFilter: FilterState | null;
+  landmarkFilter: FilterState | null;
+  handSize: number;
+  pinchRatio: number;
+  pressure: number;          // Smoothed 0..1 (see pressure.ts)
+  lastFrameTime: number;     // Timestamp of the last tracked frame (for cursor speed)
+
+  // Last point emitted for the active stroke (null when not drawing)
+  lastStrokePoint: Point | null;
+}
+
+export interface GestureHold {
+  frames: number;  // Consecutive frames the pose has been detected
+  fired: boolean;  // Already fired during this hold
+}
+
+export type GestureAction =
+  | { type: 'strokeStart'; point: StrokePoint }
+  | { type: 'pointAdded'; point: StrokePoint }
+  | { type: 'strokeEnd' }
+  | { type: 'grabStart'; point: Point } // Fist closed (screen coordinates)
+  | { type: 'grabMove'; point: Point }
+  | { type: 'grabEnd' }
+  | { type: 'menuToggled'; open: boolean; point: Point } // Where the hand was (the radial menu opens around it)
+  | { type: 'menuPointer'; point: Point | null } // Index finger pointing in the menu (null = not pointing)
+  | { type: 'menuPinch' }                        // Quick pinch while the menu is open (confirms a radial sector)
+  | { type: 'clear' }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+// What a hand is allowed to do. A single visible hand does everything;
+// with two hands the dominant one draws and the other operates the menu.
+export interface HandRoles {
+  draw: boolean;
+  menu: boolean;
+}
+
+export const ALL_ROLES: HandRoles = { draw: true, menu: true };
+export const NO_ROLES: HandRoles = { draw: false, menu: false };
+
+export interface GestureStep {
+  state: GestureState;
+  actions: GestureAction[];
+}
+
+export const createGestureState = (): GestureState => ({
+  mode: 'IDLE',
+  isMenuOpen: false,
+  consecutivePinchFrames: 0,
+  consecutiveFistFrames: 0,
+  lastGestureTime: -Infinity,
+  gestureHolds: {},
+  gestureFired: {},
+  cursorPos: { x: 0, y: 0 },
+  rawPos: null,
+  smoothedPos: null,
+  cursorFilter: null,
+  landmarkFilter: null,
+  handSize: 0,
+  pinchRatio: 0,
+  pressure: NEUTRAL_PRESSURE,
+  lastFrameTime: -Infinity,
+  lastStrokePoint: null,
+});
+
+// Filters all 21 landmarks as points of (x, y, z)
+const filterLandmarks = (
+  spec: FilterSpec,
+  prev: FilterState | null,
+  landmarks: HandLandmark[],
+  timestamp: number
+): { state: FilterState; landmarks: HandLandmark[] } => {
+  const flat = landmarks.flatMap(l => [l.x, l.y, l.z]);
+  const { state, values } = stepFilter(spec, prev, flat, timestamp, 3);
+  return {
+    state,
+    landmarks: landmarks.map((_, i) => ({ x: values[i * 3], y: values[i * 3 + 1], z: values[i * 3 + 2] }))
+  };
+};
+
+// The menu hand may open/close the menu; canvas actions belong to the drawing hand and wait for the menu to close
+const isActionAllowed = (action: GestureBinding, roles: HandRoles, isMenuOpen: boolean): boolean => {
+  if (action === 'none') return false;
+  if (action === 'toggleMenu') return roles.menu;
+  return roles.draw && !isMenuOpen;
+};
+
+// The menu is shared between hands: when one hand toggles it, the others follow
+export const setMenuOpen = (prev: GestureState, open: boolean, timestamp: number): GestureState => ({
+  ...prev,
+  isMenuOpen: open,
+  lastGestureTime: timestamp,
+  mode: prev.mode === 'IDLE' ? 'IDLE' : open ? 'MENU' : 'HOVER'
+});
+
+export const stepGesture = (
+  prev: GestureState,
+  rawLandmarks: HandLandmark[] | null,
+  timestamp: number,
+  viewport: Viewport,
+  config: GestureConfig = DEFAULT_GESTURE_CONFIG,
+  roles: HandRoles = ALL_ROLES
+): GestureStep => {
+  const s: GestureState = { ...prev };
+  const actions: GestureAction[] = [];
+
+  const endStroke = () => {
+    if (s.lastStrokePoint) {
+      actions.push({ type: 'strokeEnd' });
+      s.lastStrokePoint = null;
+    }
+  };
+
+  const endGrab = () => {
+    if (s.mode === 'GRABBING') actions.push({ type: 'grabEnd' });
+    s.consecutiveFistFrames = 0;
+  };
+
+  const fireGesture = (action: GestureBinding) => {
+    switch (action) {
+      case 'toggleMenu':
+        s.isMenuOpen = !s.isMenuOpen;
+        s.lastGestureTime = timestamp;
+        endStroke();
+        actions.push({ type: 'menuToggled', open: s.isMenuOpen, point: s.cursorPos });
+        break;
+      case 'clear':
+      case 'undo':
+      case 'redo':
+        actions.push({ type: action });
+        break;
+    }
+  };
+
+  // --- 1. DETECTION PHASE ---
+  if (!rawLandmarks) {
+    if (s.mode === 'DRAWING') endStroke();
+    endGrab();
+    s.mode = 'IDLE';
+    s.consecutivePinchFrames = 0;
+    s.rawPos = null;
+    s.smoothedPos = null;
+    s.cursorFilter = null;
+    s.landmarkFilter = null;
+    return { state: s, actions };
+  }
+
+  // Landmark filtering happens first so every detector sees the same signal
+  const filtered = filterLandmarks(config.filters.landmarks, s.landmarkFilter, rawLandmarks, timestamp);
+  s.landmarkFilter = filtered.state;
+  const landmarks = filtered.landmarks;
+
+  // Calculate Basic Geometry
+  s.handSize = getHandSize(landmarks);
+  s.pinchRatio = getPinchRatio(landmarks, s.handSize);
+
+  // Determine Cursor Source based on Mode
+  // MENU MODE: Use Index Tip (Landmark 8) for direct pointing behavior.
+  // DRAWING MODE: Use Midpoint of Index & Thumb for pinch stability
+  const rawPoint: Point = s.isMenuOpen ? landmarks[8] : getPinchMidpoint(landmarks);
+
+  // Camera image is mirrored on screen
+  const mirrored: Point = { x: 1 - rawPoint.x, y: rawPoint.y };
+
+  // Region of Interest Check
+  if (!isInSafeZone(mirrored, config.trackingRegion)) {
+    if (s.mode === 'DRAWING') endStroke();
+    endGrab();
+    s.mode = 'IDLE';
+    s.consecutivePinchFrames = 0;
+    s.rawPos = null;
+    return { state: s, actions };
+  }
+
+  const { x: rawX, y: rawY } = mapFromRegion(mirrored, config.trackingRegion);
+  s.rawPos = { x: rawX * viewport.width, y: rawY * viewport.height };
+
+  // --- 2. SMOOTHING PHASE ---
+  const spec = s.isMenuOpen ? config.filters.menu : config.filters.drawing;
+  const cursor = stepFilter(spec, s.cursorFilter, [s.rawPos.x, s.rawPos.y], timestamp);
+  s.cursorFilter = cursor.state;
+  s.smoothedPos = { x: cursor.values[0], y: cursor.values[1] };
+  s.cursorPos = { ...s.smoothedPos };
+
+  // Pressure cues (tracked every frame so a stroke starts from a settled value)
+  const seconds = (timestamp - s.lastFrameTime) / 1000;
+  const speed = prev.smoothedPos && seconds > 0 ? distance(prev.smoothedPos, s.cursorPos) / seconds : 0;
+  const pressure = estimatePressure(landmarks, s.handSize, s.pinchRatio, config.pinchStartThreshold, speed, config.pressure);
+  s.pressure = s.pressure + (pressure - s.pressure) * config.pressure.smoothing;
+  s.lastFrameTime = timestamp;
+  const strokePoint: StrokePoint = { ...s.cursorPos, pressure: s.pressure };
+
+  // --- 3. STATE MACHINE PHASE ---
+
+  // Lost the right to draw mid-stroke / mid-grab (e.g. a second hand appeared)
+  if (!roles.draw && (s.mode === 'DRAWING' || s.mode === 'GRABBING')) {
+    endStroke();
+    endGrab();
+    s.mode = 'HOVER';
+    s.consecutivePinchFrames = 0;
+  }
+
+  // GLOBAL GESTURES (Registry: Menu / Clear / Undo / Redo / User poses)
+  if (s.mode !== 'DRAWING' && s.mode !== 'GRABBING') {
+    const holds: Record<string, GestureHold> = {};
+    const fired = { ...s.gestureFired };
+    let engaged = false;
+
+    for (const gesture of config.gestures) {
+      if (!isActionAllowed(gesture.action, roles, s.isMenuOpen) || !gesture.detect(landmarks)) continue;
+
+      const prevHold = s.gestureHolds[gesture.id];
+      const hold: GestureHold = { frames: (prevHold ? prevHold.frames : 0) + 1, fired: prevHold ? prevHold.fired : false };
+      holds[gesture.id] = hold;
+      if (hold.frames <= gesture.holdFrames) continue;
+
+      // A held pose is not a pinch attempt
+      engaged = true;
+
+      // The menu cooldown is shared with the other hand
+      const isMenuToggle = gesture.action === 'toggleMenu';
+      const lastFired = Math.max(fired[gesture.id] ?? -Infinity, isMenuToggle ? s.lastGestureTime : -Infinity);
+      const cooldown = isMenuToggle ? Math.max(gesture.cooldownMs, config.menuCooldownMs) : gesture.cooldownMs;
+      if ((gesture.repeat || !hold.fired) && timestamp - lastFired > cooldown) {
+        hold.fired = true;
+        fired[gesture.id] = timestamp;
+        fireGesture(gesture.action);
+      }
+    }
+
+    // Gestures not detected this frame are released
+    s.gestureHolds = holds;
+    s.gestureFired = fired;
+
+    if (engaged) {
+      s.consecutivePinchFrames = 0;
+      s.consecutiveFistFrames = 0;
+      s.mode = s.isMenuOpen && roles.menu ? 'MENU' : 'HOVER';
+      return { state: s, actions };
+    }
+  } else {
+    s.gestureHolds = {};
+  }
+
+  // MODE SPECIFIC LOGIC
+  if (s.isMenuOpen && !roles.menu) {
+    // Drawing hand rests while the other hand operates the menu
+    s.mode = 'HOVER';
+    s.consecutivePinchFrames = 0;
+  } else if (s.isMenuOpen) {
+    s.mode = 'MENU';
+
+    // Relaxed Check: Just need index finger up.
+    // We don't check for other fingers being curled, as that was too strict.
+    const isIndexUp = isFingerExtended(landmarks, 8, 6);
+    actions.push({ type: 'menuPointer', point: isIndexUp ? s.cursorPos : null });
+
+    // A pinch confirms once per closing, with the same debounce and hysteresis as drawing
+    if (s.pinchRatio < config.pinchStartThreshold) {
+      s.consecutivePinchFrames++;
+      if (s.consecutivePinchFrames === config.pinchDebounceFrames + 1) actions.push({ type: 'menuPinch' });
+    } else if (s.pinchRatio > config.pinchEndThreshold) {
+      s.consecutivePinchFrames = 0;
+    }
+  } else if (!roles.draw) {
+    s.mode = 'HOVER';
+  } else if (s.mode === 'GRABBING') {
+    // Same debounce as a pinch: a few frames of an opened hand release the grab
+    if (detectFist(landmarks)) {
+      s.consecutiveFistFrames = config.pinchDebounceFrames;
+    } else {
+      s.consecutiveFistFrames--;
+    }
+    if (s.consecutiveFistFrames < 0) {
+      endGrab();
+      s.mode = 'HOVER';
+    } else {
+      actions.push({ type: 'grabMove', point: s.cursorPos });
+    }
+  } else if (s.mode === 'DRAWING') {
+    // Check for exit
+    if (s.pinchRatio > config.pinchEndThreshold) {
+      s.consecutivePinchFrames--;
+      if (s.consecutivePinchFrames < 0) {
+        endStroke();
+        s.mode = 'HOVER';
+      }
+    } else {
+      // Reset debounce if we are still pinching hard
+      s.consecutivePinchFrames = config.pinchDebounceFrames;
+
+      // Filter micro-movements
+      if (s.lastStrokePoint && distanceSq(s.lastStrokePoint, s.cursorPos) > config.minDrawDistPx * config.minDrawDistPx) {
+        s.lastStrokePoint = s.cursorPos;
+        actions.push({ type: 'pointAdded', point: strokePoint });
+      }
+    }
+  } else {
+    // IDLE / HOVER -> Check for entry (a closing fist can pass through a pinch, so it wins)
+    if (detectFist(landmarks)) {
+      s.consecutivePinchFrames = 0;
+      s.consecutiveFistFrames++;
+      s.mode = 'HOVER';
+      if (s.consecutiveFistFrames > config.pinchDebounceFrames) {
+        s.consecutiveFistFrames = config.pinchDebounceFrames;
+        s.mode = 'GRABBING';
+        actions.push({ type: 'grabStart', point: s.cursorPos });
+      }
+    } else if (s.pinchRatio < config.pinchStartThreshold) {
+      s.consecutiveFistFrames = 0;
+      s.consecutivePinchFrames++;
+      if (s.consecutivePinchFrames > config.pinchDebounceFrames) {
+        s.lastStrokePoint = s.cursorPos;
+        s.mode = 'DRAWING';
+        actions.push({ type: 'strokeStart', point: strokePoint });
+      }
+    } else {
+      s.consecutivePinchFrames = 0;
+      s.consecutiveFistFrames = 0;
+      s.mode = 'HOVER';
+    }
+  }
+
+  return { state: s, actions };
+};
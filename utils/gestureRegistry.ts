@@ -0,0 +1,119 @@
+import { HandLandmark, PoseTemplate } from '../types';
+import {
+  detectOpenPalm,
+  detectPointing,
+  detectVictory,
+  detectThumbLeft,
+  detectThumbRight
+} from './geometry';
+import { classifyPose } from './poseClassifier';
+import { loadJson, saveJson } from './storage';
+
+// Static-pose gestures: what to detect, how long to hold it, and what it does.
+
+export type GestureBinding = 'none' | 'toggleMenu' | 'clear' | 'undo' | 'redo';
+
+export const GESTURE_BINDINGS: { id: GestureBinding; label: string }[] = [
+  { id: 'none', label: 'Nothing' },
+  { id: 'toggleMenu', label: 'Toggle menu' },
+  { id: 'clear', label: 'Clear canvas' },
+  { id: 'undo', label: 'Undo' },
+  { id: 'redo', label: 'Redo' },
+];
+
+export interface GestureDefinition {
+  id: string;
+  label: string;
+  detect: (landmarks: HandLandmark[]) => boolean;
+  holdFrames: number;  // Debounce: frames the pose must be held before it fires
+  cooldownMs: number;  // Minimum time between two firings
+  repeat: boolean;     // Keep firing (every cooldownMs) while held, or once per hold
+  action: GestureBinding;
+}
+
+export const BUILTIN_GESTURES: GestureDefinition[] = [
+  { id: 'open-palm', label: '✋ Open Palm', detect: detectOpenPalm, holdFrames: 5, cooldownMs: 1000, repeat: false, action: 'toggleMenu' },
+  { id: 'victory', label: '✌️ Victory', detect: detectVictory, holdFrames: 0, cooldownMs: 0, repeat: false, action: 'clear' },
+  { id: 'thumb-left', label: '👈 Thumb Left', detect: detectThumbLeft, holdFrames: 5, cooldownMs: 700, repeat: true, action: 'undo' },
+  { id: 'thumb-right', label: '👉 Thumb Right', detect: detectThumbRight, holdFrames: 5, cooldownMs: 700, repeat: true, action: 'redo' },
+  { id: 'pointing', label: '☝️ Pointing', detect: detectPointing, holdFrames: 10, cooldownMs: 1000, repeat: false, action: 'none' },
+];
+
+// Adds a gesture, replacing any existing one with the same id
+export const registerGesture = (registry: GestureDefinition[], gesture: GestureDefinition): GestureDefinition[] => {
+  return [...registry.filter(g => g.id !== gesture.id), gesture];
+};
+
+export const unregisterGesture = (registry: GestureDefinition[], id: string): GestureDefinition[] => {
+  return registry.filter(g => g.id !== id);
+};
+
+export const bindGesture = (registry: GestureDefinition[], id: string, action: GestureBinding): GestureDefinition[] => {
+  return registry.map(g => g.id === id ? { ...g, action } : g);
+};
+
+// --- USER POSES ---
+
+export const poseGestureId = (template: PoseTemplate) => `pose:${template.id}`;
+
+// A taught pose fires when it is the nearest template (among all taught poses) and close enough
+export const createPoseGesture = (template: PoseTemplate, templates: PoseTemplate[]): GestureDefinition => ({
+  id: poseGestureId(template),
+  label: template.name,
+  detect: (landmarks) => {
+    const match = classifyPose(landmarks, templates);
+    return !!match && match.template.id === template.id;
+  },
+  holdFrames: 8,
+  cooldownMs: 1000,
+  repeat: false,
+  action: 'none'
+});
+
+// Built-ins + taught poses, with the user's bindings applied on top
+export const buildRegistry = (templates: PoseTemplate[], bindings: Record<string, GestureBinding>): GestureDefinition[] => {
+  let registry = BUILTIN_GESTURES;
+  for (const template of templates) {
+    registry = registerGesture(registry, createPoseGesture(template, templates));
+  }
+  for (const [id, action] of Object.entries(bindings)) {
+    registry = bindGesture(registry, id, action);
+  }
+  return registry;
+};
+
+// --- PERSISTENCE ---
+
+// A sample is a normalized pose: x and y for each of the 21 landmarks (see normalizePose)
+const POSE_SAMPLE_LENGTH = 42;
+
+const isPoseTemplate = (t: unknown): t is PoseTemplate => {
+  if (typeof t !== 'object' || t === null) return false;
+  const { id, name, samples } = t as Record<string, unknown>;
+  return typeof id === 'string'
+    && typeof name === 'string'
+    && Array.isArray(samples) && samples.length > 0
+    && samples.every(sample => Array.isArray(sample) && sample.length === POSE_SAMPLE_LENGTH
+      && sample.every(v => typeof v === 'number' && Number.isFinite(v)));
+};
+
+const isGestureBinding = (action: unknown): action is GestureBinding => GESTURE_BINDINGS.some(b => b.id === action);
+
+export const loadPoseTemplates = (): PoseTemplate[] => {
+  const templates = loadJson<unknown>('poses', []);
+  return Array.isArray(templates) ? templates.filter(isPoseTemplate) : [];
+};
+export const savePoseTemplates = (templates: PoseTemplate[]) => saveJson('poses', templates);
+
+// Only bindings of gestures that exist (built-in or taught) to known actions are kept
+export const loadGestureBindings = (templates: PoseTemplate[]): Record<string, GestureBinding> => {
+  const stored = loadJson<unknown>('gestureBindings', {});
+  if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return {};
+  const ids = new Set([...BUILTIN_GESTURES.map(g => g.id), ...templates.map(poseGestureId)]);
+  const bindings: Record<string, GestureBinding> = {};
+  for (const [id, action] of Object.entries(stored)) {
+    if (ids.has(id) && isGestureBinding(action)) bindings[id] = action;
+  }
+  return bindings;
+};
+export const saveGestureBindings = (bindings: Record<string, GestureBinding>) => saveJson('gestureBindings', bindings);
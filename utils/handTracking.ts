@@ -0,0 +1,68 @@
+import { Handedness, HandLandmark, TrackedHand } from '../types';
+import { HandRoles, ALL_ROLES } from './gestureEngine';
+
+export const HANDEDNESS: Handedness[] = ['Left', 'Right'];
+
+export const otherHand = (hand: Handedness): Handedness => hand === 'Left' ? 'Right' : 'Left';
+
+const LANDMARK_COUNT = 21;
+
+// Results come from a CDN script or a worker message; hands of the wrong shape are skipped
+const isLandmarkList = (landmarks: unknown): landmarks is HandLandmark[] => {
+  return Array.isArray(landmarks) && landmarks.length === LANDMARK_COUNT && landmarks.every((l: unknown) => {
+    if (typeof l !== 'object' || l === null) return false;
+    const { x, y, z } = l as Record<string, unknown>;
+    return typeof x === 'number' && typeof y === 'number' && typeof z === 'number';
+  });
+};
+
+// MediaPipe labels handedness assuming a mirrored (selfie) image. We send the raw
+// camera frame, so the label is swapped to get the user's physical hand.
+export const readHandResults = (results: unknown): TrackedHand[] => {
+  const { multiHandLandmarks, multiHandedness } = (typeof results === 'object' && results !== null ? results : {}) as Record<string, unknown>;
+  const allLandmarks: unknown[] = Array.isArray(multiHandLandmarks) ? multiHandLandmarks : [];
+  const allHandedness: unknown[] = Array.isArray(multiHandedness) ? multiHandedness : [];
+
+  const hands: TrackedHand[] = [];
+  allLandmarks.forEach((landmarks, i) => {
+    if (!isLandmarkList(landmarks)) return;
+    const handedness = allHandedness[i];
+    const label = typeof handedness === 'object' && handedness !== null && 'label' in handedness ? handedness.label : undefined;
+    hands.push({ landmarks, handedness: label === 'Right' ? 'Left' : 'Right' });
+  });
+
+  // Occasionally both hands get the same label. Fall back to screen position:
+  // the feed is mirrored, so the user's left hand has the larger raw x.
+  if (hands.length === 2 && hands[0].handedness === hands[1].handedness) {
+    const firstIsLeft = hands[0].landmarks[0].x > hands[1].landmarks[0].x;
+    hands[0].handedness = firstIsLeft ? 'Left' : 'Right';
+    hands[1].handedness = firstIsLeft ? 'Right' : 'Left';
+  }
+  return hands;
+};
+
+export interface HandAssignment {
+  landmarks: HandLandmark[] | null;
+  roles: HandRoles;
+}
+
+// A lone hand does everything; with two hands the dominant one draws and the other runs the menu
+export const assignHands = (hands: TrackedHand[], dominant: Handedness): Record<Handedness, HandAssignment> => {
+  const find = (h: Handedness) => {
+    const hand = hands.find(t => t.handedness === h);
+    return hand ? hand.landmarks : null;
+  };
+  const left = find('Left');
+  const right = find('Right');
+  const both = !!left && !!right;
+
+  const rolesFor = (h: Handedness): HandRoles => {
+    if (!both) return ALL_ROLES;
+    return h === dominant ? { draw: true, menu: false } : { draw: false, menu: true };
+  };
+
+  return {
+    Left: { landmarks: left, roles: rolesFor('Left') },
+    Right: { landmarks: right, roles: rolesFor('Right') }
+  };
+};
@@ -0,0 +1,335 @@
+import { GlyphTemplate, Point, TextObject } from '../types';
+import { distance } from './geometry';
+import { loadJson, saveJson } from './storage';
+
+// On-device handwriting recognition for air-writing. Strokes are split into glyphs by horizontal
+// overlap, and each glyph is matched against templates as an unordered point cloud ($P recognizer),
+// so stroke order and direction do not matter. Built-in templates cover digits, upper-case Latin
+// letters and a few symbols; users add their own by correcting what was recognized.
+
+const CLOUD_POINTS = 32;
+const MAX_GLYPH_DISTANCE = 0.075; // Mean (weighted) point distance of an acceptable match, in glyph-box units
+const DOT_SIZE = 0.2;             // A glyph this small relative to the line height is a period
+const GLYPH_OVERLAP = 0.1;        // Strokes closer than this (line heights) horizontally belong to one glyph
+const SPACE_GAP = 0.6;            // A gap wider than this (line heights) between glyphs is a space
+const TEMPLATE_STROKE_POINTS = 16; // Stored user templates are resampled to keep storage small
+const TEXT_SIZE_FACTOR = 1.3;     // Font size per written line height (capitals fill about 3/4 of the em box)
+export const MAX_USER_GLYPHS = 200;
+
+// Axis-aligned extent (world units for writing, grid units for templates)
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// --- BUILT-IN GLYPHS ---
+// Drawn on a grid 6 wide and 10 tall (y down); a glyph may have several variants
+
+type Stroke = Point[];
+
+const line = (...coords: number[]): Stroke => {
+  const points: Stroke = [];
+  for (let i = 0; i + 1 < coords.length; i += 2) points.push({ x: coords[i], y: coords[i + 1] });
+  return points;
+};
+
+// Elliptical arc; angles in degrees, 0 is right and 90 is down
+const arc = (cx: number, cy: number, rx: number, ry: number, from: number, to: number): Stroke => {
+  const steps = Math.max(2, Math.ceil(Math.abs(to - from) / 15));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = (from + (to - from) * i / steps) * Math.PI / 180;
+    return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+  });
+};
+
+const join = (...parts: Stroke[]): Stroke => parts.flat();
+
+const BUILTIN_GLYPHS: { char: string; strokes: Stroke[] }[] = [
+  { char: 'A', strokes: [line(0, 10, 3, 0, 6, 10), line(1.2, 6, 4.8, 6)] },
+  { char: 'B', strokes: [line(0, 0, 0, 10), join(line(0, 0, 3.5, 0), arc(3.5, 2.5, 1.5, 2.5, -90, 90), line(3.5, 5, 0, 5)), join(line(0, 5, 4, 5), arc(4, 7.5, 2, 2.5, -90, 90), line(4, 10, 0, 10))] },
+  { char: 'C', strokes: [arc(3.5, 5, 3.5, 5, -45, -315)] },
+  { char: 'D', strokes: [line(0, 0, 0, 10), join(line(0, 0, 1.5, 0), arc(1.5, 5, 4.5, 5, -90, 90), line(1.5, 10, 0, 10))] },
+  { char: 'E', strokes: [line(6, 0, 0, 0, 0, 10, 6, 10), line(0, 5, 4.5, 5)] },
+  { char: 'E', strokes: [line(0, 0, 0, 10), line(0, 0, 6, 0), line(0, 5, 4.5, 5), line(0, 10, 6, 10)] },
+  { char: 'F', strokes: [line(6, 0, 0, 0, 0, 10), line(0, 5, 4.5, 5)] },
+  { char: 'G', strokes: [join(arc(3.5, 5, 3.5, 5, -45, -360), line(7, 5, 4, 5))] },
+  { char: 'H', strokes: [line(0, 0, 0, 10), line(6, 0, 6, 10), line(0, 5, 6, 5)] },
+  { char: 'I', strokes: [line(3, 0, 3, 10)] },
+  { char: 'I', strokes: [line(1, 0, 5, 0), line(3, 0, 3, 10), line(1, 10, 5, 10)] },
+  { char: 'J', strokes: [join(line(5, 0, 5, 7), arc(2.5, 7, 2.5, 3, 0, 180))] },
+  { char: 'K', strokes: [line(0, 0, 0, 10), line(6, 0, 0, 5.5, 6, 10)] },
+  { char: 'L', strokes: [line(0, 0, 0, 10, 6, 10)] },
+  { char: 'M', strokes: [line(0, 10, 0, 0, 3, 6, 6, 0, 6, 10)] },
+  { char: 'N', strokes: [line(0, 10, 0, 0, 6, 10, 6, 0)] },
+  { char: 'O', strokes: [arc(3.5, 5, 3.5, 5, -90, 270)] },
+  { char: 'P', strokes: [join(line(0, 10, 0, 0, 3.5, 0), arc(3.5, 2.5, 2, 2.5, -90, 90), line(3.5, 5, 0, 5))] },
+  { char: 'Q', strokes: [arc(3.5, 5, 3.5, 5, -90, 270), line(4, 7, 7, 10.5)] },
+  { char: 'R', strokes: [join(line(0, 10, 0, 0, 3.5, 0), arc(3.5, 2.5, 2, 2.5, -90, 90), line(3.5, 5, 0, 5)), line(2.5, 5, 6, 10)] },
+  { char: 'S', strokes: [join(arc(3, 2.5, 3, 2.5, -30, -270), arc(3, 7.5, 3, 2.5, -90, 150))] },
+  { char: 'T', strokes: [line(0, 0, 6, 0), line(3, 0, 3, 10)] },
+  { char: 'U', strokes: [join(line(0, 0, 0, 7), arc(3, 7, 3, 3, 180, 0), line(6, 7, 6, 0))] },
+  { char: 'V', strokes: [line(0, 0, 3, 10, 6, 0)] },
+  { char: 'W', strokes: [line(0, 0, 1.5, 10, 3, 4, 4.5, 10, 6, 0)] },
+  { char: 'X', strokes: [line(0, 0, 6, 10), line(6, 0, 0, 10)] },
+  { char: 'Y', strokes: [line(0, 0, 3, 5), line(6, 0, 3, 5, 3, 10)] },
+  { char: 'Z', strokes: [line(0, 0, 6, 0, 0, 10, 6, 10)] },
+  { char: '0', strokes: [arc(2.2, 5, 2.2, 5, -90, 270)] },
+  { char: '1', strokes: [line(1, 2.5, 3, 0, 3, 10)] },
+  { char: '2', strokes: [join(arc(3, 3, 3, 3, -180, 20), line(0, 10, 6, 10))] },
+  { char: '3', strokes: [join(arc(3, 2.5, 3, 2.5, -160, 90), arc(3, 7.5, 3, 2.5, -90, 160))] },
+  { char: '4', strokes: [line(4.5, 10, 4.5, 0, 0, 7, 6, 7)] },
+  { char: '4', strokes: [line(4, 0, 0, 7, 6, 7), line(4.5, 3, 4.5, 10)] },
+  { char: '5', strokes: [join(line(5.5, 0, 0.5, 0, 0, 4.5), arc(3, 7, 3, 3, -120, 150))] },
+  { char: '6', strokes: [join(line(5, 0), arc(5, 6, 5, 6, -100, -180), arc(3, 7.3, 2.7, 2.7, 180, 540))] },
+  { char: '7', strokes: [line(0, 0, 6, 0, 2, 10)] },
+  { char: '8', strokes: [join(arc(3, 2.5, 2.5, 2.5, 90, 450), arc(3, 7.5, 3, 2.5, -90, 270))] },
+  { char: '9', strokes: [join(arc(3, 3, 3, 3, 0, 360), line(6, 3, 5.5, 10))] },
+  { char: '+', strokes: [line(3, 1.5, 3, 8.5), line(0, 5, 6, 5)] },
+  { char: '-', strokes: [line(0, 5, 6, 5)] },
+  { char: '=', strokes: [line(0, 3.5, 6, 3.5), line(0, 6.5, 6, 6.5)] },
+  { char: '/', strokes: [line(6, 0, 0, 10)] },
+  { char: '?', strokes: [join(arc(3, 3, 3, 3, -180, 60), line(3, 6.5, 3, 8)), line(3, 10, 3, 10.2)] },
+  { char: '!', strokes: [line(3, 0, 3, 7.5), line(3, 9.8, 3, 10)] },
+];
+
+// --- POINT CLOUDS ---
+
+interface CloudPoint extends Point {
+  stroke: number;
+}
+
+export interface PreparedTemplate {
+  char: string;
+  cloud: CloudPoint[];
+}
+
+const strokeLength = (stroke: Stroke): number => {
+  let length = 0;
+  for (let i = 1; i < stroke.length; i++) length += distance(stroke[i - 1], stroke[i]);
+  return length;
+};
+
+// `count` points evenly spaced along the stroke (a dot gives its first point)
+const resampleStroke = (stroke: Stroke, count: number): Point[] => {
+  const length = strokeLength(stroke);
+  if (stroke.length === 1 || length === 0 || count === 1) return Array.from({ length: count }, () => ({ ...stroke[0] }));
+  const interval = length / (count - 1);
+  const points: Point[] = [{ ...stroke[0] }];
+  let travelled = 0;
+  let target = interval;
+  for (let i = 1; i < stroke.length && points.length < count; i++) {
+    const a = stroke[i - 1];
+    const b = stroke[i];
+    const d = distance(a, b);
+    while (d > 0 && travelled + d >= target && points.length < count) {
+      const t = (target - travelled) / d;
+      points.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+      target += interval;
+    }
+    travelled += d;
+  }
+  while (points.length < count) points.push({ ...stroke[stroke.length - 1] });
+  return points;
+};
+
+// Every stroke gets points in proportion to its length, and at least one (dots count)
+const allocatePoints = (strokes: Stroke[], total: number): number[] => {
+  const lengths = strokes.map(strokeLength);
+  const sum = lengths.reduce((a, b) => a + b, 0);
+  const counts = lengths.map(l => Math.max(1, Math.round(sum > 0 ? total * l / sum : total / strokes.length)));
+  // Rounding can miss the total either way; the longest strokes absorb the difference
+  let excess = counts.reduce((a, b) => a + b, 0) - total;
+  while (excess !== 0) {
+    const longest = counts.indexOf(Math.max(...counts));
+    if (excess < 0 || counts[longest] > 1) {
+      counts[longest] -= Math.sign(excess);
+      excess -= Math.sign(excess);
+    } else break;
+  }
+  return counts;
+};
+
+const boundsOf = (points: Point[]): Box => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Resampled, scaled uniformly into a unit box and centred on its centroid
+const toCloud = (strokes: Stroke[]): CloudPoint[] => {
+  const usable = strokes.filter(s => s.length > 0);
+  const counts = allocatePoints(usable, CLOUD_POINTS);
+  const points: CloudPoint[] = usable.flatMap((stroke, i) => resampleStroke(stroke, counts[i]).map(p => ({ ...p, stroke: i })));
+  const box = boundsOf(points);
+  const scale = Math.max(box.width, box.height) || 1;
+  const cx = points.reduce((a, p) => a + p.x, 0) / points.length;
+  const cy = points.reduce((a, p) => a + p.y, 0) / points.length;
+  return points.map(p => ({ x: (p.x - cx) / scale, y: (p.y - cy) / scale, stroke: p.stroke }));
+};
+
+// Greedy matching from `start`, earlier matches weighted more ($P)
+const cloudDistance = (a: CloudPoint[], b: CloudPoint[], start: number): number => {
+  const n = a.length;
+  const matched = new Array<boolean>(n).fill(false);
+  let sum = 0;
+  let i = start;
+  do {
+    let best = Infinity;
+    let index = -1;
+    for (let j = 0; j < n; j++) {
+      if (matched[j]) continue;
+      const d = distance(a[i], b[j]);
+      if (d < best) {
+        best = d;
+        index = j;
+      }
+    }
+    matched[index] = true;
+    sum += (1 - ((i - start + n) % n) / n) * best;
+    i = (i + 1) % n;
+  } while (i !== start);
+  return sum;
+};
+
+// Mean weighted point distance (the weights sum to about n / 2)
+const greedyMatch = (a: CloudPoint[], b: CloudPoint[]): number => {
+  const n = a.length;
+  const step = Math.max(1, Math.floor(Math.sqrt(n)));
+  let best = Infinity;
+  for (let i = 0; i < n; i += step) {
+    best = Math.min(best, cloudDistance(a, b, i), cloudDistance(b, a, i));
+  }
+  return best / (n / 2);
+};
+
+// --- TEMPLATES ---
+
+export const prepareTemplates = (userTemplates: GlyphTemplate[]): PreparedTemplate[] => [
+  // The user's own handwriting is listed first, so it wins ties
+  ...userTemplates.map(t => ({ char: t.char, cloud: toCloud(t.strokes) })),
+  ...BUILTIN_GLYPHS.map(g => ({ char: g.char, cloud: toCloud(g.strokes) }))
+];
+
+// A glyph as written, stored in its own unit box
+export const createGlyphTemplate = (char: string, strokes: Point[][]): GlyphTemplate => {
+  const box = boundsOf(strokes.flat());
+  const scale = Math.max(box.width, box.height) || 1;
+  return {
+    id: `glyph-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    char,
+    strokes: strokes.map(stroke => resampleStroke(stroke, Math.min(stroke.length, TEMPLATE_STROKE_POINTS)).map(p => ({
+      x: Math.round((p.x - box.x) / scale * 1000) / 1000,
+      y: Math.round((p.y - box.y) / scale * 1000) / 1000
+    })))
+  };
+};
+
+const isPoint = (p: unknown): p is Point => typeof p === 'object' && p !== null
+  && 'x' in p && typeof p.x === 'number' && 'y' in p && typeof p.y === 'number';
+
+const isStrokeOfPoints = (stroke: unknown): stroke is Point[] => Array.isArray(stroke) && stroke.length > 0 && stroke.every(isPoint);
+
+export const isGlyphTemplate = (t: unknown): t is GlyphTemplate => {
+  if (typeof t !== 'object' || t === null) return false;
+  const { id, char, strokes } = t as Record<string, unknown>;
+  return typeof id === 'string'
+    && typeof char === 'string' && char.length > 0
+    && Array.isArray(strokes) && strokes.length > 0
+    && strokes.every(isStrokeOfPoints);
+};
+
+export const loadGlyphTemplates = (): GlyphTemplate[] => {
+  const templates = loadJson<unknown>('glyphs', []);
+  return Array.isArray(templates) ? templates.filter(isGlyphTemplate) : [];
+};
+export const saveGlyphTemplates = (templates: GlyphTemplate[]) => saveJson('glyphs', templates);
+
+// --- RECOGNITION ---
+
+export interface GlyphMatch {
+  char: string;
+  distance: number;
+}
+
+// Best template for one glyph, null when nothing is close enough
+export const recognizeGlyph = (strokes: Point[][], templates: PreparedTemplate[]): GlyphMatch | null => {
+  const cloud = toCloud(strokes);
+  if (cloud.length === 0) return null;
+  let best: GlyphMatch | null = null;
+  for (const template of templates) {
+    const d = greedyMatch(cloud, template.cloud);
+    if (!best || d < best.distance) best = { char: template.char, distance: d };
+  }
+  return best && best.distance <= MAX_GLYPH_DISTANCE ? best : null;
+};
+
+export interface WrittenGlyph {
+  strokes: Point[][];
+  box: Box;
+}
+
+const strokeBox = (strokes: Point[][]): Box => boundsOf(strokes.flat());
+
+// Groups strokes (in writing order) into glyphs: a stroke joins the glyph it overlaps horizontally
+export const segmentGlyphs = (strokes: Point[][]): WrittenGlyph[] => {
+  const usable = strokes.filter(s => s.length > 0);
+  if (usable.length === 0) return [];
+  const lineHeight = Math.max(...usable.map(s => boundsOf(s).height), 1);
+  const pad = lineHeight * GLYPH_OVERLAP / 2;
+
+  let glyphs: WrittenGlyph[] = [];
+  for (const stroke of usable) {
+    const box = boundsOf(stroke);
+    const overlaps = (g: WrittenGlyph) => box.x - pad <= g.box.x + g.box.width + pad && g.box.x - pad <= box.x + box.width + pad;
+    // A stroke bridging glyphs (the bar of an H drawn last) joins them
+    const joined = glyphs.filter(overlaps);
+    const strokes = [...joined.flatMap(g => g.strokes), stroke];
+    glyphs = [...glyphs.filter(g => !joined.includes(g)), { strokes, box: strokeBox(strokes) }];
+  }
+  return glyphs.sort((a, b) => a.box.x - b.box.x);
+};
+
+export interface RecognizedText {
+  text: string;
+  box: Box;                    // Of all the writing
+  glyphs: WrittenGlyph[];       // Left to right, one per non-space character
+  lineHeight: number;
+}
+
+// Unreadable glyphs become '?'; null when nothing at all could be read
+export const recognizeText = (strokes: Point[][], templates: PreparedTemplate[]): RecognizedText | null => {
+  const glyphs = segmentGlyphs(strokes);
+  if (glyphs.length === 0) return null;
+  const lineHeight = Math.max(...glyphs.map(g => g.box.height), 1);
+
+  let text = '';
+  let readable = 0;
+  glyphs.forEach((glyph, i) => {
+    const previous = glyphs[i - 1];
+    if (previous && glyph.box.x - (previous.box.x + previous.box.width) > lineHeight * SPACE_GAP) text += ' ';
+    const isDot = Math.max(glyph.box.width, glyph.box.height) < lineHeight * DOT_SIZE;
+    const match = isDot ? { char: '.', distance: 0 } : recognizeGlyph(glyph.strokes, templates);
+    if (match) readable++;
+    text += match ? match.char : '?';
+  });
+  if (readable === 0) return null;
+  return { text, box: strokeBox(glyphs.flatMap(g => g.strokes)), glyphs, lineHeight };
+};
+
+// --- TEXT OBJECTS ---
+
+// The recognized text, typed where it was written and about as tall
+export const createTextObject = (result: RecognizedText, color: string, layerId: string, t?: number): TextObject => ({
+  id: `text-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  text: result.text,
+  x: result.box.x,
+  y: result.box.y,
+  size: Math.round(result.lineHeight * TEXT_SIZE_FACTOR * 10) / 10,
+  color,
+  layerId,
+  t
+});
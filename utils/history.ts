@@ -0,0 +1,121 @@
+import { DrawingPath, Layer, TextObject } from '../types';
+
+// Command history for the drawing (paths, layers and text objects).
+// Commands keep references to the affected paths so they can be reverted exactly.
+
+export interface Drawing {
+  paths: DrawingPath[];
+  layers: Layer[];
+  texts: TextObject[];
+}
+
+export type RemovedPath = { index: number; path: DrawingPath };
+
+// Text objects are few, so a change keeps the whole list before and after
+export type TextsChange = { before: TextObject[]; after: TextObject[] };
+
+export type HistoryCommand =
+  | { type: 'add'; path: DrawingPath }
+  | { type: 'duplicate'; paths: DrawingPath[] } // Copies added on top
+  | { type: 'replace'; before: DrawingPath[]; after: DrawingPath[] } // Swapped in place (move / scale / rotate / recolor)
+  | { type: 'erase'; removed: RemovedPath[]; texts?: TextsChange } // indices ascending; clearing takes texts along
+  | { type: 'layers'; before: Layer[]; after: Layer[]; removed: RemovedPath[]; texts?: TextsChange } // Paths and texts of deleted layers go with them
+  | ({ type: 'texts' } & TextsChange) // Placed, edited or deleted text
+  | { type: 'import'; previous: Drawing; next: Drawing }; // Replaces the whole drawing
+
+export interface History {
+  undoStack: HistoryCommand[];
+  redoStack: HistoryCommand[];
+}
+
+const MAX_HISTORY = 200;
+
+export const createHistory = (): History => ({
+  undoStack: [],
+  redoStack: []
+});
+
+const swapPaths = (paths: DrawingPath[], from: DrawingPath[], to: DrawingPath[]): DrawingPath[] => {
+  const swap = new Map(from.map((path, i) => [path, to[i]]));
+  return paths.map(p => swap.get(p) ?? p);
+};
+
+const removePaths = (paths: DrawingPath[], removed: RemovedPath[]): DrawingPath[] => {
+  const set = new Set(removed.map(r => r.path));
+  return paths.filter(p => !set.has(p));
+};
+
+const restorePaths = (paths: DrawingPath[], removed: RemovedPath[]): DrawingPath[] => {
+  const next = [...paths];
+  for (const { index, path } of removed) {
+    next.splice(Math.min(index, next.length), 0, path);
+  }
+  return next;
+};
+
+export const applyCommand = (drawing: Drawing, cmd: HistoryCommand): Drawing => {
+  const { paths, texts } = drawing;
+  switch (cmd.type) {
+    case 'add':
+      return { ...drawing, paths: [...paths, cmd.path] };
+    case 'duplicate':
+      return { ...drawing, paths: [...paths, ...cmd.paths] };
+    case 'replace':
+      return { ...drawing, paths: swapPaths(paths, cmd.before, cmd.after) };
+    case 'erase':
+      return { ...drawing, paths: removePaths(paths, cmd.removed), texts: cmd.texts ? cmd.texts.after : texts };
+    case 'layers':
+      return { paths: removePaths(paths, cmd.removed), layers: cmd.after, texts: cmd.texts ? cmd.texts.after : texts };
+    case 'texts':
+      return { ...drawing, texts: cmd.after };
+    case 'import':
+      return { paths: [...cmd.next.paths], layers: cmd.next.layers, texts: cmd.next.texts };
+  }
+};
+
+export const revertCommand = (drawing: Drawing, cmd: HistoryCommand): Drawing => {
+  const { paths, texts } = drawing;
+  switch (cmd.type) {
+    case 'add':
+      return { ...drawing, paths: paths.filter(p => p !== cmd.path) };
+    case 'duplicate': {
+      const added = new Set(cmd.paths);
+      return { ...drawing, paths: paths.filter(p => !added.has(p)) };
+    }
+    case 'replace':
+      return { ...drawing, paths: swapPaths(paths, cmd.after, cmd.before) };
+    case 'erase':
+      return { ...drawing, paths: restorePaths(paths, cmd.removed), texts: cmd.texts ? cmd.texts.before : texts };
+    case 'layers':
+      return { paths: restorePaths(paths, cmd.removed), layers: cmd.before, texts: cmd.texts ? cmd.texts.before : texts };
+    case 'texts':
+      return { ...drawing, texts: cmd.before };
+    case 'import':
+      return { paths: [...cmd.previous.paths], layers: cmd.previous.layers, texts: cmd.previous.texts };
+  }
+};
+
+// Applies a new command and records it. Any redo branch is discarded.
+export const executeCommand = (history: History, drawing: Drawing, cmd: HistoryCommand): Drawing => {
+  history.undoStack.push(cmd);
+  if (history.undoStack.length > MAX_HISTORY) history.undoStack.shift();
+  history.redoStack = [];
+  return applyCommand(drawing, cmd);
+};
+
+export const undo = (history: History, drawing: Drawing): Drawing => {
+  const cmd = history.undoStack.pop();
+  if (!cmd) return drawing;
+  history.redoStack.push(cmd);
+  return revertCommand(drawing, cmd);
+};
+
+export const redo = (history: History, drawing: Drawing): Drawing => {
+  const cmd = history.redoStack.pop();
+  if (!cmd) return drawing;
+  history.undoStack.push(cmd);
+  return applyCommand(drawing, cmd);
+};
+
+export const canUndo = (history: History): boolean => history.undoStack.length > 0;
+export const canRedo = (history: History): boolean => history.redoStack.length > 0;
@@ -0,0 +1,199 @@
+import { TrackedHand } from '../types';
+import { readHandResults } from './handTracking';
+
+// Hand landmark inference, decoupled from the render loop. Camera frames are captured as they
+// arrive (requestVideoFrameCallback where available) and handed to a tracker: by default a Web
+// Worker running MediaPipe Tasks on an ImageBitmap (workers/handWorker.ts), otherwise the
+// main-thread MediaPipe Hands solution. At most one frame is in flight; frames arriving while the
+// tracker is busy are dropped and counted. Every result carries the capture time of its frame.
+
+export type InferenceBackend = 'worker' | 'main';
+
+export interface InferenceOptions {
+  maxNumHands: number;
+  modelComplexity: number; // Main-thread solution only (the worker model has a single complexity)
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+}
+
+export interface HandFrameResult {
+  hands: TrackedHand[];
+  capturedAt: number; // Epoch ms (same timebase as Date.now()) the camera frame was captured
+}
+
+export interface HandTracker {
+  backend: InferenceBackend;
+  isReady: () => boolean; // Model loaded
+  isBusy: () => boolean;  // A frame is in flight
+  send: (video: HTMLVideoElement, capturedAt: number) => void;
+  setOptions: (options: InferenceOptions) => void;
+  close: () => void;
+}
+
+// Messages exchanged with workers/handWorker.ts
+export type WorkerRequest =
+  | { type: 'init'; options: InferenceOptions }
+  | { type: 'options'; options: InferenceOptions }
+  | { type: 'frame'; bitmap: ImageBitmap; capturedAt: number };
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; results: { multiHandLandmarks: unknown[]; multiHandedness: unknown[] }; capturedAt: number }
+  | { type: 'error'; message: string };
+
+const MEDIAPIPE_HANDS_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240';
+const FALLBACK_CAPTURE_INTERVAL_MS = 33; // Without requestVideoFrameCallback: poll at camera rate
+const METRIC_SAMPLES = 60;
+
+// performance.now() as epoch ms, comparable with Date.now() but sub-millisecond
+export const epochNow = (): number => performance.timeOrigin + performance.now();
+
+// --- TRACKERS ---
+
+// `onError` reports a worker that failed to start or crashed; the caller falls back to the main thread
+export const createWorkerTracker = (
+  options: InferenceOptions,
+  onResult: (result: HandFrameResult) => void,
+  onError: (message: string) => void
+): HandTracker => {
+  const worker = new Worker(new URL('../workers/handWorker.ts', import.meta.url), { type: 'module' });
+  let ready = false;
+  let inFlight = false;
+  let closed = false;
+
+  const post = (message: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data;
+    if (msg.type === 'ready') {
+      ready = true;
+    } else if (msg.type === 'result') {
+      inFlight = false;
+      if (!closed) onResult({ hands: readHandResults(msg.results), capturedAt: msg.capturedAt });
+    } else {
+      inFlight = false;
+      if (!closed) onError(msg.message);
+    }
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    if (!closed) onError(e.message || 'Hand tracking worker failed');
+  };
+  post({ type: 'init', options });
+
+  return {
+    backend: 'worker',
+    isReady: () => ready,
+    isBusy: () => inFlight,
+    send: (video, capturedAt) => {
+      inFlight = true;
+      createImageBitmap(video).then(
+        bitmap => {
+          if (closed) bitmap.close();
+          else post({ type: 'frame', bitmap, capturedAt }, [bitmap]);
+        },
+        () => { inFlight = false; }
+      );
+    },
+    setOptions: (next) => post({ type: 'options', options: next }),
+    close: () => {
+      closed = true;
+      worker.terminate();
+    }
+  };
+};
+
+// The MediaPipe Hands solution loaded by index.html, run on the main thread
+export const createMainTracker = (options: InferenceOptions, onResult: (result: HandFrameResult) => void): HandTracker => {
+  // @ts-ignore
+  const hands = new window.Hands({ locateFile: (file: string) => `${MEDIAPIPE_HANDS_URL}/${file}` });
+  let inFlight = false;
+  let closed = false;
+  let capturedAt = 0;
+
+  hands.setOptions(options);
+  hands.onResults((results: unknown) => {
+    inFlight = false;
+    if (!closed) onResult({ hands: readHandResults(results), capturedAt });
+  });
+
+  return {
+    backend: 'main',
+    isReady: () => true,
+    isBusy: () => inFlight,
+    send: (video, at) => {
+      inFlight = true;
+      capturedAt = at;
+      hands.send({ image: video }).catch(() => {
+        inFlight = false;
+        console.warn("Frame dropped");
+      });
+    },
+    setOptions: (next) => hands.setOptions(next),
+    close: () => {
+      closed = true;
+      hands.close();
+    }
+  };
+};
+
+// Calls `onFrame` once per new camera frame with its capture time; returns a stop function
+export const startFrameCapture = (video: HTMLVideoElement, onFrame: (capturedAt: number) => void): (() => void) => {
+  let stopped = false;
+
+  // Not in every browser yet, though lib.dom declares it
+  if (typeof video.requestVideoFrameCallback === 'function') {
+    let handle = 0;
+    const tick: VideoFrameRequestCallback = (_now, metadata) => {
+      if (stopped) return;
+      // captureTime (camera streams, performance.now() timebase) is the most precise when present
+      onFrame(metadata.captureTime ? performance.timeOrigin + metadata.captureTime : epochNow());
+      handle = video.requestVideoFrameCallback(tick);
+    };
+    handle = video.requestVideoFrameCallback(tick);
+    return () => {
+      stopped = true;
+      video.cancelVideoFrameCallback(handle);
+    };
+  }
+
+  const timer = setInterval(() => {
+    if (!stopped && video.readyState >= 2) onFrame(epochNow());
+  }, FALLBACK_CAPTURE_INTERVAL_MS);
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+};
+
+// --- METRICS ---
+
+export interface InferenceMetrics {
+  frames: number;        // Camera frames seen
+  dropped: number;       // Frames skipped because the tracker was busy
+  latencies: number[];   // Capture to result (ms), most recent last
+  resultTimes: number[]; // Arrival of recent results (epoch ms)
+}
+
+export const createInferenceMetrics = (): InferenceMetrics => ({ frames: 0, dropped: 0, latencies: [], resultTimes: [] });
+
+export const recordInferenceResult = (metrics: InferenceMetrics, capturedAt: number, arrivedAt: number) => {
+  metrics.latencies.push(arrivedAt - capturedAt);
+  metrics.resultTimes.push(arrivedAt);
+  if (metrics.latencies.length > METRIC_SAMPLES) metrics.latencies.shift();
+  if (metrics.resultTimes.length > METRIC_SAMPLES) metrics.resultTimes.shift();
+};
+
+// Events per second over a list of recent timestamps
+export const ratePerSecond = (times: number[]): number => {
+  if (times.length < 2) return 0;
+  const span = times[times.length - 1] - times[0];
+  return span > 0 ? ((times.length - 1) * 1000) / span : 0;
+};
+
+export const summarizeInference = (metrics: InferenceMetrics) => ({
+  latencyMs: metrics.latencies.length > 0 ? metrics.latencies.reduce((a, b) => a + b, 0) / metrics.latencies.length : 0,
+  fps: ratePerSecond(metrics.resultTimes),
+  dropped: metrics.dropped,
+  droppedShare: metrics.frames > 0 ? metrics.dropped / metrics.frames : 0
+});
@@ -0,0 +1,90 @@
+import { DrawingPath, ViewTransform } from '../types';
+import { drawInkPath } from './render';
+import { applyViewTransform } from './viewport';
+
+// Committed ink, rasterized once per layer for the current view and canvas size, so a frame only
+// composites these canvases and draws what is live on top. Committed paths are never mutated,
+// so a layer's path list is compared by identity: when the cached list is a prefix of the new one
+// only the new paths are drawn (pixel erasers cut the layer's own canvas, as they would live).
+// Anything else (erase, clear, undo, a replaced or hidden path, a new view or size) redraws the layer.
+
+interface LayerInk {
+  canvas: HTMLCanvasElement;
+  paths: DrawingPath[];
+  view: ViewTransform;
+}
+
+export interface InkCacheStats {
+  pathsDrawn: number; // Paths rasterized this frame
+  rebuilt: number;    // Layers redrawn from scratch this frame
+}
+
+export interface InkCache {
+  layers: Map<string, LayerInk>;
+  stats: InkCacheStats;
+}
+
+export const createInkCache = (): InkCache => ({
+  layers: new Map(),
+  stats: { pathsDrawn: 0, rebuilt: 0 }
+});
+
+const sameView = (a: ViewTransform, b: ViewTransform): boolean => a.x === b.x && a.y === b.y && a.scale === b.scale;
+
+const isPrefix = (prefix: DrawingPath[], paths: DrawingPath[]): boolean => {
+  if (prefix.length > paths.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (prefix[i] !== paths[i]) return false;
+  }
+  return true;
+};
+
+// Starts a frame: resets the stats and drops the canvases of layers that no longer exist
+export const beginInkFrame = (cache: InkCache, layerIds: string[]) => {
+  cache.stats = { pathsDrawn: 0, rebuilt: 0 };
+  for (const id of cache.layers.keys()) {
+    if (!layerIds.includes(id)) cache.layers.delete(id);
+  }
+};
+
+// The layer's committed `paths` (bottom to top) rendered in screen space
+export const getLayerInk = (
+  cache: InkCache,
+  layerId: string,
+  paths: DrawingPath[],
+  view: ViewTransform,
+  width: number,
+  height: number
+): HTMLCanvasElement => {
+  let entry = cache.layers.get(layerId);
+  if (!entry) {
+    entry = { canvas: document.createElement('canvas'), paths: [], view };
+    cache.layers.set(layerId, entry);
+  }
+  const { canvas } = entry;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  // Resizing clears the canvas
+  const resized = canvas.width !== width || canvas.height !== height;
+  if (resized) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const incremental = !resized && sameView(entry.view, view) && isPrefix(entry.paths, paths);
+  if (!incremental) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    cache.stats.rebuilt++;
+  }
+
+  const start = incremental ? entry.paths.length : 0;
+  if (start < paths.length) {
+    applyViewTransform(ctx, view);
+    for (let i = start; i < paths.length; i++) drawInkPath(ctx, paths[i]);
+    cache.stats.pathsDrawn += paths.length - start;
+  }
+  entry.paths = paths;
+  entry.view = view;
+  return canvas;
+};
@@ -0,0 +1,56 @@
+import { DrawingPath, Layer } from '../types';
+
+// Layer list helpers. Layers are immutable: every edit returns a new list
+// (so the 'layers' history command can keep both versions).
+
+export const MAX_LAYERS = 5;
+export const DEFAULT_LAYER_ID = 'layer-1';
+
+// Opacity steps cycled through by the menu
+const OPACITY_STEPS = [1, 0.75, 0.5, 0.25];
+
+export const createDefaultLayer = (): Layer => ({
+  id: DEFAULT_LAYER_ID,
+  name: 'Layer 1',
+  visible: true,
+  locked: false,
+  opacity: 1
+});
+
+// Numbered after the highest "Layer N" so names stay unique after deletions
+export const createLayer = (layers: Layer[]): Layer => {
+  const numbers = layers.map(l => parseInt(l.name.replace(/^Layer /, ''), 10)).filter(n => !Number.isNaN(n));
+  return {
+    id: Date.now().toString(36),
+    name: `Layer ${Math.max(0, ...numbers) + 1}`,
+    visible: true,
+    locked: false,
+    opacity: 1
+  };
+};
+
+export const updateLayer = (layers: Layer[], id: string, patch: Partial<Layer>): Layer[] => {
+  return layers.map(l => l.id === id ? { ...l, ...patch } : l);
+};
+
+// delta > 0 moves the layer up (towards the top of the stack)
+export const moveLayer = (layers: Layer[], id: string, delta: number): Layer[] => {
+  const from = layers.findIndex(l => l.id === id);
+  const to = Math.min(layers.length - 1, Math.max(0, from + delta));
+  if (from < 0 || from === to) return layers;
+  const next = [...layers];
+  next.splice(to, 0, next.splice(from, 1)[0]);
+  return next;
+};
+
+export const nextOpacity = (opacity: number): number => {
+  const index = OPACITY_STEPS.findIndex(step => step <= opacity + 1e-6);
+  return OPACITY_STEPS[(index + 1) % OPACITY_STEPS.length];
+};
+
+// Drawing, erasing and selecting only touch an unlocked, visible layer
+export const isLayerEditable = (layer: Layer | undefined): boolean => !!layer && layer.visible && !layer.locked;
+
+export const getLayerPaths = (paths: DrawingPath[], layerId: string): DrawingPath[] => {
+  return paths.filter(p => p.layerId === layerId);
+};
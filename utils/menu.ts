@@ -0,0 +1,249 @@
+import { EraserMode, Layer, Palette, ToolType } from '../types';
+import { ExportKind } from './export';
+
+// The gesture menu as data. The Toolbar renders these sections, and App hit-tests the very same items
+// (by DOM id) and runs their actions; the radial menu (utils/radialMenu.ts) lays them out as sectors.
+// Either way, adding a button is one entry here.
+
+export const BRUSH_SIZES = [2, 5, 10, 15];
+
+// Dwell: hover a button of the panel until it fills. Radial: flick / pinch a sector (utils/radialMenu.ts)
+export type MenuStyle = 'dwell' | 'radial';
+export const MENU_STYLES: MenuStyle[] = ['dwell', 'radial'];
+
+export const COLOR_WHEEL_ID = 'btn-color-wheel';
+export const COLOR_VALUE_ID = 'btn-color-value';
+
+export type PaletteEdit = 'prev' | 'next' | 'addColor' | 'removeColor' | 'new' | 'delete';
+
+export type MenuAction =
+  | { type: 'tool'; tool: ToolType }
+  | { type: 'eraserMode'; mode: EraserMode }
+  | { type: 'selection'; action: 'delete' | 'duplicate' | 'recolor' }
+  | { type: 'layer'; action: 'add' | 'up' | 'down' | 'opacity' | 'delete' }
+  | { type: 'layerSelect'; layerId: string }
+  | { type: 'layerToggle'; layerId: string; key: 'visible' | 'locked' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'export'; kind: ExportKind }
+  | { type: 'timelapse' } // Open the time-lapse player
+  | { type: 'smartShapes' }
+  | { type: 'settings' }
+  | { type: 'color'; color: string }
+  | { type: 'picker' }     // Show / hide the color wheel
+  | { type: 'colorWheel' } // Hue and saturation from where the wheel is picked
+  | { type: 'colorValue' } // Brightness from where the strip is picked
+  | { type: 'palette'; edit: PaletteEdit }
+  | { type: 'size'; size: number };
+
+export type MenuItemKind = 'tool' | 'button' | 'icon' | 'layer' | 'swatch' | 'size' | 'wheel' | 'valueStrip';
+
+export interface MenuItem {
+  id: string;  // DOM id of the rendered element, which the menu cursor is tested against
+  kind: MenuItemKind;
+  action: MenuAction;
+  label?: string;
+  active?: boolean;
+  dimmed?: boolean;               // Greyed out (nothing to undo, built-in palette, ...)
+  tone?: 'blue' | 'red' | 'cyan'; // Highlight when active
+  color?: string;                 // Swatch color; the current color for the wheel and strip
+  size?: number;                  // Brush size dots
+}
+
+export interface MenuSection {
+  id: string;
+  caption?: string;
+  panel?: boolean; // Drawn on a darker backdrop
+  rows: MenuItem[][];
+}
+
+// Everything the menu shows
+export interface MenuContext {
+  tool: ToolType;
+  eraserMode: EraserMode;
+  color: string;
+  size: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  smartShapes: boolean;
+  selectionCount: number;
+  layers: Layer[]; // Bottom to top
+  activeLayerId: string;
+  palette: Palette;
+  paletteIndex: number; // Among all palettes, the built-in one first
+  paletteCount: number;
+  pickerOpen: boolean;
+}
+
+const EXPORTS: { kind: ExportKind; label: string }[] = [
+  { kind: 'svg', label: 'SVG' },
+  { kind: 'png', label: 'PNG' },
+  { kind: 'png-camera', label: 'PNG+CAM' },
+  { kind: 'json', label: 'JSON' },
+];
+
+const LAYER_ACTIONS: { action: Extract<MenuAction, { type: 'layer' }>['action']; label: string }[] = [
+  { action: 'add', label: '+ NEW' },
+  { action: 'up', label: '▲' },
+  { action: 'down', label: '▼' },
+  { action: 'opacity', label: '◐' },
+  { action: 'delete', label: '🗑' },
+];
+
+const SELECTION_ACTIONS: { action: Extract<MenuAction, { type: 'selection' }>['action']; label: string }[] = [
+  { action: 'delete', label: 'DELETE' },
+  { action: 'duplicate', label: 'DUPLICATE' },
+  { action: 'recolor', label: 'RECOLOR' },
+];
+
+export const buildMenu = (ctx: MenuContext): MenuSection[] => {
+  const sections: MenuSection[] = [];
+
+  const tool = (id: string, label: string, value: ToolType, tone: MenuItem['tone']): MenuItem => ({
+    id, kind: 'tool', label, tone, active: ctx.tool === value, action: { type: 'tool', tool: value }
+  });
+  sections.push({
+    id: 'tools',
+    rows: [[
+      tool('btn-pen', 'PEN', ToolType.PEN, 'blue'),
+      tool('btn-eraser', 'ERASER', ToolType.ERASER, 'red'),
+      tool('btn-select', 'LASSO', ToolType.SELECT, 'cyan'),
+      tool('btn-text', 'Aa TEXT', ToolType.TEXT, 'blue')
+    ]]
+  });
+
+  if (ctx.selectionCount > 0) {
+    sections.push({
+      id: 'selection',
+      caption: `${ctx.selectionCount} selected`,
+      panel: true,
+      rows: [SELECTION_ACTIONS.map(({ action, label }) => ({
+        id: `btn-selection-${action}`, kind: 'button', label, action: { type: 'selection', action }
+      }))]
+    });
+  }
+
+  if (ctx.tool === ToolType.ERASER) {
+    const mode = (id: string, label: string, value: EraserMode): MenuItem => ({
+      id, kind: 'button', label, tone: 'red', active: ctx.eraserMode === value, action: { type: 'eraserMode', mode: value }
+    });
+    sections.push({
+      id: 'eraser',
+      panel: true,
+      rows: [[mode('btn-eraser-pixel', 'PIXEL', EraserMode.PIXEL), mode('btn-eraser-stroke', 'STROKE', EraserMode.STROKE)]]
+    });
+  }
+
+  // Layers are listed top first; ids use the bottom-to-top index
+  const layerRows = ctx.layers.map((layer, idx): MenuItem[] => [
+    {
+      id: `btn-layer-${idx}`,
+      kind: 'layer',
+      label: `${layer.name}${layer.opacity < 1 ? ` · ${Math.round(layer.opacity * 100)}%` : ''}`,
+      tone: 'cyan',
+      active: layer.id === ctx.activeLayerId,
+      action: { type: 'layerSelect', layerId: layer.id }
+    },
+    {
+      id: `btn-layer-visible-${idx}`,
+      kind: 'icon',
+      label: layer.visible ? '👁' : '—',
+      dimmed: !layer.visible,
+      action: { type: 'layerToggle', layerId: layer.id, key: 'visible' }
+    },
+    {
+      id: `btn-layer-lock-${idx}`,
+      kind: 'icon',
+      label: layer.locked ? '🔒' : '🔓',
+      tone: 'red',
+      active: layer.locked,
+      action: { type: 'layerToggle', layerId: layer.id, key: 'locked' }
+    }
+  ]);
+  sections.push({
+    id: 'layers',
+    panel: true,
+    rows: [
+      ...layerRows.reverse(),
+      LAYER_ACTIONS.map(({ action, label }) => ({ id: `btn-layer-${action}`, kind: 'button', label, action: { type: 'layer', action } }))
+    ]
+  });
+
+  sections.push({
+    id: 'history',
+    rows: [[
+      { id: 'btn-undo', kind: 'button', label: '↶ UNDO', dimmed: !ctx.canUndo, action: { type: 'undo' } },
+      { id: 'btn-redo', kind: 'button', label: 'REDO ↷', dimmed: !ctx.canRedo, action: { type: 'redo' } }
+    ]]
+  });
+
+  sections.push({
+    id: 'export',
+    panel: true,
+    rows: [
+      EXPORTS.map(({ kind, label }) => ({ id: `btn-export-${kind}`, kind: 'button', label, action: { type: 'export', kind } })),
+      [{ id: 'btn-timelapse', kind: 'button', label: '▶ TIME-LAPSE', action: { type: 'timelapse' } }]
+    ]
+  });
+
+  sections.push({
+    id: 'options',
+    rows: [[
+      {
+        id: 'btn-shapes',
+        kind: 'button',
+        label: `△ SHAPES ${ctx.smartShapes ? 'ON' : 'OFF'}`,
+        tone: 'blue',
+        active: ctx.smartShapes,
+        action: { type: 'smartShapes' }
+      },
+      { id: 'btn-settings', kind: 'button', label: '⚙ SETTINGS', action: { type: 'settings' } }
+    ]]
+  });
+
+  // Colors: the active palette, then the wheel (when open) and palette switching / editing
+  const { palette } = ctx;
+  const builtin = ctx.paletteIndex === 0;
+  const swatches: MenuItem[] = palette.colors.map((color, idx) => ({
+    id: `btn-color-${idx}`, kind: 'swatch', color, active: color === ctx.color, action: { type: 'color', color }
+  }));
+  const edit = (id: string, label: string, value: PaletteEdit, dimmed = false): MenuItem => ({
+    id, kind: 'button', label, dimmed, action: { type: 'palette', edit: value }
+  });
+  sections.push({
+    id: 'colors',
+    caption: `${palette.name} (${ctx.paletteIndex + 1}/${ctx.paletteCount})`,
+    panel: true,
+    rows: [
+      [...swatches, { id: 'btn-color-picker', kind: 'icon', label: '🎨', tone: 'blue', active: ctx.pickerOpen, action: { type: 'picker' } }],
+      ...(ctx.pickerOpen ? [
+        [{ id: COLOR_WHEEL_ID, kind: 'wheel', color: ctx.color, action: { type: 'colorWheel' } } as MenuItem],
+        [{ id: COLOR_VALUE_ID, kind: 'valueStrip', color: ctx.color, action: { type: 'colorValue' } } as MenuItem]
+      ] : []),
+      [
+        edit('btn-palette-prev', '◀', 'prev', ctx.paletteCount < 2),
+        edit('btn-palette-add', '+ COLOR', 'addColor', palette.colors.includes(ctx.color)),
+        edit('btn-palette-remove', '− COLOR', 'removeColor', builtin || !palette.colors.includes(ctx.color)),
+        edit('btn-palette-new', '+ NEW', 'new'),
+        edit('btn-palette-delete', '🗑', 'delete', builtin),
+        edit('btn-palette-next', '▶', 'next', ctx.paletteCount < 2)
+      ]
+    ]
+  });
+
+  sections.push({
+    id: 'sizes',
+    panel: true,
+    rows: [BRUSH_SIZES.map((size, idx) => ({
+      id: `btn-size-${idx}`, kind: 'size', size, active: ctx.size === size, action: { type: 'size', size }
+    }))]
+  });
+
+  return sections;
+};
+
+export const getMenuItems = (sections: MenuSection[]): MenuItem[] => sections.flatMap(s => s.rows.flat());
+
+export const findMenuItem = (sections: MenuSection[], id: string): MenuItem | null => {
+  return getMenuItems(sections).find(item => item.id === id) ?? null;
+};
@@ -0,0 +1,53 @@
+import { Palette } from '../types';
+import { loadJson, saveJson } from './storage';
+import { isHexColor } from './color';
+
+// The built-in palette plus the user's own. Palettes are immutable: every edit returns a new list.
+
+export const BUILTIN_PALETTE: Palette = {
+  id: 'basic',
+  name: 'Basic',
+  colors: ['#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#FFFF00']
+};
+
+export const MAX_PALETTES = 6;       // User palettes
+export const MAX_PALETTE_COLORS = 8; // What fits in one menu row
+
+// Numbered after the highest "Palette N" so names stay unique after deletions
+export const createPalette = (palettes: Palette[], colors: string[] = []): Palette => {
+  const numbers = palettes.map(p => parseInt(p.name.replace(/^Palette /, ''), 10)).filter(n => !Number.isNaN(n));
+  return {
+    id: Date.now().toString(36),
+    name: `Palette ${Math.max(0, ...numbers) + 1}`,
+    colors
+  };
+};
+
+// Unchanged (same list) when the color is already there or the palette is full
+export const addPaletteColor = (palettes: Palette[], id: string, color: string): Palette[] => {
+  const palette = palettes.find(p => p.id === id);
+  if (!palette || palette.colors.includes(color) || palette.colors.length >= MAX_PALETTE_COLORS) return palettes;
+  return palettes.map(p => p.id === id ? { ...p, colors: [...p.colors, color] } : p);
+};
+
+export const removePaletteColor = (palettes: Palette[], id: string, color: string): Palette[] => {
+  return palettes.map(p => p.id === id ? { ...p, colors: p.colors.filter(c => c !== color) } : p);
+};
+
+const isPalette = (p: unknown): p is Palette => {
+  if (typeof p !== 'object' || p === null) return false;
+  const { id, name, colors } = p as Record<string, unknown>;
+  return typeof id === 'string'
+    && typeof name === 'string'
+    && Array.isArray(colors)
+    && colors.every(isHexColor);
+};
+
+export const loadPalettes = (): Palette[] => {
+  const palettes = loadJson<unknown>('palettes', []);
+  return Array.isArray(palettes) ? palettes.filter(isPalette) : [];
+};
+export const savePalettes = (palettes: Palette[]) => saveJson('palettes', palettes);
+
+export const loadActivePaletteId = (): string => loadJson('activePalette', BUILTIN_PALETTE.id);
+export const saveActivePaletteId = (id: string) => saveJson('activePalette', id);
@@ -0,0 +1,123 @@
+import { Point, StrokePoint } from '../types';
+import { ALL_ROLES, DEFAULT_GESTURE_CONFIG, GestureAction, GestureConfig, GestureState, GestureStep, HandRoles } from './gestureEngine';
+import { distanceSq } from './geometry';
+
+// Mouse, touch and pen as an input provider next to the hand tracker. A pointer drives the same
+// GestureState (IDLE / HOVER / DRAWING / GRABBING / MENU) and emits the same actions as a hand, so the
+// app handles both alike: the primary button (or a touch / pen contact) draws, the secondary or middle
+// button grabs (moves the selection, pans on empty canvas), and with the menu open the pointer points
+// at it, a press confirming like a pinch. Events are queued as samples and stepped by the render loop.
+
+export type PointerKind = 'mouse' | 'touch' | 'pen';
+
+export interface PointerSample {
+  point: Point | null; // Screen coordinates; null once the pointer has left the canvas
+  buttons: number;     // PointerEvent.buttons
+  kind: PointerKind;
+  pressure?: number;   // Pens only (mice and fingers report a fixed value)
+  t: number;           // Epoch ms, like tracker capture times
+}
+
+const PRIMARY_BUTTON = 1;
+const GRAB_BUTTONS = 2 | 4; // Secondary and middle
+
+// Coalesced events keep fast pen strokes smooth (browsers without them give the event itself)
+export const toPointerSamples = (e: PointerEvent): PointerSample[] => {
+  const left = e.type === 'pointerleave' || e.type === 'pointercancel';
+  const events = e.type === 'pointermove' && typeof e.getCoalescedEvents === 'function' ? e.getCoalescedEvents() : [];
+  return (events.length > 0 ? events : [e]).map(event => ({
+    point: left ? null : { x: event.clientX, y: event.clientY },
+    buttons: left ? 0 : event.buttons,
+    kind: e.pointerType === 'pen' || e.pointerType === 'touch' ? e.pointerType : 'mouse',
+    pressure: e.pointerType === 'pen' ? event.pressure : undefined,
+    t: performance.timeOrigin + event.timeStamp
+  }));
+};
+
+// `roles.draw` false keeps the pointer hovering (a hand is already drawing)
+export const stepPointer = (
+  prev: GestureState,
+  sample: PointerSample,
+  config: GestureConfig = DEFAULT_GESTURE_CONFIG,
+  roles: HandRoles = ALL_ROLES
+): GestureStep => {
+  const s: GestureState = { ...prev };
+  const actions: GestureAction[] = [];
+
+  const endStroke = () => {
+    if (s.lastStrokePoint) {
+      actions.push({ type: 'strokeEnd' });
+      s.lastStrokePoint = null;
+    }
+  };
+
+  const endGrab = () => {
+    if (s.mode === 'GRABBING') actions.push({ type: 'grabEnd' });
+  };
+
+  // Gone, or a lifted finger (which has nothing to hover with)
+  if (!sample.point || (sample.kind === 'touch' && sample.buttons === 0)) {
+    endStroke();
+    endGrab();
+    if (s.mode === 'MENU') actions.push({ type: 'menuPointer', point: null });
+    s.mode = 'IDLE';
+    s.rawPos = null;
+    s.smoothedPos = null;
+    s.consecutivePinchFrames = 0;
+    return { state: s, actions };
+  }
+
+  // Pointers are precise: no smoothing
+  const point = sample.point;
+  s.cursorPos = point;
+  s.rawPos = point;
+  s.smoothedPos = point;
+  s.lastFrameTime = sample.t;
+  if (sample.pressure !== undefined) s.pressure = sample.pressure;
+  const strokePoint: StrokePoint = sample.pressure === undefined ? { ...point } : { ...point, pressure: sample.pressure };
+
+  // Only a fresh press starts something (one held while the menu closed does not draw)
+  const pressed = sample.buttons;
+  const fresh = prev.consecutivePinchFrames === 0;
+  s.consecutivePinchFrames = pressed !== 0 ? 1 : 0;
+
+  if (!roles.draw && (s.mode === 'DRAWING' || s.mode === 'GRABBING')) {
+    endStroke();
+    endGrab();
+    s.mode = 'HOVER';
+  }
+
+  if (s.isMenuOpen) {
+    endStroke();
+    endGrab();
+    s.mode = 'MENU';
+    actions.push({ type: 'menuPointer', point });
+    if (pressed & PRIMARY_BUTTON && fresh) actions.push({ type: 'menuPinch' });
+  } else if (s.mode === 'DRAWING') {
+    if (!(pressed & PRIMARY_BUTTON)) {
+      endStroke();
+      s.mode = 'HOVER';
+    } else if (s.lastStrokePoint && distanceSq(s.lastStrokePoint, point) > config.minDrawDistPx * config.minDrawDistPx) {
+      s.lastStrokePoint = point;
+      actions.push({ type: 'pointAdded', point: strokePoint });
+    }
+  } else if (s.mode === 'GRABBING') {
+    if (!(pressed & GRAB_BUTTONS)) {
+      endGrab();
+      s.mode = 'HOVER';
+    } else {
+      actions.push({ type: 'grabMove', point });
+    }
+  } else if (roles.draw && fresh && pressed & PRIMARY_BUTTON) {
+    s.lastStrokePoint = point;
+    s.mode = 'DRAWING';
+    actions.push({ type: 'strokeStart', point: strokePoint });
+  } else if (roles.draw && fresh && pressed & GRAB_BUTTONS) {
+    s.mode = 'GRABBING';
+    actions.push({ type: 'grabStart', point });
+  } else {
+    s.mode = 'HOVER';
+  }
+
+  return { state: s, actions };
+};
@@ -0,0 +1,77 @@
+import { HandLandmark, PoseTemplate } from '../types';
+import { getHandSize } from './geometry';
+
+// Nearest-template classifier for static hand poses.
+// Landmarks are normalized so that position, size, in-plane rotation and
+// handedness don't matter: only the shape of the hand does.
+
+// Mean landmark distance (in hand sizes) under which a pose counts as a match
+export const POSE_MATCH_THRESHOLD = 0.22;
+
+export const normalizePose = (landmarks: HandLandmark[]): number[] => {
+  const wrist = landmarks[0];
+  const size = getHandSize(landmarks) || 1;
+
+  // Rotate so that wrist -> middle MCP points straight up
+  const angle = Math.atan2(landmarks[9].y - wrist.y, landmarks[9].x - wrist.x);
+  const rot = -Math.PI / 2 - angle;
+  const cos = Math.cos(rot);
+  const sin = Math.sin(rot);
+
+  const points = landmarks.map(l => {
+    const x = (l.x - wrist.x) / size;
+    const y = (l.y - wrist.y) / size;
+    return { x: x * cos - y * sin, y: x * sin + y * cos };
+  });
+
+  // Mirror one chirality onto the other so left- and right-hand poses compare equal
+  // (index MCP and pinky MCP sit on opposite sides of the wrist->middle axis)
+  const flip = points[5].x > points[17].x ? -1 : 1;
+
+  const out: number[] = [];
+  for (const p of points) out.push(p.x * flip, p.y);
+  return out;
+};
+
+// Mean Euclidean distance between corresponding landmarks
+export const poseDistance = (a: number[], b: number[]): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    total += Math.sqrt((a[i] - b[i]) ** 2 + (a[i + 1] - b[i + 1]) ** 2);
+  }
+  return total / (a.length / 2);
+};
+
+export interface PoseMatch {
+  template: PoseTemplate;
+  distance: number;
+}
+
+// Gesture detectors call this once per template per frame; memoize by landmark array
+const cache = new WeakMap<HandLandmark[], WeakMap<PoseTemplate[], PoseMatch | null>>();
+
+export const classifyPose = (
+  landmarks: HandLandmark[],
+  templates: PoseTemplate[],
+  threshold: number = POSE_MATCH_THRESHOLD
+): PoseMatch | null => {
+  let byTemplates = cache.get(landmarks);
+  if (byTemplates && byTemplates.has(templates)) return byTemplates.get(templates)!;
+
+  const features = normalizePose(landmarks);
+  let best: PoseMatch | null = null;
+  for (const template of templates) {
+    for (const sample of template.samples) {
+      const d = poseDistance(features, sample);
+      if (!best || d < best.distance) best = { template, distance: d };
+    }
+  }
+  const result = best && best.distance <= threshold ? best : null;
+
+  if (!byTemplates) {
+    byTemplates = new WeakMap();
+    cache.set(landmarks, byTemplates);
+  }
+  byTemplates.set(templates, result);
+  return result;
+};
@@ -0,0 +1,60 @@
+import { HandLandmark } from '../types';
+import { lerp } from './geometry';
+
+// Pressure-like signal for variable-width strokes. There is no real pressure in the air,
+// so three cues stand in for it: fingertips pushed toward the camera, a tighter pinch
+// and slower movement all make the line heavier.
+
+export interface PressureConfig {
+  depthWeight: number;
+  pinchWeight: number;
+  speedWeight: number;
+  depthRange: number;  // Fingertip depth in front of the wrist (in hand sizes) that reads as full pressure
+  maxSpeedPx: number;  // Cursor speed (px/s) at which the speed cue drops to zero
+  smoothing: number;   // Per-frame blend toward the new estimate (lower = steadier width)
+}
+
+export const DEFAULT_PRESSURE_CONFIG: PressureConfig = {
+  depthWeight: 1,
+  pinchWeight: 1,
+  speedWeight: 1,
+  depthRange: 0.5,
+  maxSpeedPx: 1500,
+  smoothing: 0.3,
+};
+
+// Pressure at which a stroke has exactly its nominal width
+export const NEUTRAL_PRESSURE = 0.5;
+
+const MIN_WIDTH_FACTOR = 0.3;
+const MAX_WIDTH_FACTOR = 1.7;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const estimatePressure = (
+  landmarks: HandLandmark[],
+  handSize: number,
+  pinchRatio: number,
+  pinchStartThreshold: number,
+  speedPx: number,
+  config: PressureConfig = DEFAULT_PRESSURE_CONFIG
+): number => {
+  // MediaPipe z is relative to the wrist; smaller means closer to the camera
+  const depth = handSize > 0 ? -((landmarks[4].z + landmarks[8].z) / 2) / handSize : 0;
+  const depthCue = clamp01(0.5 + depth / (2 * config.depthRange));
+  const pinchCue = clamp01(1 - pinchRatio / pinchStartThreshold);
+  const speedCue = 1 - clamp01(speedPx / config.maxSpeedPx);
+
+  const total = config.depthWeight + config.pinchWeight + config.speedWeight;
+  if (total <= 0) return NEUTRAL_PRESSURE;
+  return (depthCue * config.depthWeight + pinchCue * config.pinchWeight + speedCue * config.speedWeight) / total;
+};
+
+// Sensitivity 0 flattens every stroke to its nominal width, 1 keeps the full range
+export const applySensitivity = (pressure: number, sensitivity: number): number => {
+  return lerp(NEUTRAL_PRESSURE, pressure, sensitivity);
+};
+
+export const pressureWidthFactor = (pressure: number | undefined): number => {
+  return pressure === undefined ? 1 : lerp(MIN_WIDTH_FACTOR, MAX_WIDTH_FACTOR, clamp01(pressure));
+};
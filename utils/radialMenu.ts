@@ -0,0 +1,174 @@
+import { Point, Viewport } from '../types';
+import { distance } from './geometry';
+import { MenuAction, MenuItem, MenuSection } from './menu';
+
+// Radial (pie) menu over the same items as the dwell menu (utils/menu.ts). It opens around the hand;
+// a sector is picked by flicking out through it or by pinching while it is highlighted. Hit testing
+// is pure geometry (angle and distance from the centre), no DOM involved.
+
+export interface RadialConfig {
+  innerRadius: number; // Dead zone: nothing is highlighted, and returning here re-arms the flick
+  outerRadius: number; // Leaving the ring through it fast enough is a flick
+  flickMs: number;     // Longest time from leaving the dead zone to crossing the outer radius
+}
+
+export const DEFAULT_RADIAL_CONFIG: RadialConfig = {
+  innerRadius: 45,
+  outerRadius: 150,
+  flickMs: 300,
+};
+
+export interface RadialItem {
+  id: string;
+  label: string;
+  color?: string;           // Swatches are drawn filled
+  active?: boolean;
+  dimmed?: boolean;
+  action?: MenuAction;      // Leaf
+  children?: RadialItem[];  // Submenu
+}
+
+// Last sector of every submenu
+export const RADIAL_BACK_ID = 'radial-back';
+
+export interface RadialState {
+  center: Point;
+  path: string[];            // Open submenus, outermost first
+  highlighted: number | null;
+  armed: boolean;            // Back in the dead zone since the last flick
+  leftCenterAt: number | null;
+}
+
+export interface RadialStep {
+  state: RadialState;
+  picked: number | null; // Sector flicked this frame
+}
+
+const SECTION_LABELS: Record<string, string> = {
+  tools: '✏️ TOOLS',
+  selection: '⬚ SELECTION',
+  eraser: '🧽 ERASER',
+  layers: '☰ LAYERS',
+  history: '↶ HISTORY',
+  export: '⤓ EXPORT',
+  options: '⚙ OPTIONS',
+  colors: '🎨 COLORS',
+  sizes: '● SIZES',
+};
+
+// The color wheel needs a continuous position, which a sector cannot give
+const DWELL_ONLY: MenuAction['type'][] = ['picker', 'colorWheel', 'colorValue'];
+
+const toRadialItem = (item: MenuItem, row: MenuItem[]): RadialItem => {
+  // Icons only make sense next to their row (a layer's 👁 / 🔒), so they borrow its leading label
+  const lead = row[0];
+  const label = item.kind === 'size' ? `${item.size}px`
+    : item.kind === 'icon' && lead !== item && lead.label ? `${item.label} ${lead.label}`
+    : item.label ?? '';
+  return { id: item.id, label, color: item.kind === 'swatch' ? item.color : undefined, active: item.active, dimmed: item.dimmed, action: item.action };
+};
+
+// One submenu per menu section
+export const buildRadialMenu = (sections: MenuSection[]): RadialItem[] => sections.map(section => ({
+  id: `radial-${section.id}`,
+  label: SECTION_LABELS[section.id] ?? section.id.toUpperCase(),
+  children: section.rows.flatMap(row => row
+    .filter(item => !DWELL_ONLY.includes(item.action.type))
+    .map(item => toRadialItem(item, row)))
+}));
+
+// Sectors of the open (sub)menu; a submenu that no longer exists falls back to its parent
+export const getRadialRing = (root: RadialItem[], path: string[]): RadialItem[] => {
+  let ring = root;
+  for (const id of path) {
+    const submenu = ring.find(item => item.id === id)?.children;
+    if (!submenu) break;
+    ring = [...submenu, { id: RADIAL_BACK_ID, label: '↩ BACK' }];
+  }
+  return ring;
+};
+
+export const getRadialTitle = (root: RadialItem[], path: string[]): string => {
+  const open = path.length > 0 ? root.find(item => item.id === path[0]) : undefined;
+  return open ? open.label : 'FLICK / PINCH';
+};
+
+export const createRadialState = (center: Point): RadialState => ({
+  center,
+  path: [],
+  highlighted: null,
+  armed: false,
+  leftCenterAt: null,
+});
+
+// Keeps the whole ring on screen
+export const clampRadialCenter = (point: Point, viewport: Viewport, config: RadialConfig = DEFAULT_RADIAL_CONFIG): Point => {
+  const r = config.outerRadius;
+  return {
+    x: Math.min(Math.max(point.x, r), Math.max(r, viewport.width - r)),
+    y: Math.min(Math.max(point.y, r), Math.max(r, viewport.height - r))
+  };
+};
+
+// --- GEOMETRY ---
+// Angles run clockwise from straight up; sector 0 is centred on the top
+
+export const sectorAngles = (index: number, count: number): { start: number; end: number; mid: number } => {
+  const step = (Math.PI * 2) / count;
+  const mid = index * step;
+  return { start: mid - step / 2, end: mid + step / 2, mid };
+};
+
+export const radialPoint = (center: Point, angle: number, radius: number): Point => ({
+  x: center.x + Math.sin(angle) * radius,
+  y: center.y - Math.cos(angle) * radius
+});
+
+// Sector under `point`, null in the dead zone
+export const radialSectorAt = (center: Point, point: Point, count: number, config: RadialConfig = DEFAULT_RADIAL_CONFIG): number | null => {
+  if (count === 0 || distance(center, point) < config.innerRadius) return null;
+  const step = (Math.PI * 2) / count;
+  const angle = Math.atan2(point.x - center.x, center.y - point.y);
+  const normalized = (angle + Math.PI * 2 + step / 2) % (Math.PI * 2);
+  return Math.floor(normalized / step) % count;
+};
+
+// --- STATE MACHINE ---
+
+// A null point (finger not pointing) keeps the highlight, so a pinch can still confirm it
+export const stepRadial = (
+  prev: RadialState,
+  count: number,
+  point: Point | null,
+  timestamp: number,
+  config: RadialConfig = DEFAULT_RADIAL_CONFIG
+): RadialStep => {
+  if (!point) return { state: prev, picked: null };
+  const s: RadialState = { ...prev };
+
+  if (distance(s.center, point) < config.innerRadius) {
+    s.highlighted = null;
+    s.armed = true;
+    s.leftCenterAt = null;
+    return { state: s, picked: null };
+  }
+
+  if (s.leftCenterAt === null) s.leftCenterAt = timestamp;
+  s.highlighted = radialSectorAt(s.center, point, count, config);
+
+  const flicked = s.armed && distance(s.center, point) >= config.outerRadius && timestamp - s.leftCenterAt <= config.flickMs;
+  if (flicked && s.highlighted !== null) {
+    s.armed = false;
+    return { state: s, picked: s.highlighted };
+  }
+  return { state: s, picked: null };
+};
+
+// Moves into a submenu or back out of it; a fresh ring waits for the hand to return to the centre
+export const openRadialPath = (prev: RadialState, path: string[]): RadialState => ({
+  ...prev,
+  path,
+  highlighted: null,
+  armed: false,
+  leftCenterAt: null
+});
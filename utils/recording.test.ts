@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { HandLandmark, LandmarkRecording } from '../types';
+import { DEFAULT_GESTURE_CONFIG, GestureAction, createGestureState, stepGesture } from './gestureEngine';
+import { RECORDING_VERSION, createRecording, getFrameAt, getFramesBetween, getRecordingDuration, parseRecording, recordFrame, serializeRecording } from './recording';
+import { OPEN, PINCHED, makeHand } from './testHands';
+
+const FRAME_MS = 33;
+
+// Open hand, a pinched stroke moving right, open again, then the hand leaves
+const strokeRecording = (): LandmarkRecording => {
+  const poses: (HandLandmark[] | null)[] = [
+    makeHand('pinch', OPEN), makeHand('pinch', OPEN),
+    ...Array.from({ length: 8 }, (_, i) => makeHand('pinch', PINCHED, 0.5 - i * 0.01)),
+    makeHand('pinch', OPEN, 0.42), makeHand('pinch', OPEN, 0.42), makeHand('pinch', OPEN, 0.42),
+    null, null
+  ];
+  const recording = createRecording();
+  poses.forEach((landmarks, i) => recordFrame(recording, i * FRAME_MS, landmarks ? [{ landmarks, handedness: 'Right' }] : []));
+  return recording;
+};
+
+// The replay loop of the app: a fixed clock step per tick, every frame in it stepped at its own time
+const replay = (recording: LandmarkRecording, tickMs = 1000 / 60): GestureAction[] => {
+  let state = createGestureState();
+  const actions: GestureAction[] = [];
+  for (let clock = 0; clock <= getRecordingDuration(recording); clock += tickMs) {
+    for (const frame of getFramesBetween(recording, clock, clock + tickMs)) {
+      const hand = frame.hands.find(h => h.handedness === 'Right');
+      const step = stepGesture(state, hand ? hand.landmarks : null, frame.t, { width: 1000, height: 800 }, DEFAULT_GESTURE_CONFIG);
+      state = step.state;
+      actions.push(...step.actions);
+    }
+  }
+  return actions;
+};
+
+describe('parseRecording', () => {
+  it('round-trips a recording, keeping only x/y/z of each landmark', () => {
+    const recording = createRecording();
+    const landmarks = makeHand('palm').map(l => ({ ...l, visibility: 0.9 }));
+    recordFrame(recording, 0, [{ landmarks, handedness: 'Left' }]);
+    recordFrame(recording, 33, []);
+
+    const parsed = parseRecording(serializeRecording(recording));
+    expect(parsed).toEqual(recording);
+    expect(parsed.frames[0].hands[0].landmarks[0]).toEqual({ x: 0.5, y: 0.6, z: 0 });
+  });
+
+  it('upgrades v1 recordings to right hands', () => {
+    const landmarks = makeHand('fist');
+    const v1 = { version: 1, createdAt: '2024-01-01T00:00:00.000Z', frames: [{ t: 0, landmarks }, { t: 33, landmarks: null }] };
+    const parsed = parseRecording(JSON.stringify(v1));
+    expect(parsed.version).toBe(RECORDING_VERSION);
+    expect(parsed.createdAt).toBe(v1.createdAt);
+    expect(parsed.frames).toEqual([{ t: 0, hands: [{ landmarks, handedness: 'Right' }] }, { t: 33, hands: [] }]);
+  });
+
+  it('rejects unknown versions, unordered frames and malformed hands', () => {
+    const hands = [{ landmarks: makeHand('palm'), handedness: 'Right' }];
+    expect(() => parseRecording('null')).toThrow('Unsupported recording format');
+    expect(() => parseRecording(JSON.stringify({ version: RECORDING_VERSION + 1, frames: [] }))).toThrow('Unsupported recording format');
+    expect(() => parseRecording(JSON.stringify({ version: 2, frames: [{ t: 33, hands }, { t: 0, hands }] }))).toThrow('increasing timestamps');
+    expect(() => parseRecording(JSON.stringify({ version: 2, frames: [{ t: 0, hands: [{ ...hands[0], handedness: 'Up' }] }] }))).toThrow('Invalid hands at t=0');
+    expect(() => parseRecording(JSON.stringify({ version: 2, frames: [{ t: 0, hands: [{ ...hands[0], landmarks: [] }] }] }))).toThrow('Invalid hands at t=0');
+    expect(() => parseRecording(JSON.stringify({ version: 1, frames: [{ t: 0, landmarks: [1, 2] }] }))).toThrow('Invalid landmarks at t=0');
+  });
+});
+
+describe('frame lookup', () => {
+  const recording = strokeRecording();
+
+  it('returns the frames with from <= t < to', () => {
+    expect(getFramesBetween(recording, 0, 33).map(f => f.t)).toEqual([0]);
+    expect(getFramesBetween(recording, 33, 99).map(f => f.t)).toEqual([33, 66]);
+    expect(getFramesBetween(recording, 34, 66)).toEqual([]);
+    expect(getFramesBetween(recording, -100, 0)).toEqual([]);
+    expect(getFramesBetween(recording, getRecordingDuration(recording), Infinity)).toHaveLength(1);
+  });
+
+  it('finds the latest frame at or before t', () => {
+    expect(getFrameAt(recording, -1)).toBeNull();
+    expect(getFrameAt(recording, 0)!.t).toBe(0);
+    expect(getFrameAt(recording, 65)!.t).toBe(33);
+    expect(getFrameAt(recording, 1e9)!.t).toBe(getRecordingDuration(recording));
+  });
+});
+
+describe('replay', () => {
+  it('steps a recorded stroke through the gesture engine to the same actions every time', () => {
+    const recording = parseRecording(serializeRecording(strokeRecording()));
+    const actions = replay(recording);
+
+    // The pinch is debounced, then the stroke follows the hand (mirrored: moving left in the camera is right on screen)
+    expect(actions.map(a => a.type)).toEqual(['strokeStart', 'pointAdded', 'pointAdded', 'pointAdded', 'pointAdded', 'strokeEnd']);
+    const xs = actions.flatMap(a => a.type === 'strokeStart' || a.type === 'pointAdded' ? [a.point.x] : []);
+    expect(xs.every((x, i) => i === 0 || x > xs[i - 1])).toBe(true);
+
+    // A replay at another tick rate sees the same frames at the same times
+    expect(replay(recording)).toEqual(actions);
+    expect(replay(recording, 1000 / 30)).toEqual(actions);
+  });
+});
@@ -0,0 +1,116 @@
+import { HandLandmark, LandmarkFrame, LandmarkRecording, TrackedHand } from '../types';
+
+// v1: one hand per frame ({ t, landmarks }), v2: { t, hands: [{ landmarks, handedness }] }
+export const RECORDING_VERSION = 2;
+const LANDMARK_COUNT = 21;
+
+export const createRecording = (): LandmarkRecording => ({
+  version: RECORDING_VERSION,
+  createdAt: new Date().toISOString(),
+  frames: []
+});
+
+// MediaPipe result objects can carry extra fields (visibility etc.), keep only x/y/z
+export const recordFrame = (recording: LandmarkRecording, t: number, hands: TrackedHand[]) => {
+  recording.frames.push({
+    t,
+    hands: hands.map(({ landmarks, handedness }) => ({
+      landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z })),
+      handedness
+    }))
+  });
+};
+
+export const getRecordingDuration = (recording: LandmarkRecording): number => {
+  const { frames } = recording;
+  return frames.length > 0 ? frames[frames.length - 1].t : 0;
+};
+
+// Latest frame at or before t (frames are time-ordered, so binary search)
+export const getFrameAt = (recording: LandmarkRecording, t: number): LandmarkFrame | null => {
+  const { frames } = recording;
+  let lo = 0;
+  let hi = frames.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].t <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found >= 0 ? frames[found] : null;
+};
+
+// Frames with from <= t < to, in order
+export const getFramesBetween = (recording: LandmarkRecording, from: number, to: number): LandmarkFrame[] => {
+  const { frames } = recording;
+  let lo = 0;
+  let hi = frames.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].t < from) lo = mid + 1;
+    else hi = mid;
+  }
+  const result: LandmarkFrame[] = [];
+  for (let i = lo; i < frames.length && frames[i].t < to; i++) result.push(frames[i]);
+  return result;
+};
+
+export const serializeRecording = (recording: LandmarkRecording): string => {
+  return JSON.stringify(recording);
+};
+
+const isLandmark = (l: unknown): l is HandLandmark => {
+  if (typeof l !== 'object' || l === null) return false;
+  const { x, y, z } = l as Record<string, unknown>;
+  return typeof x === 'number' && typeof y === 'number' && typeof z === 'number';
+};
+
+const isLandmarks = (landmarks: unknown): landmarks is HandLandmark[] => {
+  return Array.isArray(landmarks) && landmarks.length === LANDMARK_COUNT && landmarks.every(isLandmark);
+};
+
+const isTrackedHand = (h: unknown): h is TrackedHand => {
+  if (typeof h !== 'object' || h === null) return false;
+  const { landmarks, handedness } = h as Record<string, unknown>;
+  return isLandmarks(landmarks) && (handedness === 'Left' || handedness === 'Right');
+};
+
+// v1 recordings were single-hand and carry no handedness; treat them as the right hand
+const upgradeHands = (frame: Record<string, unknown>, version: number): unknown => {
+  if (version === 1) {
+    return frame.landmarks ? [{ landmarks: frame.landmarks, handedness: 'Right' }] : [];
+  }
+  return frame.hands;
+};
+
+export const parseRecording = (json: string): LandmarkRecording => {
+  const data: unknown = JSON.parse(json);
+  const { version, createdAt, frames } = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+  if (typeof version !== 'number' || version < 1 || version > RECORDING_VERSION || !Array.isArray(frames)) {
+    throw new Error('Unsupported recording format');
+  }
+
+  let lastT = -Infinity;
+  const parsed = frames.map((raw: unknown): LandmarkFrame => {
+    const frame = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+    const { t } = frame;
+    if (typeof t !== 'number' || t < lastT) {
+      throw new Error('Recording frames must have increasing timestamps');
+    }
+    if (version === 1 && frame.landmarks !== null && !isLandmarks(frame.landmarks)) {
+      throw new Error(`Invalid landmarks at t=${t}`);
+    }
+    const hands = upgradeHands(frame, version);
+    if (!Array.isArray(hands) || !hands.every(isTrackedHand)) {
+      throw new Error(`Invalid hands at t=${t}`);
+    }
+    lastT = t;
+    return { t, hands };
+  });
+
+  return { version: RECORDING_VERSION, createdAt: typeof createdAt === 'string' ? createdAt : '', frames: parsed };
+};
@@ -0,0 +1,201 @@
+import { DrawingPath, Layer, TextObject, ViewTransform } from '../types';
+import { buildStrokeOutline, StrokeOutline } from './strokeOutline';
+import { applyViewTransform, getVisibleRect } from './viewport';
+import { Bounds } from './selection';
+
+// Canvas rendering helpers shared by the live view and exports
+
+// Pixel eraser strokes are wider than the pen size they were drawn with
+export const ERASER_WIDTH_FACTOR = 2;
+
+// Committed paths are never mutated, so their outline is computed once
+const outlineCache = new WeakMap<DrawingPath, { length: number; outline: StrokeOutline }>();
+
+export const getPathOutline = (path: DrawingPath): StrokeOutline => {
+  const cached = outlineCache.get(path);
+  if (cached && cached.length === path.points.length) return cached.outline;
+  const width = path.isEraser ? path.width * ERASER_WIDTH_FACTOR : path.width;
+  const outline = buildStrokeOutline(path.points, width, !!path.shape, !!path.fitted);
+  outlineCache.set(path, { length: path.points.length, outline });
+  return outline;
+};
+
+export const fillOutline = (ctx: CanvasRenderingContext2D, outline: StrokeOutline, color: string) => {
+  ctx.fillStyle = color;
+  // Each polygon is filled on its own so overlapping segments never cancel out
+  for (const polygon of outline.polygons) {
+    ctx.beginPath();
+    ctx.moveTo(polygon[0].x, polygon[0].y);
+    for (let i = 1; i < polygon.length; i++) ctx.lineTo(polygon[i].x, polygon[i].y);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.beginPath();
+  for (const { x, y, r } of outline.discs) {
+    ctx.moveTo(x + r, y);
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+  }
+  ctx.fill();
+};
+
+// Eraser paths cut through everything drawn before them ('destination-out'),
+// so the target context must be a dedicated ink layer, never the camera frame.
+export const drawInkPath = (ctx: CanvasRenderingContext2D, path: DrawingPath) => {
+  if (path.points.length === 0) return;
+  if (path.isEraser) {
+    ctx.globalCompositeOperation = 'destination-out';
+    fillOutline(ctx, getPathOutline(path), '#000');
+    ctx.globalCompositeOperation = 'source-over';
+  } else {
+    fillOutline(ctx, getPathOutline(path), path.color);
+  }
+};
+
+export const drawInk = (ctx: CanvasRenderingContext2D, paths: DrawingPath[], skip?: Set<DrawingPath>) => {
+  for (const path of paths) {
+    if (skip && skip.has(path)) continue;
+    drawInkPath(ctx, path);
+  }
+};
+
+export const TEXT_FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+export const textFont = (size: number): string => `bold ${size}px ${TEXT_FONT_FAMILY}`;
+
+// Text objects in world coordinates, anchored at their top left corner
+export const drawTexts = (ctx: CanvasRenderingContext2D, texts: TextObject[]) => {
+  ctx.save();
+  ctx.textBaseline = 'top';
+  for (const text of texts) {
+    ctx.font = textFont(text.size);
+    ctx.fillStyle = text.color;
+    ctx.fillText(text.text, text.x, text.y);
+  }
+  ctx.restore();
+};
+
+// World-space box of a text object, measured with `ctx` (its state is left as it was)
+export const getTextBounds = (ctx: CanvasRenderingContext2D, text: TextObject): Bounds => {
+  ctx.save();
+  ctx.font = textFont(text.size);
+  const width = ctx.measureText(text.text).width;
+  ctx.restore();
+  return { minX: text.x, minY: text.y, maxX: text.x + width, maxY: text.y + text.size };
+};
+
+// A layer canvas (screen space) over `ctx`, with the layer's opacity
+export const compositeLayer = (ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, opacity: number) => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = opacity;
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+};
+
+// Each visible layer (bottom to top) is drawn on the scratch canvas by `drawLayer`, in world
+// coordinates, then composited with its opacity. Pixel erasers therefore only cut their own layer.
+export const drawLayers = (
+  ctx: CanvasRenderingContext2D,
+  scratch: HTMLCanvasElement,
+  layers: Layer[],
+  view: ViewTransform,
+  drawLayer: (layerCtx: CanvasRenderingContext2D, layer: Layer) => void
+) => {
+  const layerCtx = scratch.getContext('2d');
+  if (!layerCtx) return;
+  for (const layer of layers) {
+    if (!layer.visible) continue;
+    layerCtx.setTransform(1, 0, 0, 1, 0, 0);
+    layerCtx.clearRect(0, 0, scratch.width, scratch.height);
+    applyViewTransform(layerCtx, view);
+    drawLayer(layerCtx, layer);
+    compositeLayer(ctx, scratch, layer.opacity);
+  }
+};
+
+type Rect = ReturnType<typeof getVisibleRect>;
+
+// Overview of the drawing (visible layers) fitted into `box`, with the visible area outlined.
+// Strokes are plain polylines; eraser paths are left out.
+export const drawMinimap = (
+  ctx: CanvasRenderingContext2D,
+  paths: DrawingPath[],
+  layers: Layer[],
+  visible: Rect,
+  box: Rect
+) => {
+  const shown = new Set(layers.filter(l => l.visible).map(l => l.id));
+  const ink = paths.filter(p => !p.isEraser && shown.has(p.layerId));
+
+  let minX = visible.x;
+  let minY = visible.y;
+  let maxX = visible.x + visible.width;
+  let maxY = visible.y + visible.height;
+  for (const path of ink) {
+    for (const p of path.points) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+  }
+  const pad = 6;
+  const scale = Math.min((box.width - pad * 2) / (maxX - minX), (box.height - pad * 2) / (maxY - minY));
+  const ox = box.x + (box.width - (maxX - minX) * scale) / 2 - minX * scale;
+  const oy = box.y + (box.height - (maxY - minY) * scale) / 2 - minY * scale;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+  ctx.beginPath();
+  ctx.rect(box.x, box.y, box.width, box.height);
+  ctx.clip();
+
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const path of ink) {
+    ctx.strokeStyle = path.color;
+    ctx.lineWidth = Math.max(1, path.width * scale);
+    ctx.beginPath();
+    path.points.forEach((p, i) => {
+      if (i === 0) ctx.moveTo(p.x * scale + ox, p.y * scale + oy);
+      else ctx.lineTo(p.x * scale + ox, p.y * scale + oy);
+    });
+    if (path.points.length === 1) ctx.lineTo(path.points[0].x * scale + ox + 0.1, path.points[0].y * scale + oy);
+    ctx.stroke();
+  }
+
+  ctx.strokeStyle = '#FFFFFF';
+  ctx.lineWidth = 1.5;
+  ctx.strokeRect(visible.x * scale + ox, visible.y * scale + oy, visible.width * scale, visible.height * scale);
+  ctx.restore();
+};
+
+// Frame-time panel: text lines over a bar chart of recent frame times (ms, oldest first)
+export const drawFrameOverlay = (ctx: CanvasRenderingContext2D, box: Rect, samples: number[], budgetMs: number, lines: string[]) => {
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+
+  ctx.font = '12px monospace';
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#FFFFFF';
+  lines.forEach((line, i) => ctx.fillText(line, box.x + 8, box.y + 16 + i * 15));
+
+  // Bars are scaled so the frame budget sits at mid-height; over-budget frames turn red
+  const chartTop = box.y + 16 + lines.length * 15;
+  const chartHeight = box.y + box.height - 6 - chartTop;
+  const barWidth = box.width / Math.max(1, samples.length);
+  samples.forEach((ms, i) => {
+    const h = Math.min(chartHeight, (ms / budgetMs) * chartHeight / 2);
+    ctx.fillStyle = ms > budgetMs ? '#F87171' : '#34D399';
+    ctx.fillRect(box.x + i * barWidth, box.y + box.height - 6 - h, Math.max(1, barWidth - 1), h);
+  });
+  const budgetY = box.y + box.height - 6 - chartHeight / 2;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.setLineDash([3, 3]);
+  ctx.beginPath();
+  ctx.moveTo(box.x, budgetY);
+  ctx.lineTo(box.x + box.width, budgetY);
+  ctx.stroke();
+  ctx.restore();
+};
@@ -0,0 +1,103 @@
+import { DrawingPath, Point } from '../types';
+import { pointInPolygon, polylineHitTest } from './geometry';
+
+// Picking committed paths (fist or lasso) and moving / scaling / rotating them.
+// Paths are never mutated: a transform produces new paths (see the 'replace' history command).
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Scale and rotation about `origin`, then a translation (world units)
+export interface SelectionTransform {
+  origin: Point;
+  dx: number;
+  dy: number;
+  scale: number;
+  rotation: number; // Radians
+}
+
+// Fraction of a path's points that must be inside the lasso for it to be selected
+const LASSO_COVERAGE = 0.5;
+
+export const identityTransform = (origin: Point): SelectionTransform => ({ origin, dx: 0, dy: 0, scale: 1, rotation: 0 });
+
+export const isIdentityTransform = (t: SelectionTransform): boolean => {
+  return t.dx === 0 && t.dy === 0 && t.scale === 1 && t.rotation === 0;
+};
+
+export const transformPoint = (p: Point, t: SelectionTransform): Point => {
+  const cos = Math.cos(t.rotation) * t.scale;
+  const sin = Math.sin(t.rotation) * t.scale;
+  const x = p.x - t.origin.x;
+  const y = p.y - t.origin.y;
+  return {
+    x: t.origin.x + x * cos - y * sin + t.dx,
+    y: t.origin.y + x * sin + y * cos + t.dy
+  };
+};
+
+// Widths scale along with the geometry, so a transformed path looks like its preview
+export const transformPath = (path: DrawingPath, t: SelectionTransform): DrawingPath => ({
+  ...path,
+  points: path.points.map(p => ({ ...p, ...transformPoint(p, t) })),
+  width: path.width * t.scale
+});
+
+// Canvas equivalent of transformPoint, composed onto the current (view) transform
+export const applySelectionTransform = (ctx: CanvasRenderingContext2D, t: SelectionTransform) => {
+  ctx.translate(t.origin.x + t.dx, t.origin.y + t.dy);
+  ctx.rotate(t.rotation);
+  ctx.scale(t.scale, t.scale);
+  ctx.translate(-t.origin.x, -t.origin.y);
+};
+
+// Ink extent of the paths (including stroke width), null when there are none
+export const getBounds = (paths: DrawingPath[]): Bounds | null => {
+  let bounds: Bounds | null = null;
+  for (const path of paths) {
+    const r = path.width / 2;
+    for (const p of path.points) {
+      if (!bounds) bounds = { minX: p.x - r, minY: p.y - r, maxX: p.x + r, maxY: p.y + r };
+      bounds.minX = Math.min(bounds.minX, p.x - r);
+      bounds.minY = Math.min(bounds.minY, p.y - r);
+      bounds.maxX = Math.max(bounds.maxX, p.x + r);
+      bounds.maxY = Math.max(bounds.maxY, p.y + r);
+    }
+  }
+  return bounds;
+};
+
+// Clockwise from the top left
+export const getBoundsCorners = (b: Bounds): Point[] => [
+  { x: b.minX, y: b.minY },
+  { x: b.maxX, y: b.minY },
+  { x: b.maxX, y: b.maxY },
+  { x: b.minX, y: b.maxY }
+];
+
+export const isInBounds = (p: Point, b: Bounds, margin = 0): boolean => {
+  return p.x >= b.minX - margin && p.x <= b.maxX + margin && p.y >= b.minY - margin && p.y <= b.maxY + margin;
+};
+
+// Topmost ink path within `radius` of the point (eraser paths cannot be picked)
+export const hitTestPath = (paths: DrawingPath[], p: Point, radius: number): DrawingPath | null => {
+  for (let i = paths.length - 1; i >= 0; i--) {
+    const path = paths[i];
+    if (!path.isEraser && polylineHitTest(path.points, p, p, radius + path.width / 2)) return path;
+  }
+  return null;
+};
+
+// Ink paths (mostly) enclosed by a closed-up lasso stroke, in drawing order
+export const selectInLasso = (paths: DrawingPath[], lasso: Point[]): DrawingPath[] => {
+  if (lasso.length < 3) return [];
+  return paths.filter(path => {
+    if (path.isEraser || path.points.length === 0) return false;
+    const inside = path.points.filter(p => pointInPolygon(p, lasso)).length;
+    return inside / path.points.length >= LASSO_COVERAGE;
+  });
+};
@@ -0,0 +1,162 @@
+import { FilterKind, FILTER_KINDS } from './filters';
+import { MenuStyle, MENU_STYLES } from './menu';
+import { loadJson, saveJson } from './storage';
+
+// User-tunable behavior knobs. Everything here is applied live (see App.tsx applySettings).
+
+export interface Settings {
+  // Loop
+  targetFps: number;
+
+  // Pinch (thresholds are the Default profile's; calibrated profiles bring their own)
+  pinchStartThreshold: number;
+  pinchEndThreshold: number;
+  pinchDebounceFrames: number;
+  minDrawDistPx: number;
+
+  // Strokes
+  pressureSensitivity: number; // 0 = uniform width, 1 = full depth / pinch / speed response
+  smartShapes: boolean;        // Snap finished strokes to recognized shapes
+  simplifyTolerance: number;   // Screen px a committed stroke may deviate when points are dropped (0 = keep all)
+  curveFitting: boolean;       // Render committed strokes as a spline through their points (see strokeFit.ts)
+
+  // Text
+  writingPauseMs: number;      // Air-writing is recognized once the hand has paused this long
+
+  // Canvas
+  showMinimap: boolean;
+  inkCache: boolean;      // Keep committed ink rasterized per layer (see inkCache.ts); off redraws every path each frame
+  showFrameStats: boolean;
+  showDebugHud: boolean;  // Tracking and gesture-machine diagnostics (see debugHud.ts)
+
+  // Menu
+  menuStyle: MenuStyle;
+  dwellTimeMs: number;
+  menuCooldownMs: number;
+
+  // Smoothing (see filters.ts)
+  drawingFilter: FilterKind;
+  menuFilter: FilterKind;
+  landmarkFilter: FilterKind;
+
+  // MediaPipe
+  maxNumHands: number;
+  modelComplexity: number;
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+  inferenceWorker: boolean; // Hand tracking off the main thread (falls back automatically if the worker fails)
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  targetFps: 30,
+  pinchStartThreshold: 0.09,
+  pinchEndThreshold: 0.14,
+  pinchDebounceFrames: 3,
+  minDrawDistPx: 2,
+  pressureSensitivity: 0.8,
+  smartShapes: false,
+  simplifyTolerance: 1,
+  curveFitting: true,
+  writingPauseMs: 1200,
+  showMinimap: true,
+  inkCache: true,
+  showFrameStats: false,
+  showDebugHud: false,
+  menuStyle: 'dwell',
+  dwellTimeMs: 600,
+  menuCooldownMs: 1000,
+  drawingFilter: 'dynamicAlpha',
+  menuFilter: 'dynamicAlpha',
+  landmarkFilter: 'none',
+  maxNumHands: 2,
+  modelComplexity: 1,
+  minDetectionConfidence: 0.75,
+  minTrackingConfidence: 0.75,
+  inferenceWorker: true,
+};
+
+// Settings keys by value type, so each kind of field can only name settings of its type
+type KeysOfType<T> = { [K in keyof Settings]: Settings[K] extends T ? K : never }[keyof Settings];
+type NumberKey = KeysOfType<number>;
+type SelectKey = KeysOfType<string>;
+type ToggleKey = KeysOfType<boolean>;
+
+interface FieldInfo<K extends keyof Settings> {
+  key: K;
+  label: string;
+  group: string;
+}
+
+type SelectField<K extends SelectKey> = FieldInfo<K> & { type: 'select'; options: readonly Settings[K][] };
+
+export type SettingField =
+  | FieldInfo<NumberKey> & { type: 'number'; min: number; max: number; step: number; integer?: boolean }
+  | { [K in SelectKey]: SelectField<K> }[SelectKey]
+  | FieldInfo<ToggleKey> & { type: 'toggle' };
+
+// Drives both validation and the settings panel
+export const SETTING_FIELDS: SettingField[] = [
+  { key: 'targetFps', label: 'Target FPS', group: 'Loop', type: 'number', min: 10, max: 60, step: 1, integer: true },
+  { key: 'pinchStartThreshold', label: 'Pinch start (Default profile)', group: 'Pinch', type: 'number', min: 0.02, max: 0.3, step: 0.005 },
+  { key: 'pinchEndThreshold', label: 'Pinch end (Default profile)', group: 'Pinch', type: 'number', min: 0.03, max: 0.4, step: 0.005 },
+  { key: 'pinchDebounceFrames', label: 'Pinch debounce (frames)', group: 'Pinch', type: 'number', min: 0, max: 10, step: 1, integer: true },
+  { key: 'minDrawDistPx', label: 'Min point distance (px)', group: 'Pinch', type: 'number', min: 0, max: 20, step: 0.5 },
+  { key: 'pressureSensitivity', label: 'Pressure sensitivity', group: 'Strokes', type: 'number', min: 0, max: 1, step: 0.05 },
+  { key: 'smartShapes', label: 'Smart shapes', group: 'Strokes', type: 'toggle' },
+  { key: 'simplifyTolerance', label: 'Simplify tolerance (px)', group: 'Strokes', type: 'number', min: 0, max: 5, step: 0.25 },
+  { key: 'curveFitting', label: 'Curve fitting', group: 'Strokes', type: 'toggle' },
+  { key: 'writingPauseMs', label: 'Recognize after pause (ms)', group: 'Text', type: 'number', min: 400, max: 3000, step: 100, integer: true },
+  { key: 'showMinimap', label: 'Minimap (M)', group: 'Canvas', type: 'toggle' },
+  { key: 'inkCache', label: 'Ink cache', group: 'Canvas', type: 'toggle' },
+  { key: 'showFrameStats', label: 'Frame-time overlay (F)', group: 'Canvas', type: 'toggle' },
+  { key: 'showDebugHud', label: 'Debug HUD (D)', group: 'Canvas', type: 'toggle' },
+  { key: 'menuStyle', label: 'Menu style', group: 'Menu', type: 'select', options: MENU_STYLES },
+  { key: 'dwellTimeMs', label: 'Dwell to select (ms)', group: 'Menu', type: 'number', min: 200, max: 2000, step: 50, integer: true },
+  { key: 'menuCooldownMs', label: 'Menu toggle cooldown (ms)', group: 'Menu', type: 'number', min: 200, max: 3000, step: 50, integer: true },
+  { key: 'drawingFilter', label: 'Drawing filter', group: 'Smoothing', type: 'select', options: FILTER_KINDS },
+  { key: 'menuFilter', label: 'Menu filter', group: 'Smoothing', type: 'select', options: FILTER_KINDS },
+  { key: 'landmarkFilter', label: 'Landmark filter', group: 'Smoothing', type: 'select', options: FILTER_KINDS },
+  { key: 'maxNumHands', label: 'Max hands', group: 'Tracking', type: 'number', min: 1, max: 2, step: 1, integer: true },
+  { key: 'modelComplexity', label: 'Model complexity', group: 'Tracking', type: 'number', min: 0, max: 1, step: 1, integer: true },
+  { key: 'minDetectionConfidence', label: 'Detection confidence', group: 'Tracking', type: 'number', min: 0.1, max: 0.95, step: 0.05 },
+  { key: 'minTrackingConfidence', label: 'Tracking confidence', group: 'Tracking', type: 'number', min: 0.1, max: 0.95, step: 0.05 },
+  { key: 'inferenceWorker', label: 'Inference in a worker', group: 'Tracking', type: 'toggle' },
+];
+
+// Hysteresis needs a gap between entering and leaving a pinch
+const MIN_PINCH_HYSTERESIS = 0.01;
+
+const setField = <K extends keyof Settings>(settings: Settings, key: K, value: Settings[K]) => {
+  settings[key] = value;
+};
+
+const validateSelect = <K extends SelectKey>(settings: Settings, field: SelectField<K>, value: unknown) => {
+  const option = field.options.find(o => o === value);
+  if (option !== undefined) setField(settings, field.key, option);
+};
+
+// Unknown keys are dropped, invalid values fall back to defaults, numbers are clamped into range
+export const validateSettings = (raw: unknown): Settings => {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const settings: Settings = { ...DEFAULT_SETTINGS };
+
+  for (const field of SETTING_FIELDS) {
+    const value = input[field.key];
+    if (field.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+      setField(settings, field.key, Math.min(field.max, Math.max(field.min, field.integer ? Math.round(value) : value)));
+    } else if (field.type === 'select') {
+      validateSelect(settings, field, value);
+    } else if (typeof value === 'boolean') {
+      setField(settings, field.key, value);
+    }
+  }
+
+  if (settings.pinchEndThreshold < settings.pinchStartThreshold + MIN_PINCH_HYSTERESIS) {
+    settings.pinchEndThreshold = settings.pinchStartThreshold + MIN_PINCH_HYSTERESIS;
+  }
+  return settings;
+};
+
+export const loadSettings = (): Settings => validateSettings(loadJson<unknown>('settings', {}));
+export const saveSettings = (settings: Settings) => saveJson('settings', settings);
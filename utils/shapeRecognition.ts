@@ -0,0 +1,260 @@
+import { Point, ShapeKind } from '../types';
+import { distance, distanceToSegment } from './geometry';
+
+// Recognizes a finished stroke as a clean primitive (line, arrow, rectangle, ellipse, triangle).
+// Heuristic and geometric only: resample, then test open strokes for straightness and closed
+// strokes for an ellipse fit or a small number of corners.
+
+export interface ShapeMatch {
+  kind: ShapeKind;
+  points: Point[]; // Vertices of the clean primitive (closed shapes repeat the first point)
+}
+
+export const SHAPE_LABELS: Record<ShapeKind, string> = {
+  line: 'Line',
+  arrow: 'Arrow',
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  triangle: 'Triangle',
+};
+
+const RESAMPLE_COUNT = 64;
+const MIN_SIZE = 20;             // Strokes smaller than this (bounding box diagonal) are left alone
+const CLOSED_GAP = 0.2;          // End gap (fraction of length) below which a stroke counts as closed
+const LINE_STRAIGHTNESS = 0.94;  // Chord / path length
+const ARROW_STRAIGHTNESS = 0.9;  // Shaft chord / shaft length (the head hook adds wobble near the tip)
+const MAX_FIT_ERROR = 0.04;      // Mean distance to the fitted outline (fraction of the diagonal)
+const CORNER_TOLERANCE = 0.07;   // Douglas-Peucker epsilon (fraction of the diagonal)
+const SNAP_ANGLE = Math.PI / 18; // Rotations within 10 degrees of the axes snap to them
+const ELLIPSE_SEGMENTS = 48;
+const ARROW_HEAD_ANGLE = Math.PI / 6;
+
+const pathLength = (points: Point[]): number => {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += distance(points[i - 1], points[i]);
+  return length;
+};
+
+// Evenly spaced points along the stroke
+const resample = (points: Point[], count: number): Point[] => {
+  const interval = pathLength(points) / (count - 1);
+  const out: Point[] = [{ ...points[0] }];
+  let acc = 0;
+  let prev = points[0];
+  for (let i = 1; i < points.length; i++) {
+    let curr = points[i];
+    let d = distance(prev, curr);
+    while (acc + d >= interval && d > 0 && out.length < count) {
+      const t = (interval - acc) / d;
+      const q = { x: prev.x + t * (curr.x - prev.x), y: prev.y + t * (curr.y - prev.y) };
+      out.push(q);
+      prev = q;
+      d = distance(prev, curr);
+      acc = 0;
+    }
+    acc += d;
+    prev = curr;
+  }
+  while (out.length < count) out.push({ ...points[points.length - 1] });
+  return out;
+};
+
+const centroid = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+});
+
+const rotate = (p: Point, c: Point, angle: number): Point => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = p.x - c.x;
+  const dy = p.y - c.y;
+  return { x: c.x + dx * cos - dy * sin, y: c.y + dx * sin + dy * cos };
+};
+
+const snapAngle = (angle: number, period: number): number => {
+  const wrapped = ((angle % period) + period) % period;
+  if (wrapped < SNAP_ANGLE) return angle - wrapped;
+  if (period - wrapped < SNAP_ANGLE) return angle + (period - wrapped);
+  return angle;
+};
+
+// Douglas-Peucker: indices of the vertices kept between first and last
+const simplify = (points: Point[], epsilon: number): number[] => {
+  const keep = [0];
+  const recurse = (start: number, end: number) => {
+    let maxDist = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const d = distanceToSegment(points[i], points[start], points[end]);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxDist > epsilon) {
+      recurse(start, index);
+      keep.push(index);
+      recurse(index, end);
+    }
+  };
+  recurse(0, points.length - 1);
+  keep.push(points.length - 1);
+  return keep;
+};
+
+// Corners of a closed stroke: start at the point farthest from the centre (always a corner
+// of a polygon), so the seam between the stroke's ends does not count as one
+const findCorners = (points: Point[], epsilon: number): Point[] => {
+  const c = centroid(points);
+  let start = 0;
+  points.forEach((p, i) => {
+    if (distance(p, c) > distance(points[start], c)) start = i;
+  });
+  const loop = [...points.slice(start), ...points.slice(0, start), points[start]];
+  const corners = simplify(loop, epsilon).slice(0, -1).map(i => loop[i]);
+
+  // Merge corners closer than the tolerance (wobble around a real corner)
+  return corners.filter((p, i) => i === 0 || distance(p, corners[i - 1]) > epsilon);
+};
+
+// Mean distance from the stroke to a closed outline
+const fitError = (points: Point[], outline: Point[]): number => {
+  let total = 0;
+  for (const p of points) {
+    let best = Infinity;
+    for (let i = 1; i < outline.length; i++) best = Math.min(best, distanceToSegment(p, outline[i - 1], outline[i]));
+    total += best;
+  }
+  return total / points.length;
+};
+
+// --- Shape fits ---
+
+const fitEllipse = (points: Point[]): ShapeMatch | null => {
+  const c = centroid(points);
+  let sxx = 0, syy = 0, sxy = 0;
+  for (const p of points) {
+    sxx += (p.x - c.x) ** 2;
+    syy += (p.y - c.y) ** 2;
+    sxy += (p.x - c.x) * (p.y - c.y);
+  }
+  sxx /= points.length;
+  syy /= points.length;
+  sxy /= points.length;
+
+  // Principal axes; for points spread evenly along an ellipse the variance is radius^2 / 2
+  const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  const mean = (sxx + syy) / 2;
+  const diff = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy ** 2);
+  let a = Math.sqrt(2 * (mean + diff));
+  let b = Math.sqrt(2 * Math.max(0, mean - diff));
+  if (a < 1e-6 || b < 1e-6) return null;
+
+  // Nearly round -> circle, nearly axis-aligned -> axis-aligned
+  let rotation = snapAngle(angle, Math.PI / 2);
+  if (b / a > 0.9) {
+    a = b = (a + b) / 2;
+    rotation = 0;
+  }
+  const vertices: Point[] = [];
+  for (let i = 0; i <= ELLIPSE_SEGMENTS; i++) {
+    const t = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+    vertices.push(rotate({ x: c.x + a * Math.cos(t), y: c.y + b * Math.sin(t) }, c, rotation));
+  }
+  return { kind: 'ellipse', points: vertices };
+};
+
+const fitRectangle = (corners: Point[], points: Point[]): ShapeMatch => {
+  // Dominant edge direction (mod 90 degrees), averaged on the 4x angle circle
+  let sx = 0, sy = 0;
+  corners.forEach((p, i) => {
+    const q = corners[(i + 1) % corners.length];
+    const phi = Math.atan2(q.y - p.y, q.x - p.x);
+    const len = distance(p, q);
+    sx += Math.cos(4 * phi) * len;
+    sy += Math.sin(4 * phi) * len;
+  });
+  const angle = snapAngle(Math.atan2(sy, sx) / 4, Math.PI / 2);
+
+  // Bounding box of the stroke in the rectangle's frame
+  const c = centroid(points);
+  const local = points.map(p => rotate(p, c, -angle));
+  const minX = Math.min(...local.map(p => p.x));
+  const maxX = Math.max(...local.map(p => p.x));
+  const minY = Math.min(...local.map(p => p.y));
+  const maxY = Math.max(...local.map(p => p.y));
+  const box = [
+    { x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }, { x: minX, y: minY }
+  ];
+  return { kind: 'rectangle', points: box.map(p => rotate(p, c, angle)) };
+};
+
+// An arrow drawn in one stroke: a straight shaft to the tip, then a short hook for the head
+const fitArrow = (points: Point[], length: number): ShapeMatch | null => {
+  // The tip is where the stroke first gets (about) as far from the tail as it ever does;
+  // drawing the second barb usually passes through the tip again
+  const tail = points[0];
+  const farthest = Math.max(...points.map(p => distance(p, tail)));
+  const tipIndex = points.findIndex(p => distance(p, tail) >= farthest * 0.97);
+  const tip = points[tipIndex];
+  const shaft = points.slice(0, tipIndex + 1);
+  const head = points.slice(tipIndex);
+  const shaftLength = distance(tail, tip);
+  if (head.length < 3 || shaftLength < length * 0.5) return null;
+  if (shaftLength / pathLength(shaft) < ARROW_STRAIGHTNESS) return null;
+
+  // The hook stays near the tip and actually bends back
+  const reach = Math.max(...head.map(p => distance(p, tip)));
+  if (reach > shaftLength * 0.5 || reach < shaftLength * 0.08) return null;
+
+  const dir = Math.atan2(tip.y - tail.y, tip.x - tail.x);
+  const barb = (side: number): Point => ({
+    x: tip.x - Math.cos(dir + side * ARROW_HEAD_ANGLE) * reach,
+    y: tip.y - Math.sin(dir + side * ARROW_HEAD_ANGLE) * reach
+  });
+  return { kind: 'arrow', points: [tail, tip, barb(1), tip, barb(-1)] };
+};
+
+export const recognizeShape = (stroke: Point[]): ShapeMatch | null => {
+  if (stroke.length < 3) return null;
+  const length = pathLength(stroke);
+  const xs = stroke.map(p => p.x);
+  const ys = stroke.map(p => p.y);
+  const diagonal = Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  if (diagonal < MIN_SIZE || length === 0) return null;
+
+  const points = resample(stroke, RESAMPLE_COUNT);
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  // Open strokes
+  if (distance(first, last) > length * CLOSED_GAP) {
+    if (distance(first, last) / length >= LINE_STRAIGHTNESS) {
+      return { kind: 'line', points: [first, last] };
+    }
+    return fitArrow(points, length);
+  }
+
+  // Closed strokes (the seam itself is dropped so it cannot look like a corner):
+  // the candidate that hugs the stroke best wins
+  const loop = points.slice(0, -1);
+  const corners = findCorners(loop, diagonal * CORNER_TOLERANCE);
+  const candidates = [
+    fitEllipse(loop),
+    corners.length === 3 ? { kind: 'triangle' as const, points: [...corners, corners[0]] } : null,
+    corners.length === 4 ? fitRectangle(corners, loop) : null
+  ];
+
+  let best: ShapeMatch | null = null;
+  let bestError = MAX_FIT_ERROR * diagonal;
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const error = fitError(loop, candidate.points);
+    if (error < bestError) {
+      best = candidate;
+      bestError = error;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,21 @@
+// localStorage helpers. Storage can be unavailable (private mode, quota), so failures fall back silently.
+
+const PREFIX = 'gesture-canvas.';
+
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (err) {
+    console.warn(`Could not read ${key} from storage`, err);
+    return fallback;
+  }
+};
+
+export const saveJson = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not write ${key} to storage`, err);
+  }
+};
@@ -0,0 +1,135 @@
+import { Point, StrokePoint } from '../types';
+import { distance } from './geometry';
+
+// Committed strokes are stored compactly: a tolerance-based point reduction (Ramer-Douglas-Peucker,
+// pressure included) keeps only the knots, and the knots are rendered as a centripetal Catmull-Rom
+// spline. The curve passes through every kept point and never loops on unevenly spaced knots.
+
+export interface FitConfig {
+  tolerance: number;         // Max distance (px, world units) between the raw stroke and the reduced polyline; 0 keeps every point
+  pressureTolerance: number; // Max pressure deviation from the reduced polyline
+}
+
+export const DEFAULT_FIT_CONFIG: FitConfig = {
+  tolerance: 1,
+  pressureTolerance: 0.08,
+};
+
+export interface FitStats {
+  strokes: number;
+  rawPoints: number;
+  storedPoints: number;
+}
+
+export const EMPTY_FIT_STATS: FitStats = { strokes: 0, rawPoints: 0, storedPoints: 0 };
+
+export const addFitStats = (stats: FitStats, rawPoints: number, storedPoints: number): FitStats => ({
+  strokes: stats.strokes + 1,
+  rawPoints: stats.rawPoints + rawPoints,
+  storedPoints: stats.storedPoints + storedPoints
+});
+
+// Share of the raw points that were dropped (0..1)
+export const fitSavings = (stats: FitStats): number => {
+  return stats.rawPoints > 0 ? 1 - stats.storedPoints / stats.rawPoints : 0;
+};
+
+// --- SIMPLIFICATION ---
+
+const segmentDistance = (p: Point, a: Point, b: Point): { distance: number; t: number } => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.min(1, Math.max(0, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return { distance: distance(p, { x: a.x + dx * t, y: a.y + dy * t }), t };
+};
+
+// Iterative (no recursion depth limit on long strokes); endpoints are always kept
+export const simplifyStroke = (points: StrokePoint[], config: FitConfig = DEFAULT_FIT_CONFIG): StrokePoint[] => {
+  if (points.length < 3 || config.tolerance <= 0) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const a = points[first];
+    const b = points[last];
+    let worst = -1;
+    let worstScore = 1;
+
+    for (let i = first + 1; i < last; i++) {
+      const { distance: d, t } = segmentDistance(points[i], a, b);
+      // Scored relative to the tolerances so either kind of deviation can keep a point
+      let score = d / config.tolerance;
+      if (a.pressure !== undefined && b.pressure !== undefined && points[i].pressure !== undefined) {
+        const expected = a.pressure + (b.pressure - a.pressure) * t;
+        score = Math.max(score, Math.abs(points[i].pressure! - expected) / config.pressureTolerance);
+      }
+      if (score > worstScore) {
+        worstScore = score;
+        worst = i;
+      }
+    }
+
+    if (worst !== -1) {
+      keep[worst] = 1;
+      stack.push([first, worst], [worst, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+};
+
+// --- CURVE ---
+
+export interface CubicSegment {
+  from: StrokePoint;
+  c1: Point;
+  c2: Point;
+  to: StrokePoint;
+}
+
+const ALPHA = 0.5; // Centripetal
+
+// Bezier control point near `p1` on the way to `p2`, `p0` being the knot before `p1`
+const controlPoint = (p0: Point, p1: Point, p2: Point): Point => {
+  const d1 = Math.pow(distance(p0, p1), ALPHA);
+  const d2 = Math.pow(distance(p1, p2), ALPHA);
+  if (d1 < 1e-6 || d2 < 1e-6) return { x: p1.x, y: p1.y };
+  const a = d1 * d1;
+  const b = d2 * d2;
+  const m = 2 * a + 3 * d1 * d2 + b;
+  const n = 3 * d1 * (d1 + d2);
+  return {
+    x: (a * p2.x - b * p0.x + m * p1.x) / n,
+    y: (a * p2.y - b * p0.y + m * p1.y) / n
+  };
+};
+
+// The spline through `knots` as cubic Bezier segments (ends use the end knot as their own neighbour)
+export const fitCurve = (knots: StrokePoint[]): CubicSegment[] => {
+  const segments: CubicSegment[] = [];
+  for (let i = 0; i < knots.length - 1; i++) {
+    const p0 = knots[Math.max(0, i - 1)];
+    const p1 = knots[i];
+    const p2 = knots[i + 1];
+    const p3 = knots[Math.min(knots.length - 1, i + 2)];
+    segments.push({ from: p1, c1: controlPoint(p0, p1, p2), c2: controlPoint(p3, p2, p1), to: p2 });
+  }
+  return segments;
+};
+
+export const cubicPoint = ({ from, c1, c2, to }: CubicSegment, t: number): Point => {
+  const u = 1 - t;
+  const a = u * u * u;
+  const b = 3 * u * u * t;
+  const c = 3 * u * t * t;
+  const d = t * t * t;
+  return {
+    x: a * from.x + b * c1.x + c * c2.x + d * to.x,
+    y: a * from.y + b * c1.y + c * c2.y + d * to.y
+  };
+};
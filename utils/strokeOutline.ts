@@ -0,0 +1,135 @@
+import { Point, StrokePoint } from '../types';
+import { distance } from './geometry';
+import { pressureWidthFactor } from './pressure';
+import { cubicPoint, fitCurve } from './strokeFit';
+
+// Variable-width strokes are rendered as filled outlines: the same quadratic midpoint
+// smoothing as before, sampled densely, offset by half the local width on each side.
+// Round caps and sharp corners are covered by discs (filled separately so their
+// winding cannot cancel the outline's). Fitted strokes (see strokeFit.ts) are sampled along
+// their spline instead. Shape primitives keep straight edges and exact corners: one quad
+// per segment, a disc at every vertex.
+
+export interface Disc {
+  x: number;
+  y: number;
+  r: number;
+}
+
+export interface StrokeOutline {
+  polygons: Point[][]; // Empty for a single dot
+  discs: Disc[];
+}
+
+interface Sample {
+  x: number;
+  y: number;
+  w: number;
+}
+
+const SAMPLE_SPACING = 3;    // Approximate distance between samples along the curve
+const MAX_SEGMENT_STEPS = 16;
+const MAX_SPLINE_STEPS = 64; // Fitted knots are sparse, so their segments are longer
+const JOIN_COS = 0.85;       // Corners sharper than ~30 degrees get a disc
+
+const quad = (a: number, c: number, b: number, t: number) => {
+  const u = 1 - t;
+  return u * u * a + 2 * u * t * c + t * t * b;
+};
+
+// Quadratic curves through segment midpoints, widths interpolated alike
+const sampleStroke = (points: StrokePoint[], baseWidth: number): Sample[] => {
+  const pts: Sample[] = points.map(p => ({ x: p.x, y: p.y, w: baseWidth * pressureWidthFactor(p.pressure) }));
+  if (pts.length < 3) return pts;
+
+  const samples: Sample[] = [pts[0]];
+  let start = pts[0];
+  for (let i = 1; i < pts.length - 1; i++) {
+    const c = pts[i];
+    const n = pts[i + 1];
+    const end = { x: (c.x + n.x) / 2, y: (c.y + n.y) / 2, w: (c.w + n.w) / 2 };
+    const length = distance(start, c) + distance(c, end);
+    const steps = Math.min(MAX_SEGMENT_STEPS, Math.max(1, Math.ceil(length / SAMPLE_SPACING)));
+    for (let k = 1; k <= steps; k++) {
+      const t = k / steps;
+      samples.push({ x: quad(start.x, c.x, end.x, t), y: quad(start.y, c.y, end.y, t), w: quad(start.w, c.w, end.w, t) });
+    }
+    start = end;
+  }
+  samples.push(pts[pts.length - 1]);
+  return samples;
+};
+
+// Catmull-Rom spline through the knots, widths interpolated linearly between knots
+const sampleSpline = (points: StrokePoint[], baseWidth: number): Sample[] => {
+  const width = (p: StrokePoint) => baseWidth * pressureWidthFactor(p.pressure);
+  const samples: Sample[] = [{ x: points[0].x, y: points[0].y, w: width(points[0]) }];
+  for (const segment of fitCurve(points)) {
+    const w0 = width(segment.from);
+    const w1 = width(segment.to);
+    const length = distance(segment.from, segment.c1) + distance(segment.c1, segment.c2) + distance(segment.c2, segment.to);
+    const steps = Math.min(MAX_SPLINE_STEPS, Math.max(1, Math.ceil(length / SAMPLE_SPACING)));
+    for (let k = 1; k <= steps; k++) {
+      const t = k / steps;
+      samples.push({ ...cubicPoint(segment, t), w: w0 + (w1 - w0) * t });
+    }
+  }
+  return samples;
+};
+
+const buildPolylineOutline = (points: Point[], width: number): StrokeOutline => {
+  const r = width / 2;
+  const polygons: Point[][] = [];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const len = distance(a, b);
+    if (len < 1e-6) continue;
+    const nx = -(b.y - a.y) / len * r;
+    const ny = (b.x - a.x) / len * r;
+    polygons.push([
+      { x: a.x + nx, y: a.y + ny },
+      { x: b.x + nx, y: b.y + ny },
+      { x: b.x - nx, y: b.y - ny },
+      { x: a.x - nx, y: a.y - ny }
+    ]);
+  }
+  return { polygons, discs: points.map(({ x, y }) => ({ x, y, r })) };
+};
+
+export const buildStrokeOutline = (points: StrokePoint[], baseWidth: number, sharp = false, fitted = false): StrokeOutline => {
+  if (points.length === 0) return { polygons: [], discs: [] };
+  if (sharp) return buildPolylineOutline(points, baseWidth);
+
+  // Repeated samples have no direction
+  const samples = (fitted ? sampleSpline(points, baseWidth) : sampleStroke(points, baseWidth)).filter((s, i, all) => i === 0 || distance(s, all[i - 1]) > 1e-6);
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const discs: Disc[] = [{ x: first.x, y: first.y, r: first.w / 2 }];
+  if (samples.length === 1) return { polygons: [], discs };
+
+  const left: Point[] = [];
+  const right: Point[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    const prev = samples[Math.max(0, i - 1)];
+    const next = samples[Math.min(samples.length - 1, i + 1)];
+    const len = distance(prev, next);
+    const nx = -(next.y - prev.y) / len;
+    const ny = (next.x - prev.x) / len;
+    const { x, y, w } = samples[i];
+    left.push({ x: x + nx * w / 2, y: y + ny * w / 2 });
+    right.push({ x: x - nx * w / 2, y: y - ny * w / 2 });
+
+    if (i > 0 && i < samples.length - 1) {
+      const ax = samples[i].x - prev.x;
+      const ay = samples[i].y - prev.y;
+      const bx = next.x - samples[i].x;
+      const by = next.y - samples[i].y;
+      const cos = (ax * bx + ay * by) / (Math.hypot(ax, ay) * Math.hypot(bx, by));
+      if (cos < JOIN_COS) discs.push({ x, y, r: w / 2 });
+    }
+  }
+  discs.push({ x: last.x, y: last.y, r: last.w / 2 });
+
+  return { polygons: [[...left, ...right.reverse()]], discs };
+};
@@ -0,0 +1,36 @@
+import { HandLandmark } from '../types';
+
+// Synthetic hands for the tests: palm facing the camera, fingers up, hand size (wrist to middle MCP) 0.1.
+// `pinch` is the index-thumb distance relative to the hand size.
+
+export type Pose = 'pinch' | 'palm' | 'fist' | 'victory';
+
+export const OPEN = 0.3;      // Well above the end threshold
+export const PINCHED = 0.05;  // Below the start threshold
+export const BETWEEN = 0.12;  // Inside the hysteresis gap
+
+export const makeHand = (pose: Pose, pinch = OPEN, cx = 0.5, cy = 0.5): HandLandmark[] => {
+  const p = (dx: number, dy: number): HandLandmark => ({ x: cx + dx, y: cy + dy, z: 0 });
+  // [mcp, pip, dip, tip] for a finger at horizontal offset dx
+  const finger = (dx: number, extended: boolean) => extended
+    ? [p(dx, 0), p(dx, -0.03), p(dx, -0.055), p(dx, -0.08)]
+    : [p(dx, 0), p(dx, -0.03), p(dx, -0.01), p(dx, 0.02)];
+
+  const indexUp = pose !== 'fist';
+  const middleUp = pose === 'palm' || pose === 'victory';
+  const othersUp = pose === 'palm';
+  const index = finger(-0.02, indexUp);
+  const indexTip = index[3];
+
+  let thumb: HandLandmark[];
+  if (pose === 'palm') {
+    thumb = [p(-0.03, 0.08), p(-0.05, 0.05), p(-0.07, 0.02), p(-0.1, -0.02)]; // Spread out
+  } else if (pose === 'fist' || pose === 'victory') {
+    thumb = [p(-0.03, 0.08), p(-0.05, 0.05), p(-0.03, 0), p(-0.01, -0.02)];   // Tucked over the fingers
+  } else {
+    const tip = { x: indexTip.x - pinch * 0.1, y: indexTip.y, z: 0 };
+    thumb = [p(-0.03, 0.08), p(-0.05, 0.05), { x: (tip.x + cx - 0.05) / 2, y: (tip.y + cy + 0.05) / 2, z: 0 }, tip];
+  }
+
+  return [p(0, 0.1), ...thumb, ...index, ...finger(0, middleUp), ...finger(0.02, othersUp), ...finger(0.04, othersUp)];
+};
@@ -0,0 +1,105 @@
+import { DrawingPath, StrokePoint, TextObject } from '../types';
+
+// Time-lapse of how the drawing came together. Every stroke point carries the time it was drawn
+// (`t`, epoch ms); the timeline orders all points by it, with long pauses between strokes shortened
+// so a workshop session does not replay its idle minutes. A frame of the time-lapse is the document
+// with every path cut to the points drawn so far, in document order (so erasers and layering still hold);
+// paths still being drawn go on top of their layer, as a stroke in progress does live.
+// Text objects appear whole when they were placed.
+
+export const TIMELAPSE_SPEEDS = [0.5, 1, 2, 4, 8, 16];
+export const DEFAULT_TIMELAPSE_SPEED = 4;
+const MAX_IDLE_MS = 1000; // Longest pause kept on the timeline
+
+export interface Timelapse {
+  paths: DrawingPath[]; // Document order; point times are on the timeline (ms from its start)
+  texts: TextObject[];  // Placement times are on the timeline too
+  duration: number;
+}
+
+export interface TimelapsePlayback {
+  timelapse: Timelapse;
+  time: number;        // Position on the timeline (ms)
+  playing: boolean;
+  speed: number;       // Timeline ms per wall-clock ms
+  showCamera: boolean; // Composite the mirrored camera feed behind the ink
+}
+
+// Spreads the times of a stroke over points that replace it (a recognized shape's vertices)
+export const spreadTimes = (points: StrokePoint[], from: number | undefined, to: number | undefined): StrokePoint[] => {
+  if (from === undefined || to === undefined) return points;
+  const last = Math.max(1, points.length - 1);
+  return points.map((p, i) => ({ ...p, t: Math.round(from + (to - from) * i / last) }));
+};
+
+// Paths and texts without times (older documents) are there from the start
+export const buildTimelapse = (paths: DrawingPath[], texts: TextObject[], maxIdleMs: number = MAX_IDLE_MS): Timelapse => {
+  const times = [...new Set([
+    ...paths.flatMap(path => path.points.flatMap(p => p.t === undefined ? [] : [p.t])),
+    ...texts.flatMap(text => text.t === undefined ? [] : [text.t])
+  ])].sort((a, b) => a - b);
+  const timeline = new Map<number, number>();
+  let position = 0;
+  times.forEach((t, i) => {
+    if (i > 0) position += Math.min(t - times[i - 1], maxIdleMs);
+    timeline.set(t, position);
+  });
+
+  const mapped = paths.map(path => {
+    let previous = 0;
+    const points = path.points.map(p => {
+      // A point without a time shows up with the one before it
+      if (p.t !== undefined) previous = timeline.get(p.t)!;
+      return { ...p, t: previous };
+    });
+    return { ...path, points };
+  });
+  const placed = texts.map(text => ({ ...text, t: text.t === undefined ? 0 : timeline.get(text.t)! }));
+  return { paths: mapped, texts: placed, duration: position };
+};
+
+// Points drawn by `time` (times within a path never decrease, so binary search)
+const countDrawn = (points: StrokePoint[], time: number): number => {
+  let lo = 0;
+  let hi = points.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].t! <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+export interface TimelapseFrame {
+  paths: DrawingPath[];   // Finished by then: the same objects every frame, so the ink cache only adds to them
+  drawing: DrawingPath[]; // Cut to the points drawn so far; drawn live on top, like a stroke in progress
+}
+
+// The paths as they were at `time`, in document order
+export const getTimelapseFrame = (timelapse: Timelapse, time: number): TimelapseFrame => {
+  const frame: TimelapseFrame = { paths: [], drawing: [] };
+  for (const path of timelapse.paths) {
+    const drawn = countDrawn(path.points, time);
+    if (drawn === path.points.length) frame.paths.push(path);
+    else if (drawn > 0) frame.drawing.push({ ...path, points: path.points.slice(0, drawn) });
+  }
+  return frame;
+};
+
+export const getTimelapseTexts = (timelapse: Timelapse, time: number): TextObject[] =>
+  timelapse.texts.filter(text => text.t! <= time);
+
+export const createTimelapsePlayback = (paths: DrawingPath[], texts: TextObject[], showCamera: boolean): TimelapsePlayback => ({
+  timelapse: buildTimelapse(paths, texts),
+  time: 0,
+  playing: true,
+  speed: DEFAULT_TIMELAPSE_SPEED,
+  showCamera
+});
+
+// Advances a playing time-lapse by `elapsed` wall-clock ms; it pauses at the end
+export const advanceTimelapse = (playback: TimelapsePlayback, elapsed: number): TimelapsePlayback => {
+  if (!playback.playing) return playback;
+  const time = Math.min(playback.timelapse.duration, playback.time + elapsed * playback.speed);
+  return { ...playback, time, playing: time < playback.timelapse.duration };
+};
@@ -0,0 +1,117 @@
+import { Point, ViewTransform } from '../types';
+import { distance } from './geometry';
+import { pinWorldPoint, screenToWorld } from './viewport';
+import { GestureConfig, DEFAULT_GESTURE_CONFIG } from './gestureEngine';
+
+// Two-hand pinch: both hands pinch, then spreading / closing them zooms
+// and moving them together pans (or, with a selection, scales / rotates / moves it,
+// see `spread`). Pure, like the single-hand engine.
+
+export interface PinchSample {
+  point: Point;       // Smoothed cursor in screen pixels
+  pinchRatio: number;
+}
+
+export interface TwoHandState {
+  active: boolean;
+  consecutiveFrames: number;
+  startDistance: number;
+  startAngle: number;         // Direction from hand a to hand b (radians)
+  startMidpoint: Point;       // Screen pixels
+  startWorld: Point;          // World point under the initial midpoint
+  startView: ViewTransform;
+}
+
+// Hand movement since the gesture started
+export interface TwoHandSpread {
+  scale: number;       // Current / initial distance between the hands
+  rotation: number;    // Change of direction between the hands (radians)
+  translation: Point;  // Midpoint movement (screen pixels)
+}
+
+export interface TwoHandStep {
+  state: TwoHandState;
+  view: ViewTransform;
+  spread: TwoHandSpread | null; // Only while active
+  started: boolean;
+}
+
+export const createTwoHandState = (): TwoHandState => ({
+  active: false,
+  consecutiveFrames: 0,
+  startDistance: 0,
+  startAngle: 0,
+  startMidpoint: { x: 0, y: 0 },
+  startWorld: { x: 0, y: 0 },
+  startView: { x: 0, y: 0, scale: 1 }
+});
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+const angle = (a: Point, b: Point): number => Math.atan2(b.y - a.y, b.x - a.x);
+
+// Shortest signed difference, so crossing +-180 degrees does not flip the rotation
+const angleDelta = (from: number, to: number): number => {
+  const d = to - from;
+  return Math.atan2(Math.sin(d), Math.cos(d));
+};
+
+// Hands closer than this (px) make the zoom ratio too jumpy to start
+const MIN_START_DISTANCE_PX = 40;
+
+export const stepTwoHand = (
+  prev: TwoHandState,
+  a: PinchSample | null,
+  b: PinchSample | null,
+  view: ViewTransform,
+  canStart: boolean,
+  config: GestureConfig = DEFAULT_GESTURE_CONFIG
+): TwoHandStep => {
+  const s: TwoHandState = { ...prev };
+
+  if (!a || !b) {
+    return { state: createTwoHandState(), view, spread: null, started: false };
+  }
+
+  if (s.active) {
+    // Hysteresis: either hand opening past the end threshold releases
+    if (a.pinchRatio > config.pinchEndThreshold || b.pinchRatio > config.pinchEndThreshold) {
+      return { state: createTwoHandState(), view, spread: null, started: false };
+    }
+    const mid = midpoint(a.point, b.point);
+    const spread: TwoHandSpread = {
+      scale: distance(a.point, b.point) / s.startDistance,
+      rotation: angleDelta(s.startAngle, angle(a.point, b.point)),
+      translation: { x: mid.x - s.startMidpoint.x, y: mid.y - s.startMidpoint.y }
+    };
+    return { state: s, view: pinWorldPoint(s.startWorld, mid, s.startView.scale * spread.scale), spread, started: false };
+  }
+
+  const bothPinching = a.pinchRatio < config.pinchStartThreshold && b.pinchRatio < config.pinchStartThreshold;
+  const startDistance = distance(a.point, b.point);
+  if (!canStart || !bothPinching || startDistance < MIN_START_DISTANCE_PX) {
+    s.consecutiveFrames = 0;
+    return { state: s, view, spread: null, started: false };
+  }
+
+  s.consecutiveFrames++;
+  if (s.consecutiveFrames <= config.pinchDebounceFrames) {
+    return { state: s, view, spread: null, started: false };
+  }
+
+  const startMidpoint = midpoint(a.point, b.point);
+  return {
+    state: {
+      active: true,
+      consecutiveFrames: 0,
+      startDistance,
+      startAngle: angle(a.point, b.point),
+      startMidpoint,
+      startWorld: screenToWorld(startMidpoint, view),
+      startView: view
+    },
+    view,
+    spread: null,
+    started: true
+  };
+};
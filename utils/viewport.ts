@@ -0,0 +1,46 @@
+import { Point, ViewTransform, Viewport } from '../types';
+
+// Zoom limits for the canvas view
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 8;
+
+export const IDENTITY_VIEW: ViewTransform = { x: 0, y: 0, scale: 1 };
+
+export const clampScale = (scale: number): number => {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+};
+
+export const screenToWorld = (p: Point, view: ViewTransform): Point => ({
+  x: (p.x - view.x) / view.scale,
+  y: (p.y - view.y) / view.scale
+});
+
+export const worldToScreen = (p: Point, view: ViewTransform): Point => ({
+  x: p.x * view.scale + view.x,
+  y: p.y * view.scale + view.y
+});
+
+// New view with the given scale that keeps `world` pinned under the screen point `anchor`
+export const pinWorldPoint = (world: Point, anchor: Point, scale: number): ViewTransform => {
+  const s = clampScale(scale);
+  return {
+    x: anchor.x - world.x * s,
+    y: anchor.y - world.y * s,
+    scale: s
+  };
+};
+
+// Visible world-space rectangle
+export const getVisibleRect = (viewport: Viewport, view: ViewTransform) => {
+  const topLeft = screenToWorld({ x: 0, y: 0 }, view);
+  return {
+    x: topLeft.x,
+    y: topLeft.y,
+    width: viewport.width / view.scale,
+    height: viewport.height / view.scale
+  };
+};
+
+export const applyViewTransform = (ctx: CanvasRenderingContext2D, view: ViewTransform) => {
+  ctx.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+};
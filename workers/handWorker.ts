@@ -0,0 +1,96 @@
+import type { HandLandmark } from '../types';
+import type { InferenceOptions, WorkerRequest, WorkerResponse } from '../utils/inference';
+
+// Hand landmark inference off the main thread (see utils/inference.ts). MediaPipe Tasks'
+// HandLandmarker is loaded from the CDN, like the main-thread Hands solution in index.html.
+// Results are shaped like that solution's, so both go through readHandResults.
+
+const TASKS_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14';
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse) => void;
+};
+
+// The parts of @mediapipe/tasks-vision used here (it is not a dependency, so typed locally)
+type TaskOptions = ReturnType<typeof toTaskOptions>;
+
+interface Category {
+  categoryName: string;
+}
+
+interface HandLandmarkerResult {
+  landmarks: HandLandmark[][];
+  handedness?: Category[][];
+  handednesses?: Category[][]; // Older releases
+}
+
+interface HandLandmarker {
+  detectForVideo: (image: ImageBitmap, timestamp: number) => HandLandmarkerResult;
+  setOptions: (options: TaskOptions) => Promise<void>;
+}
+
+let landmarker: HandLandmarker | null = null;
+let lastTimestamp = -Infinity;
+
+const describe = (err: unknown): string => err instanceof Error ? err.message : String(err);
+
+const toTaskOptions = (options: InferenceOptions) => ({
+  numHands: options.maxNumHands,
+  minHandDetectionConfidence: options.minDetectionConfidence,
+  minHandPresenceConfidence: options.minDetectionConfidence,
+  minTrackingConfidence: options.minTrackingConfidence
+});
+
+const init = async (options: InferenceOptions) => {
+  try {
+    const vision = await import(/* @vite-ignore */ `${TASKS_URL}/vision_bundle.mjs`);
+    const fileset = await vision.FilesetResolver.forVisionTasks(`${TASKS_URL}/wasm`);
+    landmarker = await vision.HandLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: MODEL_URL, delegate: 'GPU' },
+      runningMode: 'VIDEO',
+      ...toTaskOptions(options)
+    });
+    scope.postMessage({ type: 'ready' });
+  } catch (err) {
+    scope.postMessage({ type: 'error', message: `Hand tracking worker failed to start: ${describe(err)}` });
+  }
+};
+
+const detect = (tracker: HandLandmarker, bitmap: ImageBitmap, capturedAt: number) => {
+  try {
+    // VIDEO mode needs strictly increasing timestamps
+    const timestamp = Math.max(capturedAt, lastTimestamp + 1);
+    lastTimestamp = timestamp;
+    const result = tracker.detectForVideo(bitmap, timestamp);
+    const handedness = result.handedness ?? result.handednesses ?? [];
+    scope.postMessage({
+      type: 'result',
+      capturedAt,
+      results: {
+        multiHandLandmarks: result.landmarks,
+        multiHandedness: handedness.map(categories => ({ label: categories[0]?.categoryName }))
+      }
+    });
+  } catch (err) {
+    scope.postMessage({ type: 'error', message: `Hand tracking worker failed: ${describe(err)}` });
+  } finally {
+    bitmap.close();
+  }
+};
+
+scope.onmessage = (e) => {
+  const msg = e.data;
+  if (msg.type === 'init') {
+    init(msg.options);
+  } else if (msg.type === 'options') {
+    landmarker?.setOptions(toTaskOptions(msg.options)).catch((err: unknown) => {
+      scope.postMessage({ type: 'error', message: `Hand tracking worker failed to apply options: ${describe(err)}` });
+    });
+  } else if (landmarker) {
+    detect(landmarker, msg.bitmap, msg.capturedAt);
+  } else {
+    msg.bitmap.close();
+  }
+};